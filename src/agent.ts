@@ -2,381 +2,396 @@
  * AI Agent 核心模块
  * 
  * 这个模块是整个项目的"大脑"，负责：
- * 1. 与阿里云 DashScope API 通信
- * 2. 调用 qwen-plus AI 模型
- * 3. 处理 API 请求和响应
- * 4. 从响应中提取 AI 生成的注释代码
+ * 1. 根据代码和语言构建提示词
+ * 2. 通过 LLM Provider 调用 AI 模型（DashScope / OpenAI 兼容接口 / Ollama）
+ * 3. 从响应中提取 AI 生成的注释代码
  * 
  * 工作流程：
- * 代码文件 → 构建提示词 → 调用 API → 解析响应 → 返回带注释的代码
+ * 代码文件 → 分段 → 构建提示词 → 调用 Provider → 解析响应 → 按顺序拼接 → 返回带注释的代码
+ * 
+ * 具体的 HTTP 请求、认证和响应格式都在 providers.ts 中处理。
+ * 使用 --tools 时，传进来的 Provider 外面套着工具调用循环（见 tools.ts），
+ * 这里的一次 complete() 可能包含多轮请求：模型先查看被导入的文件，再给出带注释的代码
  */
 
+import { createProvider, LLMProvider } from "./providers.js";
+import { buildOutline, CodeChunk, splitIntoChunks } from "./chunker.js";
+import { buildCommentPrompt, ChunkContext } from "./prompts.js";
+import { CollieError, MalformedResponseError, TruncatedResponseError } from "./errors.js";
+import { LineRange } from "./gitdiff.js";
+import { collectImports, ImportedModule } from "./imports.js";
+import { languageForExtension } from "./languages.js";
+import { RefreshOptions, refreshComments } from "./refresh.js";
+import { DocScope, supportsScopeFilter } from "./scope.js";
+import { CommentMode, generateStructuredComments, supportsStructuredMode } from "./structured.js";
+import { commentLanguageName, DEFAULT_COMMENT_LANG, defaultStyleFor, DocStyle } from "./styles.js";
+
 /**
- * TypeScript 接口定义：DashScope API 响应格式
- * 
- * interface 关键字：定义对象的形状（结构）
- * - 类似于其他语言的"类"或"结构体"
- * - 但 interface 只定义类型，不包含实现
- * - TypeScript 编译器会检查对象是否符合这个接口
- * 
- * 这个接口描述了 DashScope API 返回的数据结构：
- * {
- *   output: {
- *     choices: [
- *       {
- *         message: {
- *           content: "AI 生成的文本"
- *         }
- *       }
- *     ]
- *   },
- *   request_id: "请求ID"
- * }
+ * generateComments 的可选参数
  * 
- * 类型说明：
- * - Array<{...}> 表示一个数组，数组元素是对象
- * - string 表示字符串类型
+ * - provider: 使用的 LLM Provider，未传入时根据环境变量创建
+ * - temperature: 采样温度，默认 0.3（偏向确定性，适合代码任务）
+ * - maxTokens: 每次请求的最大生成 token 数，默认 2000
+ * - chunkTokens: 每段输入代码的 token 预算，默认为 maxTokens 的一半
+ *   （加上注释后输出会比输入长，留出余量避免被截断）
+ * - onChunk: 分段处理时，每开始处理一段就回调一次
+ * - onDelta: 设置后使用流式接口，模型每生成一段文本就回调一次（用于实时进度和 --stream）
+ * - onDeltaReset: 流式请求中途失败、重试之前回调，之前收到的这次请求的文本作废
+ * - strict: 使用更严格的提示词（代码保护校验失败后重试时使用）
+ * - lang: 注释使用的自然语言代码（如 "zh"、"en"），默认 "zh"
+ * - style: 文档注释风格，默认按编程语言选择（TypeScript 用 TSDoc，Python 用 Google 风格等）
+ * - scope: 注释范围（exported / public / all），默认 all
+ * - inline: 是否添加函数体内的行内注释，默认 true
+ * - mode: 生成模式，structured 时模型只返回 JSON 注释（仅 TypeScript / JavaScript，其他语言按 rewrite 处理）
+ * - regions: 只处理这些行范围（--since / --staged），范围之外的代码原样保留
+ * - refresh: 设置后不再添加注释，而是重写过时的文档注释、按需删除冗余注释（refresh 命令，仅 TypeScript / JavaScript）
+ * - language: 编程语言名称（languages.ts 中注册的名称），不设置时按扩展名判断
+ * - filePath: 代码所在的文件路径，用于解析相对路径的导入（见 importTokens）
+ * - importTokens: 设置后（并且给出了 filePath）把被导入模块的签名和文档注释加入提示词，
+ *   值是这部分上下文的 token 上限（--imports，仅 TypeScript / JavaScript，refresh 不使用）
  */
-interface DashScopeResponse {
-    output: {
-        choices: Array<{
-            message: {
-                content: string;
-            };
-        }>;
-    };
-    request_id: string;
+export interface GenerateOptions {
+    provider?: LLMProvider;
+    temperature?: number;
+    maxTokens?: number;
+    chunkTokens?: number;
+    onChunk?: (index: number, total: number) => void;
+    onDelta?: (delta: string) => void;
+    onDeltaReset?: (discarded: string) => void;
+    strict?: boolean;
+    lang?: string;
+    style?: DocStyle;
+    scope?: DocScope;
+    inline?: boolean;
+    mode?: CommentMode;
+    regions?: LineRange[];
+    refresh?: RefreshOptions;
+    language?: string;
+    filePath?: string;
+    importTokens?: number;
 }
 
 /**
- * 调用 DashScope API 生成代码注释
+ * 默认采样参数
+ */
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 2000;
+
+/**
+ * 分段处理时，作为上下文附带的前文行数
+ */
+const CONTEXT_LINES = 30;
+
+/**
+ * 支持导入上下文（importTokens）的语言
+ */
+const IMPORT_LANGUAGES = ["typescript", "javascript"];
+
+/**
+ * 调用 AI 模型生成代码注释
  * 
  * 这是核心函数，负责：
- * 1. 验证 API Key
- * 2. 构建发送给 AI 的提示词（prompt）
- * 3. 发送 HTTP 请求到 DashScope API
- * 4. 解析 API 响应
- * 5. 提取 AI 生成的代码
+ * 1. 把代码按顶层声明切分成不超过 token 预算的段（小文件只有一段）
+ * 2. 为每一段构建提示词，并附带前文和文件结构作为上下文
+ *    （设置了 importTokens 时，每一段都附带同样的被导入模块的声明）
+ * 3. 通过 Provider 逐段发送请求，检测输出是否被截断
+ * 4. 按原顺序拼接各段结果
  * 
  * @param code - 需要添加注释的原始代码（字符串）
  * @param fileExtension - 文件扩展名（如 ".ts", ".js"），用于识别编程语言
+ * @param options - Provider、采样参数和分段参数
  * @returns Promise<string> - 返回一个 Promise，解析后得到带注释的代码
- * 
- * TypeScript 类型说明：
- * - async function：异步函数，返回 Promise
- * - Promise<string>：表示这个函数返回一个 Promise，成功时解析为 string
- * - export：导出这个函数，让其他模块可以导入使用
+ * @throws TruncatedResponseError - 任意一段输出被截断时抛出，调用方不能写回文件
  */
 export async function generateComments(
     code: string,
-    fileExtension: string
+    fileExtension: string,
+    options: GenerateOptions = {}
 ): Promise<string> {
     /**
-     * 步骤 1: 获取并验证 API Key
+     * 步骤 1: 确定编程语言
      * 
-     * process.env 是 Node.js 的全局对象，包含所有环境变量
-     * 环境变量是在系统级别设置的配置，不会硬编码在代码中
-     * 
-     * 为什么要用环境变量？
-     * - 安全性：API Key 不应该写在代码里（会被提交到 Git）
-     * - 灵活性：不同环境（开发/生产）可以使用不同的 Key
-     */
-    const apiKey = process.env.DASHSCOPE_API_KEY;
-
-    // 如果 API Key 不存在，抛出错误
-    // throw new Error() 会中断函数执行，错误会被调用者捕获
-    if (!apiKey) {
-        throw new Error(
-            "未找到 DASHSCOPE_API_KEY 环境变量，请先设置 API Key"
-        );
-    }
-
-    /**
-     * 步骤 2: 根据文件扩展名确定编程语言
+     * 调用方已经识别过（文件名、shebang、--language）时直接使用，否则按扩展名判断
      * 
      * 为什么要识别语言？
      * - AI 模型需要知道代码语言，才能生成正确的注释格式
      * - 不同语言的注释语法不同（//, #, /* 等）
      */
-    const language = getLanguageName(fileExtension);
-
-    /**
-     * 步骤 3: 构建提示词（Prompt）
-     * 
-     * 提示词是发送给 AI 的指令，告诉 AI 要做什么
-     * 好的提示词应该：
-     * - 清晰明确地说明任务
-     * - 包含具体要求
-     * - 提供上下文（代码内容）
-     * 
-     * 模板字符串语法：
-     * - 使用反引号 ` 而不是单引号或双引号
-     * - ${变量} 可以在字符串中嵌入变量
-     * - \`\`\` 是转义的反引号，用于在字符串中表示代码块标记
-     */
-    const prompt = `请为以下${language}代码添加详细的中文注释。要求：
-1. 为每个函数、类、方法添加注释
-2. 为关键逻辑和复杂代码段添加行内注释
-3. 注释要清晰易懂，说明代码的作用和意图
-4. 保持代码的原有格式和结构
-5. 只返回添加了注释的完整代码，不要添加额外的说明文字
+    const language = options.language ?? getLanguageName(fileExtension);
 
-代码：
-\`\`\`${language}
-${code}
-\`\`\`
+    const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+    const budget = options.chunkTokens ?? Math.floor(maxTokens / 2);
 
-请直接返回添加了注释的代码：`;
-
-    /**
-     * 步骤 4: 发送 HTTP 请求到 DashScope API
-     * 
-     * try-catch 块：捕获可能的错误
-     * - 网络错误、API 错误等都可能发生
-     * - 使用 try-catch 可以优雅地处理这些错误
-     */
     try {
+        // 没有传入 Provider 时，按环境变量（COLLIE_PROVIDER 等）创建默认 Provider
+        const provider = options.provider ?? createProvider();
+        const commentLanguage = commentLanguageName(options.lang ?? DEFAULT_COMMENT_LANG);
+        const style = options.style ?? defaultStyleFor(language);
+
         /**
-         * fetch() 函数：发送 HTTP 请求
-         * 
-         * fetch 是浏览器和 Node.js（18+）提供的全局函数
-         * 用于发送 HTTP 请求，类似于 axios 或 request 库
-         * 
-         * await 关键字：
-         * - 等待异步操作完成
-         * - fetch 返回 Promise，await 会等待 Promise 解析
-         * - 解析后得到 Response 对象
+         * refresh：只重写与签名不一致的文档注释，不添加新注释
          */
-        const response = await fetch(
-            // API 端点 URL
-            // 这是阿里云 DashScope 服务的文本生成 API 地址
-            "https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation",
-            {
-                // HTTP 方法：POST（发送数据）
-                method: "POST",
-
-                // HTTP 请求头
-                // 告诉服务器请求的格式和认证信息
-                headers: {
-                    // Content-Type: 告诉服务器请求体的格式是 JSON
-                    "Content-Type": "application/json",
-                    // Authorization: Bearer token 是标准的 API 认证方式
-                    // Bearer 表示使用令牌认证，后面跟着 API Key
-                    Authorization: `Bearer ${apiKey}`,
-                },
-
-                // 请求体：发送给服务器的数据
-                // JSON.stringify() 将 JavaScript 对象转换为 JSON 字符串
-                body: JSON.stringify({
-                    // 指定使用的 AI 模型
-                    model: "qwen-plus",
-
-                    // 输入数据：对话格式
-                    // messages 数组包含对话历史
-                    input: {
-                        messages: [
-                            {
-                                // role: "user" 表示这是用户的消息
-                                // 也可以是 "assistant"（AI 的回复）或 "system"（系统提示）
-                                role: "user",
-                                // content: 用户的消息内容（我们构建的提示词）
-                                content: prompt,
-                            },
-                        ],
-                    },
-
-                    // 模型参数：控制 AI 的行为
-                    parameters: {
-                        // temperature: 控制输出的随机性
-                        // 0.0 = 完全确定（总是选择最可能的词）
-                        // 1.0 = 完全随机
-                        // 0.3 = 偏向确定性，适合代码生成任务
-                        temperature: 0.3,
-                        // max_tokens: 限制生成的最大长度（token 数）
-                        // 防止生成过长的文本，节省成本
-                        max_tokens: 2000,
-                    },
-                }),
+        if (options.refresh) {
+            if (!supportsScopeFilter(fileExtension)) {
+                throw new CollieError(`refresh 暂不支持 ${language} 文件，目前只支持 TypeScript / JavaScript`);
             }
-        );
+            return await refreshComments(code, fileExtension, {
+                ...options.refresh,
+                provider,
+                language,
+                temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+                maxTokens,
+                commentLanguage,
+                style,
+                onDelta: options.onDelta,
+                onDeltaReset: options.onDeltaReset,
+            });
+        }
 
         /**
-         * 步骤 5: 检查 HTTP 响应状态
-         * 
-         * response.ok 是 Response 对象的属性
-         * - true: HTTP 状态码在 200-299 之间（成功）
-         * - false: 其他状态码（如 400, 401, 500 等，表示错误）
+         * 导入上下文：用 TypeScript 的模块解析找到被导入的文件，
+         * 取出用到的声明的签名和文档注释，模型就不必按名字猜测它们的作用
          */
-        if (!response.ok) {
-            // 如果请求失败，读取错误信息
-            // response.text() 读取响应体作为文本
-            const errorText = await response.text();
-            // 抛出错误，包含状态码和错误信息
-            throw new Error(
-                `API 请求失败: ${response.status} ${response.statusText}\n${errorText}`
-            );
-        }
+        const imports = options.importTokens && options.filePath && IMPORT_LANGUAGES.includes(language)
+            ? await collectImports(code, options.filePath, options.importTokens)
+            : undefined;
 
         /**
-         * 步骤 6: 解析 JSON 响应
-         * 
-         * response.json() 将响应体解析为 JavaScript 对象
-         * 
-         * 类型断言 (as any):
-         * - TypeScript 不知道 API 返回的确切格式
-         * - as any 告诉 TypeScript："相信我，我知道这是什么类型"
-         * - 使用 any 类型会跳过类型检查，需要谨慎使用
-         * - 这里使用 any 是因为 API 响应格式可能变化
+         * 结构化模式：模型只返回每个声明的注释，由程序插入，不需要分段
          */
-        const data = (await response.json()) as any;
+        if (options.mode === "structured" && supportsStructuredMode(fileExtension)) {
+            return await generateStructuredComments(code, fileExtension, {
+                provider,
+                language,
+                temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+                maxTokens,
+                commentLanguage,
+                style,
+                scope: options.scope ?? "all",
+                regions: options.regions,
+                imports,
+                onDelta: options.onDelta,
+                onDeltaReset: options.onDeltaReset,
+            });
+        }
 
         /**
-         * 调试模式：打印完整的 API 响应
+         * 步骤 2: 分段
          * 
-         * 为什么需要调试模式？
-         * - 帮助开发者理解 API 返回的数据结构
-         * - 排查问题时非常有用
-         * - 生产环境不应该开启（会输出大量日志）
-         * 
-         * JSON.stringify(data, null, 2):
-         * - 将对象转换为格式化的 JSON 字符串
-         * - null: 不使用替换函数
-         * - 2: 缩进 2 个空格，让输出更易读
+         * 小文件只会得到一个段，行为与整文件处理相同；
+         * 指定了 regions 时只对这些区域分段，区域之外的行不发给模型
          */
-        if (process.env.DEBUG === "1" || process.env.DEBUG === "true") {
-            console.log("API 响应:", JSON.stringify(data, null, 2));
-        }
+        const lines = code.split("\n");
+        const chunks = options.regions
+            ? splitRegions(lines, options.regions, language, budget)
+            : splitIntoChunks(code, language, budget);
+        const partial = chunks.length > 1 || options.regions !== undefined;
+        const outline = partial ? buildOutline(code, language) : [];
 
         /**
-         * 步骤 7: 从响应中提取 AI 生成的文本
-         * 
-         * 为什么需要多种格式检查？
-         * - 不同版本的 API 可能返回不同格式
-         * - 为了兼容性，我们检查多种可能的格式
+         * 步骤 3: 逐段生成注释
          * 
-         * 可选链操作符 (?.)：
-         * - data.output?.choices 表示：如果 data.output 存在，则访问 choices
-         * - 如果 data.output 是 null 或 undefined，不会报错，而是返回 undefined
-         * - 这是 ES2020 的新特性，避免访问 undefined 的属性时报错
-         * 
-         * 数组访问 [0]：
-         * - choices 是一个数组，[0] 获取第一个元素
-         * - AI 通常返回多个候选答案，我们取第一个
+         * 段与段之间按顺序处理，结果按原顺序拼接
          */
-        let content: string | undefined;  // 声明变量，类型是 string 或 undefined
+        const results: string[] = [];
+        for (const chunk of chunks) {
+            options.onChunk?.(chunk.index, chunks.length);
 
-        // 尝试不同的响应格式（按优先级顺序）
-        // 格式 1: 标准格式 output.choices[0].message.content
-        if (data.output?.choices?.[0]?.message?.content) {
-            content = data.output.choices[0].message.content;
-        }
-        // 格式 2: 简化格式 output.text
-        else if (data.output?.text) {
-            content = data.output.text;
-        }
-        // 格式 3: 另一种格式 choices[0].message.content
-        else if (data.choices?.[0]?.message?.content) {
-            content = data.choices[0].message.content;
-        }
-        // 格式 4: 最简单的格式 text
-        else if (data.text) {
-            content = data.text;
-        }
-        // 如果都不匹配，说明 API 返回了未知格式
-        else {
-            // 打印实际响应以便调试
-            const responseStr = JSON.stringify(data, null, 2);
-            console.error("无法识别的 API 响应结构:");
-            console.error(responseStr);
-            throw new Error(
-                `API 返回的数据格式不正确。\n` +
-                `请设置 DEBUG=1 查看完整响应，或检查 API 文档。\n` +
-                `响应结构预览: ${responseStr.substring(0, 500)}`  // 只显示前 500 个字符
+            const context: ChunkContext | undefined = partial
+                ? {
+                    index: chunk.index,
+                    total: chunks.length,
+                    before: lines
+                        .slice(Math.max(0, chunk.startLine - CONTEXT_LINES), chunk.startLine)
+                        .join("\n"),
+                    outline,
+                }
+                : undefined;
+
+            results.push(
+                await commentSegment(provider, chunk.text, language, context, {
+                    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+                    maxTokens,
+                    strict: options.strict ?? false,
+                    commentLanguage,
+                    style,
+                    scope: options.scope ?? "all",
+                    inline: options.inline ?? true,
+                    imports,
+                    onDelta: options.onDelta,
+                    onDeltaReset: options.onDeltaReset,
+                })
             );
         }
 
-        // 双重检查：确保成功提取了内容
-        if (!content) {
-            throw new Error("API 返回的数据格式不正确：无法提取内容");
+        if (!options.regions) {
+            return results.join("\n");
         }
 
         /**
-         * 步骤 8: 清理和提取代码
-         * 
-         * AI 可能返回带 markdown 代码块标记的文本（```typescript ... ```）
-         * 我们需要提取其中的纯代码
+         * 只处理了部分区域：把结果拼回原文件，区域之外的行原样保留
          */
-        return extractCodeFromResponse(content, language);
+        const parts: string[] = [];
+        let cursor = 0;
+        chunks.forEach((chunk, i) => {
+            if (chunk.startLine > cursor) {
+                parts.push(lines.slice(cursor, chunk.startLine).join("\n"));
+            }
+            parts.push(results[i]);
+            cursor = chunk.endLine;
+        });
+        if (cursor < lines.length) {
+            parts.push(lines.slice(cursor).join("\n"));
+        }
+        return parts.join("\n");
     } catch (error) {
         /**
          * 错误处理
          * 
-         * 如果 try 块中的任何代码抛出错误，会被 catch 捕获
-         * 我们重新包装错误，添加更清晰的错误信息
+         * 自定义错误（如 TruncatedResponseError）原样抛出，保留错误类型；
+         * 其他错误重新包装，添加更清晰的错误信息
          */
+        if (error instanceof CollieError) {
+            throw error;
+        }
         if (error instanceof Error) {
-            // 如果错误是 Error 类型，提取错误消息并重新抛出
             throw new Error(`生成注释时出错: ${error.message}`);
         }
-        // 如果错误不是 Error 类型（很少见），直接抛出
         throw error;
     }
 }
 
 /**
- * 根据文件扩展名获取语言名称
- * 
- * 这是一个辅助函数，将文件扩展名（如 ".ts"）转换为语言名称（如 "typescript"）
+ * 把指定的区域切分成段
+ *
+ * 每个区域单独按 token 预算切分，段的行号换算回原文件中的行号
+ *
+ * @param lines - 按行拆分的完整代码
+ * @param regions - 需要处理的区域（按顺序排列、互不重叠）
+ * @param language - 语言名称
+ * @param budget - 每段的 token 预算
+ * @returns 按顺序排列的代码段
+ */
+function splitRegions(lines: string[], regions: LineRange[], language: string, budget: number): CodeChunk[] {
+    const chunks: CodeChunk[] = [];
+    for (const region of regions) {
+        const text = lines.slice(region.start, region.end).join("\n");
+        for (const chunk of splitIntoChunks(text, language, budget)) {
+            chunks.push({
+                index: chunks.length,
+                startLine: region.start + chunk.startLine,
+                endLine: region.start + chunk.endLine,
+                text: chunk.text,
+            });
+        }
+    }
+    return chunks;
+}
+
+/**
+ * 为一段代码生成注释
  * 
- * @param extension - 文件扩展名（如 ".ts", ".js"）
- * @returns 语言名称（如 "typescript", "javascript"）
+ * 段首和段尾的空行不发送给模型（模型返回时也会丢掉它们），
+ * 处理完后再原样补回，保证各段拼接后声明之间的空行不变
  * 
- * TypeScript 类型说明：
- * - function 函数名(参数: 类型): 返回类型 { ... }
- * - Record<string, string> 是 TypeScript 的工具类型
- *   表示一个对象，键是 string，值也是 string
- *   等同于 { [key: string]: string }
+ * @param provider - LLM Provider
+ * @param text - 这一段的原始代码
+ * @param language - 语言名称
+ * @param context - 分段上下文（整文件处理时为 undefined）
+ * @param sampling - 采样参数、严格模式、注释语言和风格、注释范围、被导入模块的声明、流式回调
+ * @returns 带注释的这段代码
  */
-function getLanguageName(extension: string): string {
+async function commentSegment(
+    provider: LLMProvider,
+    text: string,
+    language: string,
+    context: ChunkContext | undefined,
+    sampling: {
+        temperature: number;
+        maxTokens: number;
+        strict: boolean;
+        commentLanguage: string;
+        style?: DocStyle;
+        scope: DocScope;
+        inline: boolean;
+        imports?: ImportedModule[];
+        onDelta?: (delta: string) => void;
+        onDeltaReset?: (discarded: string) => void;
+    }
+): Promise<string> {
+    const leading = text.match(/^(\s*\n)?/)![0];
+    const trailing = text.match(/(\n\s*)?$/)![0];
+    const core = text.slice(leading.length, text.length - trailing.length);
+
+    // 纯空白的段不需要调用模型
+    if (!core.trim()) {
+        return text;
+    }
+
+    const response = await provider.complete({
+        messages: [
+            {
+                role: "user",
+                content: buildCommentPrompt({
+                    language,
+                    code: core,
+                    chunk: context,
+                    strict: sampling.strict,
+                    commentLanguage: sampling.commentLanguage,
+                    style: sampling.style,
+                    scope: sampling.scope,
+                    inline: sampling.inline,
+                    imports: sampling.imports,
+                }),
+            },
+        ],
+        temperature: sampling.temperature,
+        maxTokens: sampling.maxTokens,
+        onDelta: sampling.onDelta,
+        onDeltaReset: sampling.onDeltaReset,
+    });
+
     /**
-     * 语言映射表
-     * 
-     * 这是一个对象字面量，将文件扩展名映射到语言名称
-     * 例如：".ts" → "typescript"
+     * 截断检测
      * 
-     * const 关键字：声明常量，值不能改变
-     * 使用 const 而不是 let，因为这个映射表不会改变
+     * finish_reason 为 "length" 表示模型在 max_tokens 处停止，
+     * 此时返回的代码是不完整的，绝不能写回文件
      */
-    const languageMap: Record<string, string> = {
-        ".ts": "typescript",
-        ".js": "javascript",
-        ".tsx": "typescript",  // React TypeScript
-        ".jsx": "javascript",  // React JavaScript
-        ".py": "python",
-        ".java": "java",
-        ".cpp": "cpp",
-        ".c": "c",
-        ".go": "go",
-        ".rs": "rust",
-        ".php": "php",
-        ".rb": "ruby",
-        ".swift": "swift",
-        ".kt": "kotlin",
-    };
+    if (response.finishReason === "length") {
+        throw new TruncatedResponseError(
+            `模型输出在 max_tokens（${sampling.maxTokens}）处被截断，已放弃写入。` +
+            `请调大 --max-tokens 或调小 --chunk-tokens 后重试`
+        );
+    }
+
+    // 确保成功提取了内容
+    if (!response.content) {
+        throw new MalformedResponseError("API 返回的数据格式不正确：无法提取内容");
+    }
 
     /**
-     * 查找语言名称
+     * 清理和提取代码
      * 
-     * extension.toLowerCase() - 将扩展名转为小写（如 ".TS" → ".ts"）
-     * languageMap[extension.toLowerCase()] - 在映射表中查找
-     * || "text" - 如果找不到，使用默认值 "text"
-     * 
-     * || 运算符（逻辑或）：
-     * - 如果左边是 falsy 值（null, undefined, "", 0, false），返回右边
-     * - 如果左边是 truthy 值，返回左边
-     * - 这里用作"默认值"的简写
+     * AI 可能返回带 markdown 代码块标记的文本（```typescript ... ```）
+     * 我们需要提取其中的纯代码
      */
-    return languageMap[extension.toLowerCase()] || "text";
+    return leading + extractCodeFromResponse(response.content, language) + trailing;
+}
+
+
+/**
+ * 根据文件扩展名获取语言名称
+ * 
+ * 这是一个辅助函数，将文件扩展名（如 ".ts"）转换为语言名称（如 "typescript"）
+ * 
+ * 扩展名和语言的对应关系来自语言注册表（languages.ts），
+ * 配置文件中添加的语言也会生效；需要同时参考文件名和 shebang 时使用 detectLanguage
+ * 
+ * @param extension - 文件扩展名（如 ".ts", ".js"），不区分大小写
+ * @returns 语言名称（如 "typescript", "javascript"）；不认识的扩展名返回 "text"
+ */
+export function getLanguageName(extension: string): string {
+    return languageForExtension(extension);
 }
 
 /**
@@ -392,8 +407,12 @@ function getLanguageName(extension: string): string {
  * @param content - AI 返回的原始文本（可能包含 markdown 标记）
  * @param language - 编程语言名称（用于匹配代码块标记）
  * @returns 提取出的纯代码（不包含 markdown 标记）
+ * @throws TruncatedResponseError - 代码块只有开头没有结尾（输出被截断）时抛出
+ * 
+ * 注意：只去掉首尾的空行，不去掉第一行的缩进，
+ * 否则分段处理时缩进的代码段拼接回去会错位
  */
-function extractCodeFromResponse(
+export function extractCodeFromResponse(
     content: string,
     language: string
 ): string {
@@ -416,7 +435,7 @@ function extractCodeFromResponse(
      * - 模板字符串可以嵌入变量
      */
     const codeBlockRegex = new RegExp(
-        `\`\`\`${language}\\s*\\n([\\s\\S]*?)\\n\`\`\``,
+        `\`\`\`${escapeRegExp(language)}\\s*\\n([\\s\\S]*?)\\n\`\`\``,
         "i"
     );
 
@@ -428,7 +447,7 @@ function extractCodeFromResponse(
     // match[0] 是整个匹配，match[1] 是第一个捕获组（代码内容）
     if (match && match[1]) {
         // trim() 方法：去除字符串首尾的空白字符
-        return match[1].trim();
+        return stripBlankLines(match[1]);
     }
 
     /**
@@ -448,14 +467,39 @@ function extractCodeFromResponse(
     const genericMatch = content.match(genericCodeBlockRegex);
 
     if (genericMatch && genericMatch[1]) {
-        return genericMatch[1].trim();
+        return stripBlankLines(genericMatch[1]);
+    }
+
+    /**
+     * 代码块只有开头的 ``` 而没有结尾，说明输出在中途被截断
+     * （有些服务在截断时不返回 finish_reason，这是第二道防线）
+     */
+    if (/^\s*```/.test(content)) {
+        throw new TruncatedResponseError("模型返回的代码块没有闭合，输出可能被截断，已放弃写入");
     }
 
     /**
      * 方法 3: 如果都没有代码块标记，直接返回内容
      * 
      * 有些情况下，AI 可能直接返回代码，不包含 markdown 标记
-     * 这时我们直接返回，只去除首尾空白
+     * 这时我们直接返回，只去除首尾空行
      */
-    return content.trim();
+    return stripBlankLines(content);
+}
+
+/**
+ * 转义正则表达式中的特殊字符（配置文件中的语言名称可能包含 "+"、"#" 等）
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 去掉文本首尾的空行，但保留第一行代码的缩进
+ * 
+ * @param text - 原始文本
+ * @returns 去掉首尾空行后的文本
+ */
+function stripBlankLines(text: string): string {
+    return text.replace(/^\s*\n/, "").trimEnd();
 }
@@ -0,0 +1,215 @@
+/**
+ * 编程接口模块
+ *
+ * 除了命令行，其他程序（内部工具、编辑器脚本等）也可以直接调用：
+ *
+ *   import { CollieAgent } from "cli-agent";
+ *
+ *   const agent = new CollieAgent({ connection: { provider: "openai" }, dryRun: true });
+ *   agent.on("fileDone", (result) => console.log(result.status, result.filePath));
+ *   const results = await agent.commentFiles(["src/a.ts", "src/b.ts"]);
+ *
+ * CollieAgent 负责：
+ * 1. 创建 Provider（或使用传入的 Provider），按选项套上限流、重试和缓存
+ * 2. 统计用量和费用（agent.usage），按 maxCost 限制费用
+ * 3. 批量处理文件，并通过事件报告每个文件的进度
+ *
+ * CLI（cli.ts）也是在它的基础上实现的。与 CLI 不同，这里不读取配置文件，
+ * 默认不输出日志、不使用本地缓存，所有行为都由传入的选项决定
+ */
+
+import { EventEmitter } from "events";
+import { CachedProvider, ResponseCache } from "./cache.js";
+import { addCommentsToFiles, BatchOptions, CommentOptions, CommentResult, Logger } from "./commenter.js";
+import { createProvider, LLMProvider, ProviderConfig, ToolCall } from "./providers.js";
+import { RateLimitConfig, RateLimitedProvider, RateLimiter } from "./ratelimit.js";
+import { RetryingProvider } from "./retry.js";
+import { ProjectTools } from "./tools.js";
+import { findPrice, PriceTable, UsageTracker } from "./usage.js";
+
+/**
+ * CollieAgent 的选项
+ *
+ * 继承单文件处理的选项（采样参数、注释语言和风格、范围、模式、备份、校验、dry-run、fs 等），并增加：
+ * - provider: 直接使用的 Provider（例如测试用的假 Provider），不设置时按 connection 创建
+ * - connection: 创建 Provider 的配置（provider 名称、模型、服务地址、API Key、超时）
+ * - retries: 请求失败后的最大重试次数（默认 3，0 表示不重试）
+ * - rateLimit: 每分钟的请求数和 token 数上限（不设置时不限流）
+ * - cache: 是否使用本地响应缓存，也可以传入自己的 ResponseCache（默认不使用）
+ * - prices: 模型价格，覆盖内置价格
+ * - maxCost: 费用上限（美元），下一次请求可能超出时停止处理
+ * - concurrency: 同时处理的文件数（默认 1）
+ * - logger: 处理过程中的日志（默认不输出）
+ * - tools: 允许模型调用只读工具查看项目中的其他文件；true 时以当前目录为项目根目录，
+ *   也可以传入自己的 ProjectTools（指定根目录和上限）（默认不使用）
+ *
+ * 分段进度、流式输出、工具调用和错误通过事件报告，所以不包括 onChunk / onDelta / onDeltaReset / onToolCall
+ * regions 和 filePath 由每个文件各自决定，也不包括在内
+ */
+export interface CollieAgentOptions
+    extends Omit<CommentOptions, "provider" | "usage" | "logger" | "onChunk" | "onDelta" | "onDeltaReset" | "onToolCall" | "regions" | "tools" | "filePath"> {
+    provider?: LLMProvider;
+    connection?: ProviderConfig;
+    retries?: number;
+    rateLimit?: RateLimitConfig;
+    cache?: boolean | ResponseCache;
+    prices?: PriceTable;
+    maxCost?: number;
+    concurrency?: number;
+    logger?: Logger;
+    tools?: boolean | ProjectTools;
+}
+
+/**
+ * CollieAgent 的事件
+ *
+ * - fileStart: 开始处理一个文件
+ * - chunk: 大文件分段处理时，开始处理第 index 段（从 0 开始，共 total 段）
+ * - delta: 收到模型新生成的文本（有监听器时才使用流式接口）
+ * - deltaReset: 流式请求中途失败、重试之前触发，之前通过 delta 收到的这次请求的文本（discarded）作废
+ * - retry: 请求失败，等待 delayMs 毫秒后第 attempt 次重试
+ * - toolCall: 处理某个文件时模型调用了工具（设置了 tools 时）
+ * - fileDone: 一个文件处理结束（成功或失败都会触发）
+ * - error: 一个文件处理失败；Node.js 中没有监听器的 error 事件会抛出异常，所以只在有监听器时触发
+ */
+export type CollieAgentEvents = {
+    fileStart: [filePath: string];
+    chunk: [filePath: string, index: number, total: number];
+    delta: [filePath: string, delta: string];
+    deltaReset: [filePath: string, discarded: string];
+    retry: [error: Error, attempt: number, delayMs: number];
+    toolCall: [filePath: string, call: ToolCall];
+    fileDone: [result: CommentResult];
+    error: [error: Error, filePath: string];
+};
+
+/**
+ * 不输出任何内容的日志
+ */
+const silentLogger: Logger = {
+    log: () => undefined,
+    error: () => undefined,
+};
+
+/**
+ * 为代码文件添加注释的 Agent
+ *
+ * 一个实例可以多次调用 commentFiles，共用同一个 Provider、限流配额和用量统计
+ */
+export class CollieAgent extends EventEmitter<CollieAgentEvents> {
+    /**
+     * 套上限流、重试和缓存之后的 Provider
+     */
+    readonly provider: LLMProvider;
+
+    /**
+     * 用量统计（所有调用累计）
+     */
+    readonly usage: UsageTracker;
+
+    // 批量处理的选项（去掉只在创建 Provider 时使用的选项）
+    private readonly fileOptions: BatchOptions;
+    private readonly logger: Logger;
+
+    /**
+     * @param options - 选项
+     * @throws Error - 缺少 API Key，或设置了 maxCost 但不知道模型价格时抛出
+     */
+    constructor(options: CollieAgentOptions = {}) {
+        super();
+        const {
+            provider: base,
+            connection,
+            retries,
+            rateLimit,
+            cache,
+            prices,
+            maxCost,
+            concurrency,
+            logger = silentLogger,
+            tools,
+            ...fileOptions
+        } = options;
+
+        let provider = base ?? createProvider(connection);
+        const { name, model } = provider;
+
+        // 限流在最里面，重试在限流外面（每次重试也计入配额），缓存在最外面（命中时不发请求）
+        if (rateLimit?.requestsPerMinute || rateLimit?.tokensPerMinute) {
+            provider = new RateLimitedProvider(provider, new RateLimiter(rateLimit));
+        }
+        provider = new RetryingProvider(provider, {
+            retries,
+            onRetry: (error, attempt, delayMs) => this.emit("retry", error, attempt, delayMs),
+        });
+        if (cache) {
+            provider = new CachedProvider(provider, cache instanceof ResponseCache ? cache : new ResponseCache());
+        }
+
+        this.provider = provider;
+        this.usage = new UsageTracker(findPrice(name, model, prices), maxCost);
+        this.fileOptions = {
+            ...fileOptions,
+            concurrency,
+            tools: tools === true ? new ProjectTools() : tools || undefined,
+        };
+        this.logger = logger;
+    }
+
+    /**
+     * 处理单个文件
+     *
+     * @param filePath - 文件路径
+     * @returns 处理结果（失败时 status 为 "failed"，不会抛出异常）
+     */
+    async commentFile(filePath: string): Promise<CommentResult> {
+        const [result] = await this.commentFiles([filePath]);
+        return result;
+    }
+
+    /**
+     * 批量处理文件
+     *
+     * 某个文件失败不会影响其他文件；结果与输入顺序一致
+     *
+     * @param filePaths - 文件路径（不展开目录和 glob 模式）
+     * @returns 每个文件的处理结果
+     */
+    async commentFiles(filePaths: string[]): Promise<CommentResult[]> {
+        const options: BatchOptions = {
+            ...this.fileOptions,
+            provider: this.provider,
+            usage: this.usage,
+            logger: this.logger,
+            onFileStart: (filePath) => this.emit("fileStart", filePath),
+            onFileChunk: (filePath, index, total) => this.emit("chunk", filePath, index, total),
+            onFileToolCall: (filePath, call) => this.emit("toolCall", filePath, call),
+            onFileDone: (result) => this.emit("fileDone", result),
+            onFileError: (filePath, error) => {
+                if (this.listenerCount("error") > 0) {
+                    this.emit("error", error, filePath);
+                }
+            },
+            // 没有人关心生成过程时一次性读取完整响应
+            onFileDelta: this.listenerCount("delta") > 0
+                ? (filePath, delta) => this.emit("delta", filePath, delta)
+                : undefined,
+            onFileDeltaReset: (filePath, discarded) => this.emit("deltaReset", filePath, discarded),
+        };
+
+        return addCommentsToFiles(filePaths, options);
+    }
+}
+
+/**
+ * 用一次性的 CollieAgent 批量处理文件
+ *
+ * 不需要监听事件时的简写：commentFiles(paths, options) 等同于 new CollieAgent(options).commentFiles(paths)
+ *
+ * @param filePaths - 文件路径
+ * @param options - 选项
+ * @returns 每个文件的处理结果
+ */
+export function commentFiles(filePaths: string[], options: CollieAgentOptions = {}): Promise<CommentResult[]> {
+    return new CollieAgent(options).commentFiles(filePaths);
+}
@@ -0,0 +1,302 @@
+/**
+ * 备份与撤销模块
+ *
+ * 以前每个文件的备份写在源文件旁边（<file>.backup），很容易被误提交，
+ * 再运行一次还会覆盖第一次的备份。现在每次运行的备份集中存放在：
+ *
+ *   .collie/backups/<run-id>/
+ *   ├── manifest.json     # 本次运行修改了哪些文件，以及修改前后的哈希
+ *   └── files/            # 修改前的原始文件
+ *
+ * 这个模块负责：
+ * 1. BackupRun：一次运行的备份，写文件前保存原始内容并更新清单
+ * 2. BackupStore：列出历史运行（runs list），以及撤销一次运行（restore）
+ *
+ * 撤销前会用清单中的哈希检查文件在运行之后有没有被再次修改，被修改过的文件不会被覆盖
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { mkdir, readdir, readFile, rename, writeFile } from "fs/promises";
+import { basename, join, resolve } from "path";
+import { CollieError } from "./errors.js";
+
+/**
+ * 清单格式版本
+ */
+const MANIFEST_VERSION = 1;
+
+/**
+ * 清单中的一个文件
+ *
+ * - path: 被修改文件的绝对路径
+ * - backup: 原始内容在运行目录中的相对路径
+ * - originalHash: 修改前内容的 sha256
+ * - writtenHash: 写入内容的 sha256（撤销时用来判断文件之后有没有被再次修改）
+ */
+export interface BackupEntry {
+    path: string;
+    backup: string;
+    originalHash: string;
+    writtenHash: string;
+}
+
+/**
+ * 一次运行的清单（manifest.json）
+ *
+ * - id: 运行 id（时间戳 + 随机后缀，按字符串排序即按时间排序）
+ * - createdAt: 开始时间
+ * - cwd: 运行时的工作目录
+ * - files: 被修改的文件
+ * - restoredAt: 被撤销的时间（没有撤销时不存在）
+ */
+export interface RunManifest {
+    version: number;
+    id: string;
+    createdAt: string;
+    cwd: string;
+    files: BackupEntry[];
+    restoredAt?: string;
+}
+
+/**
+ * 撤销的结果
+ *
+ * - restored: 恢复成原始内容的文件
+ * - unchanged: 已经是原始内容、不需要恢复的文件
+ * - conflicts: 运行之后又被修改或删除的文件（force 时也会被恢复，并计入 restored）
+ */
+export interface RestoreReport {
+    restored: string[];
+    unchanged: string[];
+    conflicts: string[];
+}
+
+/**
+ * 撤销时发现文件在运行之后被修改过
+ *
+ * files 是冲突的文件列表；这时没有任何文件被改动
+ */
+export class RestoreConflictError extends CollieError {
+    constructor(message: string, readonly files: string[]) {
+        super(message);
+    }
+}
+
+/**
+ * 获取默认的备份目录（当前目录下的 .collie/backups）
+ */
+export function defaultBackupRoot(cwd = process.cwd()): string {
+    return join(cwd, ".collie", "backups");
+}
+
+/**
+ * 计算内容的 sha256
+ */
+export function hashContent(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * 生成运行 id，例如 20261019-153012-a1b2
+ */
+function newRunId(now = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+    const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+    return `${date}-${time}-${randomBytes(2).toString("hex")}`;
+}
+
+/**
+ * 写入清单：先写临时文件再重命名，中途退出也不会留下写了一半的清单
+ */
+async function writeManifest(dir: string, manifest: RunManifest): Promise<void> {
+    const path = join(dir, "manifest.json");
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+    await rename(tmp, path);
+}
+
+/**
+ * 一次运行的备份
+ *
+ * 目录在第一次备份时才创建，没有修改任何文件的运行不会留下空目录。
+ * 并发处理多个文件时，清单的写入会排队进行
+ */
+export class BackupRun {
+    readonly id: string;
+    readonly dir: string;
+    private readonly manifest: RunManifest;
+    private nextIndex = 0;
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(root: string = defaultBackupRoot()) {
+        this.id = newRunId();
+        this.dir = join(root, this.id);
+        this.manifest = {
+            version: MANIFEST_VERSION,
+            id: this.id,
+            createdAt: new Date().toISOString(),
+            cwd: process.cwd(),
+            files: [],
+        };
+    }
+
+    /**
+     * 已备份的文件数
+     */
+    get size(): number {
+        return this.manifest.files.length;
+    }
+
+    /**
+     * 在写入文件之前备份它的原始内容
+     *
+     * 先保存原始内容，再把文件加入清单，
+     * 所以清单中列出的文件一定有对应的备份
+     *
+     * @param filePath - 将要被修改的文件
+     * @param originalCode - 修改前的内容
+     * @param newCode - 将要写入的内容
+     * @returns 备份文件的路径
+     */
+    async backup(filePath: string, originalCode: string, newCode: string): Promise<string> {
+        const index = this.nextIndex++;
+        const backup = join("files", `${String(index + 1).padStart(4, "0")}-${basename(filePath)}`);
+
+        await mkdir(join(this.dir, "files"), { recursive: true });
+        await writeFile(join(this.dir, backup), originalCode, "utf-8");
+
+        this.manifest.files.push({
+            path: resolve(filePath),
+            backup,
+            originalHash: hashContent(originalCode),
+            writtenHash: hashContent(newCode),
+        });
+        const write = this.pending.then(() => writeManifest(this.dir, this.manifest));
+        this.pending = write.catch(() => undefined);
+        await write;
+
+        return join(this.dir, backup);
+    }
+}
+
+/**
+ * 备份目录中的所有运行
+ */
+export class BackupStore {
+    constructor(readonly root: string = defaultBackupRoot()) {}
+
+    /**
+     * 列出所有运行，最新的在前
+     *
+     * 清单缺失或损坏的目录会被跳过
+     */
+    async list(): Promise<RunManifest[]> {
+        let ids: string[];
+        try {
+            ids = await readdir(this.root);
+        } catch {
+            return [];
+        }
+
+        const runs: RunManifest[] = [];
+        for (const id of ids) {
+            const manifest = await this.read(id);
+            if (manifest) runs.push(manifest);
+        }
+        return runs.sort((a, b) => b.id.localeCompare(a.id));
+    }
+
+    /**
+     * 读取一次运行的清单
+     *
+     * @param id - 运行 id；不传时取最近一次没有被撤销的运行
+     * @throws CollieError - 找不到运行时抛出
+     */
+    async load(id?: string): Promise<RunManifest> {
+        if (id !== undefined) {
+            const manifest = /^[\w-]+$/.test(id) ? await this.read(id) : undefined;
+            if (!manifest) {
+                throw new CollieError(`找不到运行 ${id}（可以用 runs list 查看所有运行）`);
+            }
+            return manifest;
+        }
+
+        const latest = (await this.list()).find((run) => !run.restoredAt);
+        if (!latest) {
+            throw new CollieError(`${this.root} 中没有可以撤销的运行`);
+        }
+        return latest;
+    }
+
+    /**
+     * 撤销一次运行：把它修改过的文件恢复成原始内容
+     *
+     * 先检查所有文件，再统一写入：
+     * - 当前内容等于本次运行写入的内容：恢复
+     * - 当前内容已经是原始内容：跳过
+     * - 其他情况（运行之后又被修改或删除）：冲突，除非 force，否则一个文件都不恢复
+     *
+     * @param manifest - 要撤销的运行
+     * @param options - force 为 true 时覆盖冲突的文件
+     * @returns 撤销结果
+     * @throws RestoreConflictError - 有冲突且没有 force 时抛出
+     */
+    async restore(manifest: RunManifest, options: { force?: boolean } = {}): Promise<RestoreReport> {
+        const report: RestoreReport = { restored: [], unchanged: [], conflicts: [] };
+        const toRestore: BackupEntry[] = [];
+
+        for (const entry of manifest.files) {
+            let current: string | undefined;
+            try {
+                current = await readFile(entry.path, "utf-8");
+            } catch {
+                current = undefined;
+            }
+            const hash = current === undefined ? undefined : hashContent(current);
+
+            if (hash === entry.originalHash) {
+                report.unchanged.push(entry.path);
+            } else if (hash === entry.writtenHash) {
+                toRestore.push(entry);
+            } else {
+                report.conflicts.push(entry.path);
+                if (options.force) toRestore.push(entry);
+            }
+        }
+
+        if (report.conflicts.length > 0 && !options.force) {
+            throw new RestoreConflictError(
+                `以下文件在运行 ${manifest.id} 之后又被修改或删除，已放弃撤销（使用 --force 强制覆盖）:\n` +
+                report.conflicts.map((path) => `  ${path}`).join("\n"),
+                report.conflicts
+            );
+        }
+
+        const dir = join(this.root, manifest.id);
+        for (const entry of toRestore) {
+            await writeFile(entry.path, await readFile(join(dir, entry.backup), "utf-8"), "utf-8");
+            report.restored.push(entry.path);
+        }
+
+        await writeManifest(dir, { ...manifest, restoredAt: new Date().toISOString() });
+        return report;
+    }
+
+    /**
+     * 读取清单；不存在或格式不对时返回 undefined
+     */
+    private async read(id: string): Promise<RunManifest | undefined> {
+        try {
+            const manifest = JSON.parse(
+                await readFile(join(this.root, id, "manifest.json"), "utf-8")
+            ) as RunManifest;
+            if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.files)) {
+                return undefined;
+            }
+            return manifest;
+        } catch {
+            return undefined;
+        }
+    }
+}
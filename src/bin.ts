@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+/**
+ * 这个 shebang 行告诉系统使用 node 来执行这个脚本
+ * 当文件被直接执行时（如 ./dist/bin.js），系统会找到 node 解释器
+ */
+
+/**
+ * CLI 入口文件
+ * 
+ * 这是命令行程序的入口点（package.json 的 bin），负责：
+ * 1. 加载环境变量配置
+ * 2. 初始化 CLI 命令系统
+ * 3. 解析用户输入的命令
+ * 
+ * 执行流程：
+ * 用户运行命令 → 这个文件被加载 → 设置 CLI → 解析命令 → 执行相应操作
+ * 
+ * 这个文件一被加载就会解析命令行、输出提示，所以其他程序不要导入它，
+ * 而是导入没有副作用的库入口 index.ts
+ */
+
+// 导入 dotenv 配置模块
+// "dotenv/config" 会自动加载项目根目录下的 .env 文件中的环境变量
+// 这样我们就可以通过 process.env.变量名 来访问环境变量
+import "dotenv/config";
+
+// 从 cli.ts 模块导入 setupCLI 函数
+// 注意：TypeScript 编译后，.ts 文件会变成 .js，所以导入时使用 .js 扩展名
+// 这是 ES Module 的导入语法
+import { setupCLI } from "./cli.js";
+import { resolveConfig } from "./config.js";
+
+/**
+ * 启动 CLI 程序
+ * 
+ * 1. setupCLI() 返回一个 Command 对象（来自 commander 库）
+ * 2. program.parseAsync() 解析命令行参数，并执行相应的命令
+ * 
+ * 例如：用户输入 "npm start comment src/example.ts"
+ * - parseAsync() 会识别 "comment" 命令
+ * - 提取参数 "src/example.ts"
+ * - 调用对应的 action 函数
+ * 
+ * 命令的 action 都是 async 函数，所以要用 parseAsync() 并等待它完成，
+ * 否则 action 中的异常会变成未处理的 Promise 拒绝
+ */
+const program = setupCLI();
+
+/**
+ * 检查环境变量是否已设置
+ * 
+ * process.env 是 Node.js 的全局对象，包含所有环境变量
+ * 默认的 dashscope provider 需要 DASHSCOPE_API_KEY
+ * 
+ * 为什么要检查？
+ * - 如果没有 API Key，后续的 API 调用会失败
+ * - 提前检查可以给用户友好的提示，而不是等到 API 调用时才报错
+ * 
+ * 在 preAction 钩子中检查：这时命令行已经解析完，--provider 的值可以直接拿到。
+ * 只有会请求模型的命令（带 --provider 选项的 comment、refresh）才检查；
+ * 使用 openai / ollama 等其他 provider 时不需要这个 Key
+ * （没有 --provider 时 provider 可能来自环境变量或配置文件，配置文件有错误时这里先忽略，由具体命令报告）
+ */
+program.hook("preAction", (_, command) => {
+    if (!command.options.some((option) => option.attributeName() === "provider")) {
+        return;
+    }
+
+    let provider: string | undefined = command.opts().provider;
+    if (provider === undefined) {
+        try {
+            provider = resolveConfig().values.provider;
+        } catch {
+            // 配置错误会在执行命令时再次出现并输出
+        }
+    }
+
+    if (
+        (provider ?? "dashscope") === "dashscope" &&
+        !process.env.DASHSCOPE_API_KEY &&
+        !process.env.COLLIE_API_KEY
+    ) {
+        // console.warn 输出警告信息（黄色），不会中断程序执行
+        // 使用 \n 来换行，让输出更易读
+        console.warn(
+            "警告: 未设置 DASHSCOPE_API_KEY 环境变量\n" +
+            "请设置环境变量: export DASHSCOPE_API_KEY=your_api_key\n" +
+            "或创建 .env 文件并添加: DASHSCOPE_API_KEY=your_api_key\n" +
+            "如需使用其他服务，请通过 --provider 或 COLLIE_PROVIDER 指定"
+        );
+    }
+});
+
+await program.parseAsync();
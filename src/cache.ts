@@ -0,0 +1,293 @@
+/**
+ * 响应缓存模块
+ *
+ * 对同一个文件重复运行 comment 时，发送给模型的请求完全相同，没有必要再花一次 token。
+ * 这个模块把模型的响应按请求内容的哈希保存在本地磁盘上：
+ * 1. ResponseCache：磁盘缓存的读写、统计和清空
+ * 2. CachedProvider：给任意 LLMProvider 加上缓存的包装器
+ * 3. PendingResponses：收集一次生成中的新响应，输出通过校验之后再写入缓存
+ *
+ * 模型的输出可能被代码保护校验、语法检查或响应解析拒绝。被拒绝的输出不能写入缓存，
+ * 否则重新运行时会直接拿回同一个被拒绝的输出，这个文件永远无法成功
+ *
+ * 缓存键由 provider、模型、采样参数、完整的对话消息和提供的工具计算得到。
+ * 提示词里已经包含了文件内容、语言和提示词模板，所以其中任何一项变化都会得到新的键
+ *
+ * 缓存目录（优先级从高到低）：
+ * - COLLIE_CACHE_DIR
+ * - $XDG_CACHE_HOME/collie
+ * - ~/.cache/collie
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { ChatRequest, ChatResponse, LLMProvider } from "./providers.js";
+
+/**
+ * 缓存格式版本
+ *
+ * 缓存文件的结构变化时加 1，旧的缓存会自然失效
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * 缓存文件的内容
+ */
+interface CacheEntry {
+    version: number;
+    createdAt: string;
+    provider: string;
+    model: string;
+    response: ChatResponse;
+}
+
+/**
+ * 缓存统计信息
+ *
+ * - dir: 缓存目录
+ * - entries: 缓存条目数
+ * - bytes: 占用的磁盘空间（字节）
+ */
+export interface CacheStats {
+    dir: string;
+    entries: number;
+    bytes: number;
+}
+
+/**
+ * 获取默认缓存目录
+ */
+export function defaultCacheDir(): string {
+    if (process.env.COLLIE_CACHE_DIR) {
+        return process.env.COLLIE_CACHE_DIR;
+    }
+    const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+    return join(base, "collie");
+}
+
+/**
+ * 计算请求的缓存键
+ *
+ * @param provider - provider 名称
+ * @param model - 模型名称
+ * @param request - 完整的请求（消息 + 采样参数 + 工具）
+ * @returns sha256 十六进制字符串
+ */
+export function cacheKey(provider: string, model: string, request: ChatRequest): string {
+    const material = JSON.stringify({
+        version: CACHE_VERSION,
+        provider,
+        model,
+        temperature: request.temperature ?? null,
+        maxTokens: request.maxTokens ?? null,
+        messages: request.messages,
+        // 没有工具时为 undefined，不会出现在 JSON 中，已有的缓存键保持不变
+        tools: request.tools,
+    });
+    return createHash("sha256").update(material).digest("hex");
+}
+
+/**
+ * 本地磁盘上的响应缓存
+ *
+ * 每个条目是一个 JSON 文件，按键的前两位分目录存放（<dir>/ab/abcdef....json），
+ * 避免单个目录里的文件过多
+ */
+export class ResponseCache {
+    constructor(readonly dir: string = defaultCacheDir()) {}
+
+    /**
+     * 读取缓存
+     *
+     * @returns 缓存的响应；不存在、已损坏或版本不符时返回 undefined
+     */
+    async get(key: string): Promise<ChatResponse | undefined> {
+        try {
+            const entry = JSON.parse(await readFile(this.pathFor(key), "utf-8")) as CacheEntry;
+            if (entry.version !== CACHE_VERSION || typeof entry.response?.content !== "string") {
+                return undefined;
+            }
+            return entry.response;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 写入缓存
+     *
+     * 先写临时文件再重命名，并发写同一个键时不会留下写了一半的文件
+     */
+    async set(key: string, provider: string, model: string, response: ChatResponse): Promise<void> {
+        const path = this.pathFor(key);
+        const entry: CacheEntry = {
+            version: CACHE_VERSION,
+            createdAt: new Date().toISOString(),
+            provider,
+            model,
+            response,
+        };
+
+        await mkdir(join(this.dir, key.slice(0, 2)), { recursive: true });
+        const tmp = `${path}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(tmp, JSON.stringify(entry), "utf-8");
+        await rename(tmp, path);
+    }
+
+    /**
+     * 统计缓存条目数和占用空间
+     */
+    async stats(): Promise<CacheStats> {
+        const stats: CacheStats = { dir: this.dir, entries: 0, bytes: 0 };
+        for (const file of await this.entryFiles()) {
+            stats.entries++;
+            stats.bytes += (await stat(file)).size;
+        }
+        return stats;
+    }
+
+    /**
+     * 清空缓存
+     *
+     * 只删除缓存文件本身，不整个删除目录，
+     * 以免 COLLIE_CACHE_DIR 指向了存放其他文件的目录
+     *
+     * @returns 删除的条目数
+     */
+    async clear(): Promise<number> {
+        const files = await this.entryFiles();
+        for (const file of files) {
+            await rm(file, { force: true });
+        }
+        return files.length;
+    }
+
+    private pathFor(key: string): string {
+        return join(this.dir, key.slice(0, 2), `${key}.json`);
+    }
+
+    /**
+     * 列出所有缓存文件（缓存目录不存在时返回空数组）
+     */
+    private async entryFiles(): Promise<string[]> {
+        const files: string[] = [];
+        let shards: string[];
+        try {
+            shards = await readdir(this.dir);
+        } catch {
+            return files;
+        }
+
+        for (const shard of shards) {
+            let names: string[];
+            try {
+                names = await readdir(join(this.dir, shard));
+            } catch {
+                continue;
+            }
+            for (const name of names) {
+                if (name.endsWith(".json")) {
+                    files.push(join(this.dir, shard, name));
+                }
+            }
+        }
+        return files;
+    }
+}
+
+/**
+ * 带缓存的 Provider 包装器
+ *
+ * 命中缓存时直接返回保存的响应，不发起网络请求，也不占用限流配额，
+ * 所以应该套在最外层（CachedProvider(RetryingProvider(...))）；请求带有 onDelta 时把内容一次性回调。
+ *
+ * 新的响应不会立即写入缓存，而是带上 commit()，由调用方在输出通过校验之后调用；
+ * 被截断的响应（finish_reason 为 "length"）没有 commit()，不会写入缓存
+ */
+export class CachedProvider implements LLMProvider {
+    /**
+     * 本次运行的命中 / 未命中次数
+     */
+    hits = 0;
+    misses = 0;
+
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly cache: ResponseCache
+    ) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async isCached(request: ChatRequest): Promise<boolean> {
+        return (await this.cache.get(cacheKey(this.name, this.model, request))) !== undefined;
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const key = cacheKey(this.name, this.model, request);
+
+        const cached = await this.cache.get(key);
+        if (cached) {
+            this.hits++;
+            // 流式请求命中缓存时，把完整的内容一次性交给 onDelta，--stream 仍然能看到输出
+            if (cached.content) {
+                request.onDelta?.(cached.content);
+            }
+            return { ...cached, cached: true };
+        }
+
+        this.misses++;
+        const response = await this.inner.complete(request);
+        if (response.finishReason === "length") {
+            return response;
+        }
+        return {
+            ...response,
+            // 写缓存失败（磁盘满、没有权限等）不应该影响本次结果
+            commit: () => this.cache.set(key, this.name, this.model, response).catch(() => undefined),
+        };
+    }
+}
+
+/**
+ * 收集新响应、在输出被接受后统一写入缓存的 Provider 包装器
+ *
+ * 套在一次生成（一个文件的一次尝试）所用的 Provider 外面：
+ * 这次生成的所有请求都通过它发出，输出通过校验之后调用 commit()，
+ * 被拒绝时直接丢弃这个包装器，这些响应就不会进入缓存
+ */
+export class PendingResponses implements LLMProvider {
+    private readonly commits: Array<() => Promise<void>> = [];
+
+    constructor(private readonly inner: LLMProvider) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const response = await this.inner.complete(request);
+        if (response.commit) {
+            this.commits.push(response.commit);
+        }
+        return response;
+    }
+
+    /**
+     * 把收集到的响应写入缓存
+     */
+    async commit(): Promise<void> {
+        await Promise.all(this.commits.splice(0).map((commit) => commit()));
+    }
+}
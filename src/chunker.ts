@@ -0,0 +1,356 @@
+/**
+ * 代码分段模块
+ *
+ * 大文件一次性发给模型时，输出会在 max_tokens 处被截断。
+ * 这个模块负责把代码按"顶层声明"的边界切分成若干段，每段都控制在 token 预算内：
+ * 1. 逐行扫描代码，跟踪括号深度以及字符串/注释状态
+ * 2. 找出顶层声明的起始行（并把紧挨着的注释、装饰器一起带上）
+ * 3. 按预算把相邻的声明合并成段，超大的声明再在空行处拆开
+ *
+ * 这里只做轻量的词法扫描，不依赖完整的语法解析器，
+ * 所以对各种语言都适用，代价是边界判断是启发式的
+ */
+
+import { findLanguage } from "./languages.js";
+
+/**
+ * 一个代码段
+ *
+ * - index: 段序号（从 0 开始）
+ * - startLine / endLine: 在原文件中的行范围（endLine 不包含）
+ * - text: 该段的原始代码（不含末尾换行）
+ */
+export interface CodeChunk {
+    index: number;
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+/**
+ * 单行的扫描结果
+ *
+ * - depth: 行首处的括号深度
+ * - inBlock: 行首是否处于多行注释或多行字符串中
+ * - hasCode: 这一行是否包含注释以外的代码
+ */
+interface LineInfo {
+    depth: number;
+    inBlock: boolean;
+    hasCode: boolean;
+}
+
+/**
+ * 不同语言的注释和字符串语法
+ */
+interface LexicalSyntax {
+    lineComment: string;
+    blockComment?: [string, string];
+    tripleQuotes: boolean;
+    /** 缩进敏感的语言（Python）：else/elif 等复合语句的续行不能作为新声明 */
+    indentSensitive: boolean;
+}
+
+const C_LIKE: LexicalSyntax = {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    tripleQuotes: false,
+    indentSensitive: false,
+};
+
+const HASH_COMMENT: LexicalSyntax = {
+    lineComment: "#",
+    tripleQuotes: false,
+    indentSensitive: false,
+};
+
+const PYTHON: LexicalSyntax = {
+    lineComment: "#",
+    tripleQuotes: true,
+    indentSensitive: true,
+};
+
+/**
+ * 根据语言名称选择词法规则
+ *
+ * Python 和 Ruby 使用上面的固定规则，其他语言使用语言注册表中的注释语法，
+ * 没有定义注释语法时按 C 风格处理
+ *
+ * @param language - 语言名称（languages.ts 中注册的名称）
+ */
+function syntaxFor(language: string): LexicalSyntax {
+    switch (language) {
+        case "python":
+            return PYTHON;
+        case "ruby":
+            return HASH_COMMENT;
+    }
+    const definition = findLanguage(language);
+    if (!definition?.lineComments?.length && !definition?.blockComments?.length) {
+        return C_LIKE;
+    }
+    return {
+        lineComment: definition.lineComments?.[0] ?? C_LIKE.lineComment,
+        blockComment: definition.blockComments?.[0],
+        tripleQuotes: false,
+        indentSensitive: false,
+    };
+}
+
+/**
+ * 估算文本的 token 数
+ *
+ * 不同模型的分词器不同，这里使用保守的经验值：
+ * - 中日韩字符大约 1 个字符 1 个 token
+ * - 其他字符大约 4 个字符 1 个 token
+ *
+ * @param text - 要估算的文本
+ * @returns 估算的 token 数
+ */
+export function estimateTokens(text: string): number {
+    let cjk = 0;
+    for (const ch of text) {
+        const code = ch.codePointAt(0)!;
+        if (code >= 0x2e80 && code <= 0x9fff || code >= 0xac00 && code <= 0xd7af || code >= 0xff00 && code <= 0xffef) {
+            cjk++;
+        }
+    }
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 逐行扫描代码，记录每行行首的括号深度和注释/字符串状态
+ *
+ * @param lines - 按行拆分的代码
+ * @param syntax - 语言的词法规则
+ * @returns 每一行的扫描结果
+ */
+function scanLines(lines: string[], syntax: LexicalSyntax): LineInfo[] {
+    const infos: LineInfo[] = [];
+    let depth = 0;
+    // 当前所处的多行结构：块注释、多行字符串（反引号或三引号）
+    let block: { close: string; isComment: boolean } | null = null;
+
+    for (const line of lines) {
+        const info: LineInfo = { depth, inBlock: block !== null, hasCode: false };
+        let i = 0;
+
+        while (i < line.length) {
+            // 处于多行结构中：只寻找结束标记
+            if (block) {
+                const end = line.indexOf(block.close, i);
+                if (end === -1) {
+                    if (!block.isComment) info.hasCode = true;
+                    i = line.length;
+                    break;
+                }
+                if (!block.isComment) info.hasCode = true;
+                i = end + block.close.length;
+                block = null;
+                continue;
+            }
+
+            const rest = line.slice(i);
+            const ch = line[i];
+
+            if (rest.startsWith(syntax.lineComment)) {
+                break;
+            }
+            if (syntax.blockComment && rest.startsWith(syntax.blockComment[0])) {
+                block = { close: syntax.blockComment[1], isComment: true };
+                i += syntax.blockComment[0].length;
+                continue;
+            }
+            if (syntax.tripleQuotes && (rest.startsWith('"""') || rest.startsWith("'''"))) {
+                info.hasCode = true;
+                block = { close: rest.slice(0, 3), isComment: false };
+                i += 3;
+                continue;
+            }
+            if (ch === "`" && !syntax.tripleQuotes) {
+                info.hasCode = true;
+                block = { close: "`", isComment: false };
+                i++;
+                continue;
+            }
+            if (ch === '"' || ch === "'") {
+                // 单行字符串：跳到同一行的结束引号（处理转义）
+                info.hasCode = true;
+                i++;
+                while (i < line.length && line[i] !== ch) {
+                    i += line[i] === "\\" ? 2 : 1;
+                }
+                i++;
+                continue;
+            }
+
+            if (!/\s/.test(ch)) info.hasCode = true;
+            if (ch === "{" || ch === "(" || ch === "[") depth++;
+            if (ch === "}" || ch === ")" || ch === "]") depth = Math.max(0, depth - 1);
+            i++;
+        }
+
+        infos.push(info);
+    }
+
+    return infos;
+}
+
+/**
+ * 判断某一行是否是顶层声明的起始行
+ */
+function isTopLevelStart(line: string, info: LineInfo, syntax: LexicalSyntax): boolean {
+    if (info.depth !== 0 || info.inBlock || !info.hasCode) return false;
+    // 必须从第 0 列开始
+    if (/^\s/.test(line) || line.length === 0) return false;
+    // 闭合括号属于上一个声明
+    if (/^[}\])]/.test(line)) return false;
+    // Python 的复合语句续行（else/elif/except/finally）不是新声明
+    if (syntax.indentSensitive && /^(else|elif|except|finally)\b/.test(line)) return false;
+    return true;
+}
+
+/**
+ * 判断某一行是否是"附着"在下一个声明上的行（注释、装饰器）
+ */
+function isAttachedLine(line: string, info: LineInfo): boolean {
+    if (info.depth !== 0 || line.trim() === "") return false;
+    return !info.hasCode || /^@/.test(line.trim());
+}
+
+/**
+ * 找出所有顶层声明段的起始行
+ *
+ * 每个起始行会向上扩展，把紧挨着的文档注释和装饰器包含进来，
+ * 保证注释和它描述的代码在同一个段里
+ *
+ * @returns 升序排列的起始行号（第一个总是 0）
+ */
+export function findDeclarationStarts(lines: string[], language: string): number[] {
+    const syntax = syntaxFor(language);
+    const infos = scanLines(lines, syntax);
+    const starts = new Set<number>([0]);
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!isTopLevelStart(lines[i], infos[i], syntax)) continue;
+        // 装饰器本身也满足起始行条件，跳过它，由后面的声明向上包含
+        if (i > 0 && /^@/.test(lines[i - 1].trim()) && starts.has(i - 1)) {
+            starts.delete(i - 1);
+        }
+        let start = i;
+        while (start > 0 && isAttachedLine(lines[start - 1], infos[start - 1])) {
+            start--;
+        }
+        starts.add(start);
+    }
+
+    return [...starts].sort((a, b) => a - b);
+}
+
+/**
+ * 把超出预算的单个声明在空行处继续拆开
+ *
+ * 仍然找不到合适空行时按行硬拆，保证每段都不超过预算
+ */
+function splitOversized(lines: string[], start: number, end: number, budget: number): Array<[number, number]> {
+    const pieces: Array<[number, number]> = [];
+    let pieceStart = start;
+    let lastBlank = -1;
+    let tokens = 0;
+
+    for (let i = start; i < end; i++) {
+        const lineTokens = estimateTokens(lines[i]) + 1;
+        if (tokens + lineTokens > budget && i > pieceStart) {
+            // 优先在最近的空行处切分
+            const cut = lastBlank > pieceStart ? lastBlank : i;
+            pieces.push([pieceStart, cut]);
+            pieceStart = cut;
+            lastBlank = -1;
+            tokens = 0;
+            for (let j = pieceStart; j <= i; j++) {
+                tokens += estimateTokens(lines[j]) + 1;
+            }
+        } else {
+            tokens += lineTokens;
+        }
+        if (lines[i].trim() === "") lastBlank = i;
+    }
+    pieces.push([pieceStart, end]);
+    return pieces;
+}
+
+/**
+ * 将代码切分成不超过 token 预算的段
+ *
+ * @param code - 完整的源代码
+ * @param language - 语言名称（决定注释和字符串的词法规则）
+ * @param budget - 每段的 token 预算
+ * @returns 按顺序排列的代码段；把所有段的 text 用 "\n" 连接即可还原原文
+ */
+export function splitIntoChunks(code: string, language: string, budget: number): CodeChunk[] {
+    const lines = code.split("\n");
+    const starts = findDeclarationStarts(lines, language);
+
+    // 每个声明段的行范围
+    const segments: Array<[number, number]> = starts.map((start, i) => [
+        start,
+        i + 1 < starts.length ? starts[i + 1] : lines.length,
+    ]);
+
+    // 按预算把相邻的段合并；单个超大的段再拆开
+    const ranges: Array<[number, number]> = [];
+    let current: [number, number] | null = null;
+    let currentTokens = 0;
+
+    for (const [start, end] of segments) {
+        const tokens = estimateTokens(lines.slice(start, end).join("\n"));
+
+        if (tokens > budget) {
+            if (current) ranges.push(current);
+            current = null;
+            currentTokens = 0;
+            ranges.push(...splitOversized(lines, start, end, budget));
+            continue;
+        }
+
+        if (current && currentTokens + tokens <= budget) {
+            current = [current[0], end];
+            currentTokens += tokens;
+        } else {
+            if (current) ranges.push(current);
+            current = [start, end];
+            currentTokens = tokens;
+        }
+    }
+    if (current) ranges.push(current);
+
+    return ranges.map(([startLine, endLine], index) => ({
+        index,
+        startLine,
+        endLine,
+        text: lines.slice(startLine, endLine).join("\n"),
+    }));
+}
+
+/**
+ * 生成文件的顶层结构概要（每个声明的第一行代码）
+ *
+ * 分段处理时作为上下文传给模型，让模型知道当前段之外还有哪些声明
+ *
+ * @param code - 完整的源代码
+ * @param language - 语言名称
+ * @param maxEntries - 最多列出的条目数
+ */
+export function buildOutline(code: string, language: string, maxEntries = 80): string[] {
+    const lines = code.split("\n");
+    const syntax = syntaxFor(language);
+    const infos = scanLines(lines, syntax);
+    const outline: string[] = [];
+
+    for (let i = 0; i < lines.length && outline.length < maxEntries; i++) {
+        if (isTopLevelStart(lines[i], infos[i], syntax)) {
+            outline.push(lines[i].trim().slice(0, 120));
+        }
+    }
+    return outline;
+}
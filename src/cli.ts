@@ -12,11 +12,786 @@
 
 // 导入 Commander 库的 Command 类
 // Command 类用于创建和管理 CLI 命令
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 
-// 导入业务逻辑函数
-// 这些函数在 commenter.ts 中定义，负责实际的文件处理工作
-import { addCommentsToFile, addCommentsToFiles } from "./commenter.js";
+// 导入编程接口，CLI 只是它的一层包装
+// CollieAgent 在 api.ts 中定义，负责创建 Provider 和批量处理文件；结果类型在 commenter.ts 中定义
+import { CollieAgent } from "./api.js";
+import { CommentResult, FileStatus, Logger } from "./commenter.js";
+import { GenerateOptions } from "./agent.js";
+
+// 导入 diff 相关函数，用于 --diff 和 --patch 输出
+import { colorizeDiff, supportsColor, unifiedDiff } from "./diff.js";
+
+// 导入交互式审阅函数，用于 --interactive
+import { reviewHunks } from "./interactive.js";
+
+// Node.js 内置模块：写 patch 文件、计算相对路径
+import { writeFile } from "fs/promises";
+import { relative, resolve } from "path";
+
+// 导入输入展开函数，把目录、glob 模式展开成文件列表
+import { expandInputs } from "./files.js";
+
+// 导入 git 增量函数，用于 --since 和 --staged
+import { describeTarget, GitDiffTarget, listChangedFiles, validateTarget } from "./gitdiff.js";
+
+// 导入 Provider 名称校验，用于 --provider
+import { defaultModel, parseProviderName, PROVIDER_NAMES } from "./providers.js";
+
+// 导入响应缓存，用于 cache 命令
+import { ResponseCache } from "./cache.js";
+
+// 导入备份与撤销，用于 restore 和 runs 命令
+import { BackupRun, BackupStore } from "./backups.js";
+
+// 导入配置文件相关函数，用于合并命令行参数、环境变量和配置文件
+import { DOC_STYLES, parseDocStyle } from "./styles.js";
+import { DOC_SCOPES, parseDocScope } from "./scope.js";
+import { COMMENT_MODES, parseCommentMode } from "./structured.js";
+import { CollieConfig, CONFIG_SCHEMA, ConfigKey, describeSource, resolveConfig } from "./config.js";
+
+// 导入进度显示，用于批量处理时的实时进度行
+import { ProgressLine } from "./progress.js";
+
+// 导入用量格式化，用于运行结束时的用量汇总
+import { formatCost, formatUsage } from "./usage.js";
+
+// 导入语言注册表，用于配置文件中的 languages 和 --language
+import { findLanguage, languageNames, registerLanguage } from "./languages.js";
+
+// 导入只读工具，用于 --tools
+import { ProjectTools } from "./tools.js";
+
+/**
+ * comment / refresh 命令的选项
+ * 
+ * 可以写进配置文件的选项（provider、model、backup 等）定义在 CollieConfig 中，
+ * 这里只补充只在命令行中使用的选项：
+ * - dryRun/diff/patch/interactive: 预览和审阅
+ * - ignore/languageFilter: 输入展开（--no-ignore、--no-language-filter 时为 false）
+ * - stream: 实时输出生成的代码
+ * - json/ndjson: 以 JSON（整体一个对象）或 NDJSON（每个文件一行）输出结果和用量
+ * - since/staged: comment 命令的增量模式（--since <ref>、--staged）
+ * - pruneObvious: refresh 命令删除冗余注释（--prune-obvious）
+ */
+interface CommentCommandOptions extends CollieConfig {
+    dryRun?: boolean;
+    diff?: boolean;
+    patch?: string;
+    interactive?: boolean;
+    stream?: boolean;
+    json?: boolean;
+    ndjson?: boolean;
+    ignore: boolean;
+    languageFilter: boolean;
+    since?: string;
+    staged?: boolean;
+    pruneObvious?: boolean;
+    language?: string;
+}
+
+/**
+ * comment / refresh 命令的退出码（restore 和 config show 出错时也使用 error / config）
+ * 
+ * CI 可以据此区分失败的原因：
+ * - ok: 所有文件都处理成功（包括没有需要修改的文件）
+ * - error: 处理过程中的意外错误（例如写 patch 文件失败）
+ * - config: 配置或参数错误，没有处理任何文件
+ * - partialFailure: 部分文件失败
+ * - totalFailure: 所有文件都失败
+ */
+export const EXIT_CODES = {
+    ok: 0,
+    error: 1,
+    config: 2,
+    partialFailure: 3,
+    totalFailure: 4,
+} as const;
+
+/**
+ * 每种状态在结果列表中显示的符号
+ */
+const STATUS_MARKS: Record<FileStatus, string> = {
+    "written": "✓",
+    "dry-run": "✓",
+    "unchanged": "-",
+    "skipped": "-",
+    "failed": "✗",
+};
+
+/**
+ * 根据处理结果计算退出码
+ */
+function exitCodeFor(results: CommentResult[]): number {
+    const failed = results.filter((result) => result.status === "failed").length;
+    if (failed === 0) return EXIT_CODES.ok;
+    return failed === results.length ? EXIT_CODES.totalFailure : EXIT_CODES.partialFailure;
+}
+
+/**
+ * 把处理结果转换成 --json / --ndjson 输出的对象
+ * 
+ * 不包含原始代码和带注释的代码（需要时请使用 --diff 或 --patch）
+ */
+function resultToJson(result: CommentResult): Record<string, unknown> {
+    return {
+        path: result.filePath,
+        status: result.status,
+        errorKind: result.errorKind,
+        error: result.error,
+        message: result.message,
+        durationMs: result.durationMs,
+        bytesChanged: result.bytesChanged,
+        usage: result.usage,
+    };
+}
+
+/**
+ * 按状态统计文件数
+ */
+function countStatuses(results: CommentResult[]): Record<FileStatus, number> {
+    const counts: Record<FileStatus, number> = {
+        "written": 0,
+        "dry-run": 0,
+        "unchanged": 0,
+        "skipped": 0,
+        "failed": 0,
+    };
+    for (const result of results) {
+        counts[result.status]++;
+    }
+    return counts;
+}
+
+/**
+ * 收集可以重复出现的选项
+ * 
+ * 例如 --exclude "*.test.ts" --exclude "dist/**" 会得到 ["*.test.ts", "dist/**"]
+ * 
+ * @param value - 本次出现的值
+ * @param previous - 之前收集到的值
+ * @returns 合并后的数组
+ */
+function collect(value: string, previous: string[] = []): string[] {
+    return [...previous, value];
+}
+
+/**
+ * 解析正整数参数
+ * 
+ * 作为 commander 的参数解析函数使用，非法输入时直接报错
+ * 
+ * @param value - 命令行中输入的字符串
+ * @returns 解析后的正整数
+ */
+function parsePositiveInt(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new InvalidArgumentError(`需要一个正整数，收到: ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * 解析非负整数参数（允许 0）
+ * 
+ * @param value - 命令行中输入的字符串
+ * @returns 解析后的非负整数
+ */
+function parseNonNegativeInt(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InvalidArgumentError(`需要一个非负整数，收到: ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * 解析费用上限（非负数，单位美元）
+ * 
+ * @param value - 命令行中输入的字符串
+ * @returns 解析后的金额
+ */
+function parseCost(value: string): number {
+    const parsed = Number(value);
+    if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0) {
+        throw new InvalidArgumentError(`需要一个非负数（美元），收到: ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * 解析采样温度（0 到 2 之间的数字）
+ * 
+ * @param value - 命令行中输入的字符串
+ * @returns 解析后的温度
+ */
+function parseTemperature(value: string): number {
+    const parsed = Number(value);
+    if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0 || parsed > 2) {
+        throw new InvalidArgumentError(`需要 0 到 2 之间的数字，收到: ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * 把普通的解析函数包装成 commander 的参数解析函数
+ * 
+ * commander 只会友好地显示 InvalidArgumentError，
+ * 其他错误会直接带着堆栈抛出，所以这里做一次转换
+ * 
+ * @param parse - 抛出普通 Error 的解析函数
+ * @returns 抛出 InvalidArgumentError 的解析函数
+ */
+function optionParser<T>(parse: (value: string) => T): (value: string) => T {
+    return (value: string) => {
+        try {
+            return parse(value);
+        } catch (error) {
+            throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+        }
+    };
+}
+
+/**
+ * 取出命令行中显式给出的配置项
+ * 
+ * --no-backup 这类选项即使用户没写也有默认值，
+ * 通过 getOptionValueSource 区分"用户写了"和"commander 的默认值"，
+ * 只有用户写了的选项才会覆盖环境变量和配置文件
+ * 
+ * @param command - 当前执行的命令
+ * @returns 只包含显式给出的选项
+ */
+function explicitOptions(command: Command): CollieConfig {
+    const config: Record<string, unknown> = {};
+    for (const key of Object.keys(CONFIG_SCHEMA)) {
+        if (command.getOptionValueSource(key) === "cli") {
+            config[key] = command.getOptionValue(key);
+        }
+    }
+    return config as CollieConfig;
+}
+
+/**
+ * 把字节数格式化成易读的形式（如 "1.5 MB"）
+ */
+function formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * 输出 diff 和 patch
+ * 
+ * - --diff: 在终端逐个文件打印 unified diff（终端支持时带颜色）
+ * - --patch: 把所有文件的 diff 合并写入一个 patch 文件，可以用 `git apply` 应用
+ * 
+ * 路径使用相对于当前目录的路径，所以应在仓库根目录下运行
+ * 
+ * @param results - addCommentsToFiles 的结果（失败的文件会被跳过）
+ * @param options - 命令选项
+ */
+async function outputDiffs(results: CommentResult[], options: CommentCommandOptions): Promise<void> {
+    const diffs: string[] = [];
+    // --json / --ndjson 时 stdout 只留给 JSON 输出
+    const out = options.json || options.ndjson ? process.stderr : process.stdout;
+
+    for (const result of results) {
+        if (result.originalCode === undefined || result.commentedCode === undefined) {
+            continue;
+        }
+        const diff = unifiedDiff(
+            relative(process.cwd(), result.filePath),
+            result.originalCode,
+            result.commentedCode
+        );
+        if (!diff) {
+            continue;
+        }
+        diffs.push(diff);
+
+        if (options.diff) {
+            out.write("\n" + (supportsColor() ? colorizeDiff(diff) : diff));
+        }
+    }
+
+    if (options.patch) {
+        await writeFile(options.patch, diffs.join(""), "utf-8");
+        out.write(`\n已写入 patch 文件: ${options.patch}（共 ${diffs.length} 个文件）\n`);
+    }
+}
+
+/**
+ * 添加 comment 和 refresh 共用的选项
+ * 
+ * 两个命令走同一套流程（runCommentCommand），所以 Provider、采样参数、代码保护校验、
+ * 预览、输入展开、并发限流、重试和缓存等选项完全相同
+ * 
+ * @param command - 要添加选项的命令
+ * @returns 同一个命令，便于继续链式调用
+ */
+function addRunOptions(command: Command): Command {
+    return command
+        /**
+         * 定义命令选项
+         * 
+         * "--no-backup" 是一个布尔选项
+         * - 默认情况下，backup 为 true（会创建备份）
+         * - 使用 --no-backup 时，backup 变为 false
+         * 
+         * 例如：
+         * - npm start comment file.ts（会创建备份）
+         * - npm start comment file.ts --no-backup（不创建备份）
+         */
+        .option(
+            "--no-backup",
+            "不创建备份（默认备份到 .collie/backups/<run-id>/）"
+        )
+        /**
+         * LLM 服务选项
+         * 
+         * 未指定时依次读取环境变量 COLLIE_PROVIDER / COLLIE_MODEL / COLLIE_BASE_URL，
+         * 再使用各 Provider 的默认值
+         * 
+         * parseProviderName 作为参数解析函数，输入非法值时直接报错
+         */
+        .option(
+            "-p, --provider <name>",
+            `LLM 服务（${PROVIDER_NAMES.join(" | ")}，默认 dashscope）`,
+            optionParser(parseProviderName)
+        )
+        .option("-m, --model <model>", "模型名称（默认取决于 provider）")
+        .option("--base-url <url>", "服务地址（用于内部网关、本地服务等）")
+        /**
+         * 注释语言与风格选项
+         * 
+         * - --lang: 注释使用的自然语言（zh、en、ja 等，默认 zh）
+         * - --style: 文档注释风格，默认按编程语言选择
+         *   （TypeScript → tsdoc、JavaScript → jsdoc、Python → google、Go → godoc、Rust → rustdoc）
+         */
+        .option("--lang <code>", "注释使用的自然语言（如 zh、en，默认 zh）")
+        .option(
+            "--style <style>",
+            `文档注释风格（${DOC_STYLES.join(" | ")}，默认取决于编程语言）`,
+            optionParser(parseDocStyle)
+        )
+        .option("-t, --temperature <t>", "采样温度（0 到 2，默认 0.3）", parseTemperature)
+        .option("--max-tokens <n>", "每次请求的最大生成 token 数（默认 2000）", parsePositiveInt)
+        /**
+         * 代码保护校验选项
+         * 
+         * 写入前会比较原始代码和模型输出（去掉注释和空白后）的 token 序列，
+         * 模型改动了代码本身时拒绝写入：
+         * - --guard-retries: 校验失败后使用更严格的提示词重试的次数
+         * - --no-verify: 跳过校验（不推荐）
+         * - --no-syntax-check: 跳过写入前的语法检查（默认会拒绝写入加注释之后无法解析的文件）
+         */
+        .option("--guard-retries <n>", "代码保护校验或语法检查失败后的重试次数（默认 0）", parseNonNegativeInt)
+        .option("--no-verify", "跳过代码保护校验（不推荐）")
+        .option("--no-syntax-check", "跳过写入前的语法检查（不推荐）")
+        /**
+         * 预览选项
+         * 
+         * - --dry-run: 只生成注释，不写入任何文件（包括备份）
+         * - --diff: 打印原始代码与带注释代码的 unified diff
+         * - --patch <file>: 把所有文件的改动写成一个可以 `git apply` 的 patch
+         * 
+         * 常见用法：--dry-run --patch out.patch，先审阅 patch 再决定是否应用
+         */
+        .option("--dry-run", "只生成注释，不写入任何文件")
+        .option("--diff", "打印每个文件的 unified diff")
+        .option("--patch <file>", "把所有改动写入 git 可应用的 patch 文件")
+        /**
+         * 交互式审阅
+         * 
+         * 类似 git add -p，逐个展示插入的注释，只把接受的改动写入文件
+         */
+        .option("-i, --interactive", "逐个审阅生成的注释，只应用接受的改动")
+        /**
+         * 流式输出
+         * 
+         * 默认也会使用流式接口，在进度行中显示每个文件已收到的 token 数；
+         * --stream 时把模型生成的代码直接输出到终端（这时逐个处理文件，不显示进度行）
+         */
+        .option("--stream", "实时输出模型生成的代码")
+        /**
+         * 用量与费用
+         * 
+         * 运行结束时汇总每个文件和整次运行的 token 用量与估算费用（价格见 usage.ts，可在配置文件的 prices 中覆盖）
+         * - --max-cost: 费用上限（美元），下一次请求可能超出上限时停止处理剩下的文件
+         */
+        .option("--max-cost <usd>", "本次运行的费用上限（美元）", parseCost)
+        /**
+         * 机器可读的输出（用于 CI）
+         * 
+         * - --json: 全部处理完后在 stdout 输出一个 JSON 对象（每个文件的结果、按状态的统计、用量和退出码）
+         * - --ndjson: 每处理完一个文件输出一行 JSON，最后一行是 type 为 "summary" 的汇总
+         * 
+         * 两种模式下其他输出都改到 stderr；退出码见 EXIT_CODES
+         */
+        .option("--json", "以 JSON 格式输出结果和用量")
+        .option("--ndjson", "每处理完一个文件输出一行 JSON")
+        /**
+         * 输入展开选项
+         * 
+         * - --include / --exclude: 按 glob 过滤（可重复），不含 "/" 的模式只匹配文件名
+         * - --no-ignore: 不读取 .gitignore 和 .collieignore
+         * - --no-language-filter: 目录展开时也处理未知语言的文件（默认只处理已知语言）
+         */
+        .option("--include <glob>", "只处理匹配的文件（可重复）", collect)
+        .option("--exclude <glob>", "跳过匹配的文件（可重复）", collect)
+        .option("--no-ignore", "不遵循 .gitignore 和 .collieignore")
+        .option("--no-language-filter", "展开目录时也包含未知语言的文件")
+        /**
+         * 并发与限流选项
+         * 
+         * - --concurrency: 同时处理的文件数（默认 1，--interactive 时固定为 1）
+         * - --rpm / --tpm: 每分钟最多的请求数 / token 数，所有并发任务共用一个配额
+         */
+        .option("-c, --concurrency <n>", "同时处理的文件数（默认 1）", parsePositiveInt)
+        .option("--rpm <n>", "每分钟最多发起的请求数", parsePositiveInt)
+        .option("--tpm <n>", "每分钟最多消耗的 token 数", parsePositiveInt)
+        /**
+         * 重试与超时选项
+         * 
+         * 429、5xx、超时和网络错误会按指数退避（带随机抖动）自动重试，
+         * 服务端返回 Retry-After 时按它等待；认证失败和额度耗尽不会重试
+         */
+        .option("--retries <n>", "请求失败后的最大重试次数（默认 3，0 表示不重试）", parseNonNegativeInt)
+        .option("--timeout <seconds>", "单次请求的超时时间（秒，默认 120）", parsePositiveInt)
+        /**
+         * 缓存选项
+         * 
+         * 默认会把模型响应缓存在本地（~/.cache/collie），相同的请求不再重复调用模型；
+         * --no-cache 时既不读取也不写入缓存
+         */
+        .option("--no-cache", "不使用本地响应缓存")
+        /**
+         * 工具调用选项
+         * 
+         * --tools 时模型可以调用只读工具（读取文件、列出目录、查找声明、读取 package.json），
+         * 查看被导入的函数和类型之后再写注释；工具只能访问当前目录之内、非隐藏的文件。
+         * 每一轮工具调用都是一次额外的请求，token 用量会明显增加：
+         * - --tool-iterations: 每次请求最多调用几轮工具（默认 5）
+         * - --tool-tokens: 每次请求中工具输出的 token 总数上限（默认 8000）
+         */
+        .option("--tools", "允许模型调用只读工具查看项目中的其他文件")
+        .option("--tool-iterations <n>", "每次请求最多调用几轮工具（默认 5）", parsePositiveInt)
+        .option("--tool-tokens <n>", "每次请求中工具输出的 token 总数上限（默认 8000）", parsePositiveInt)
+        /**
+         * 导入上下文选项
+         * 
+         * --imports 时按 TypeScript 的模块解析找到文件中相对路径的导入，
+         * 把用到的声明的签名和文档注释附在提示词里（仅 TypeScript / JavaScript）。
+         * 和 --tools 不同，不会增加请求次数，只会增加每次请求的输入 token：
+         * - --import-tokens: 这部分上下文的 token 上限（默认 1500），超出的声明省略
+         */
+        .option("--imports", "在提示词中附带被导入模块的签名和文档注释")
+        .option("--import-tokens <n>", "被导入模块的声明的 token 总数上限（默认 1500）", parsePositiveInt);
+}
+
+/**
+ * 执行 comment / refresh 命令
+ * 
+ * 合并配置、展开输入、创建 Provider 并套上限流、重试和缓存，
+ * 然后批量处理文件并输出结果
+ * 
+ * 参数说明：
+ * - paths: string[] - 用户输入的文件、目录或 glob 模式数组
+ * - options: CommentCommandOptions - 命令选项对象
+ * - command: Command - 当前执行的命令，用于区分显式给出的选项
+ * - extra: 只有 refresh 命令才有的选项
+ * 
+ * async 关键字：表示这是一个异步函数
+ * - 异步函数可以使用 await 关键字等待异步操作完成
+ * - 例如：等待文件读取、API 调用等
+ */
+async function runCommentCommand(
+    paths: string[],
+    options: CommentCommandOptions,
+    command: Command,
+    extra: Pick<GenerateOptions, "refresh"> = {}
+): Promise<void> {
+    /**
+     * try-catch 错误处理
+     * 
+     * try 块：尝试执行可能出错的代码
+     * catch 块：如果出错，捕获错误并处理
+     * 
+     * 为什么要用 try-catch？
+     * - 文件可能不存在
+     * - API 调用可能失败
+     * - 网络可能有问题
+     * - 使用 try-catch 可以让程序优雅地处理错误，而不是直接崩溃
+     */
+    // 开始处理文件之前的错误都是配置或参数错误
+    let started = false;
+    try {
+        // 合并命令行参数、环境变量和配置文件，得到最终生效的配置
+        const config = resolveConfig(explicitOptions(command)).values;
+
+        // 配置文件中添加的语言要在展开文件列表之前注册，目录展开时才能识别这些文件
+        config.languages?.forEach(registerLanguage);
+        if (options.language && !findLanguage(options.language)) {
+            console.error(`错误: 未知的语言 ${options.language}（可选值: ${languageNames().join(", ")}）`);
+            process.exit(EXIT_CODES.config);
+        }
+
+        // --json / --ndjson 时 stdout 只输出 JSON，过程信息都改到 stderr
+        const machine = options.json || options.ndjson;
+        const say = (message: string) => machine ? console.error(message) : console.log(message);
+
+        if (options.json && options.ndjson) {
+            console.error("错误: --json 和 --ndjson 不能同时使用");
+            process.exit(EXIT_CODES.config);
+        }
+
+        // 交互式审阅需要从终端读取输入
+        if (options.interactive && !process.stdin.isTTY) {
+            console.error("错误: --interactive 需要在终端中运行");
+            process.exit(EXIT_CODES.config);
+        }
+        // 审阅界面输出在 stdout 上，会混进 JSON 结果
+        if (options.interactive && machine) {
+            console.error("错误: --interactive 不能和 --json / --ndjson 同时使用");
+            process.exit(EXIT_CODES.config);
+        }
+
+        // 增量模式（--since / --staged）：只处理 git diff 中有改动的代码
+        const changes: GitDiffTarget | undefined = options.since !== undefined || options.staged
+            ? { since: options.since, staged: options.staged }
+            : undefined;
+        if (changes) {
+            await validateTarget(changes);
+        }
+
+        // 增量模式下没有指定路径时，处理当前目录下所有改动过的文件
+        const inputs = paths.length > 0 ? paths : changes ? ["."] : [];
+        if (inputs.length === 0) {
+            console.error("错误: 请指定要处理的文件、目录或 glob 模式");
+            process.exit(EXIT_CODES.config);
+        }
+
+        // 把目录和 glob 模式展开成文件列表
+        let files = await expandInputs(inputs, {
+            include: config.include,
+            exclude: config.exclude,
+            ignoreFiles: options.ignore,
+            knownLanguagesOnly: options.languageFilter,
+        });
+
+        if (changes) {
+            const changed = new Set(await listChangedFiles(changes));
+            files = files.filter((file) => changed.has(resolve(file)));
+            if (files.length === 0) {
+                say(`${describeTarget(changes)}没有改动过的文件，无需处理`);
+                return;
+            }
+        }
+
+        // 验证是否有要处理的文件
+        // files.length 获取数组的长度
+        if (files.length === 0) {
+            // console.error 输出错误信息（红色）
+            console.error("错误: 没有找到要处理的文件");
+            // process.exit() 退出程序，0 表示正常退出，非 0 表示有错误（见 EXIT_CODES）
+            process.exit(EXIT_CODES.config);
+        }
+
+        // 使用模板字符串输出信息
+        // ${} 是模板字符串的插值语法，可以在字符串中嵌入变量
+        // \n 是换行符
+        say(`准备处理 ${files.length} 个文件...\n`);
+
+        // 交互式审阅一次只能审阅一个文件，--stream 时多个文件的输出会混在一起，所以都不并发
+        const exclusive = options.interactive || options.stream;
+
+        // 进度行（只在终端中显示），处理过程中的日志也通过它输出
+        // 交互式审阅和 --stream 会占用终端，这时不显示进度行
+        const progress = exclusive ? undefined : new ProgressLine(files.length);
+        const output = progress ?? console;
+        const logger: Logger = machine
+            ? { log: (message) => output.error(message), error: (message) => output.error(message) }
+            : output;
+
+        // 本次运行修改的所有文件备份在同一个目录里，可以用 restore 一起撤销
+        const backupRun = new BackupRun();
+
+        /**
+         * 创建 Agent（所有文件共用一个 Provider，限流配额和用量统计也是共用的）
+         * 
+         * API Key 缺失、--max-cost 时不知道模型价格等配置错误会在这里直接抛出，不会逐个文件报错
+         */
+        const agent = new CollieAgent({
+            connection: {
+                provider: config.provider,
+                model: config.model,
+                baseUrl: config.baseUrl,
+                timeoutMs: config.timeout !== undefined ? config.timeout * 1000 : undefined,
+            },
+            retries: config.retries,
+            rateLimit: { requestsPerMinute: config.rpm, tokensPerMinute: config.tpm },
+            cache: config.cache,
+            prices: config.prices,
+            maxCost: config.maxCost,
+            backup: config.backup,
+            backupRun,
+            temperature: config.temperature,
+            lang: config.lang,
+            style: config.style,
+            // refresh 只修改已有的注释，注释范围、生成模式和分段都不适用
+            ...(extra.refresh
+                ? { refresh: extra.refresh }
+                : {
+                    scope: config.scope,
+                    inline: config.inline,
+                    mode: config.mode,
+                    chunkTokens: config.chunkTokens,
+                    importTokens: config.imports ? config.importTokens : undefined,
+                }),
+            maxTokens: config.maxTokens,
+            changes,
+            language: options.language,
+            verify: config.verify,
+            syntaxCheck: config.syntaxCheck,
+            guardRetries: config.guardRetries,
+            tools: config.tools
+                ? new ProjectTools({ maxIterations: config.toolIterations, maxTokens: config.toolTokens })
+                : undefined,
+            dryRun: options.dryRun,
+            review: options.interactive ? reviewHunks : undefined,
+            concurrency: exclusive ? 1 : config.concurrency ?? 1,
+            logger,
+        });
+        say(`使用模型: ${agent.provider.name}/${agent.provider.model}\n`);
+
+        agent.on("retry", (error, attempt, delayMs) => {
+            logger.error(
+                `  请求失败（${error.message.split("\n")[0]}），` +
+                `${(delayMs / 1000).toFixed(1)} 秒后第 ${attempt} 次重试...`
+            );
+        });
+        agent.on("fileStart", (filePath) => {
+            progress?.start(filePath);
+            if (options.stream) say(`\n===== ${filePath} =====`);
+        });
+        agent.on("fileDone", (result) => {
+            progress?.finish(result.filePath, result.status !== "failed");
+            if (options.stream) say("");
+            if (options.ndjson) console.log(JSON.stringify({ type: "file", ...resultToJson(result) }));
+        });
+        // 需要显示生成内容时才监听 delta（有监听器时才使用流式接口，输出不是终端时仍然一次性读取完整响应）
+        // 流式请求中途失败后会重新生成：--stream 时提示之前的输出作废，进度行减去作废的部分
+        if (options.stream) {
+            const out = machine ? process.stderr : process.stdout;
+            agent.on("delta", (_, delta) => out.write(delta));
+            agent.on("deltaReset", () => out.write("\n----- 连接中断，以上输出作废，重新生成 -----\n"));
+        } else if (progress?.enabled) {
+            agent.on("delta", (filePath, delta) => progress.receive(filePath, delta));
+            agent.on("deltaReset", (filePath, discarded) => progress.discard(filePath, discarded));
+        }
+
+        /**
+         * 处理所有文件
+         * 
+         * await 关键字：等待异步操作完成
+         * - agent.commentFiles 是一个异步函数（返回 Promise）
+         * - await 会暂停当前函数的执行，直到 Promise 完成
+         * - 完成后，结果会赋值给 results
+         * 
+         * 为什么需要 await？
+         * - 文件读取、API 调用都是异步操作，需要时间
+         * - 不使用 await 的话，代码会继续执行，但结果还没准备好
+         * - await 确保我们拿到结果后再继续
+         */
+        started = true;
+        const results = await agent.commentFiles(files);
+        const usage = agent.usage;
+        progress?.stop();
+
+        // 按需输出 diff 和 patch
+        if (options.diff || options.patch) {
+            await outputDiffs(results, options);
+        }
+
+        // 退出码由失败的文件数决定；用 process.exitCode 而不是 process.exit()，让 stdout 的输出完整写出
+        const exitCode = exitCodeFor(results);
+        process.exitCode = exitCode;
+
+        // --json / --ndjson：汇总信息（--json 时还包括每个文件的结果）输出到 stdout
+        if (machine) {
+            const summary = {
+                files: results.length,
+                statuses: countStatuses(results),
+                usage: usage.total,
+                maxCost: config.maxCost,
+                budgetExceeded: usage.stopped,
+                backupRun: backupRun.size > 0 ? backupRun.id : undefined,
+                exitCode,
+            };
+            console.log(options.json
+                ? JSON.stringify({ files: results.map(resultToJson), summary }, null, 2)
+                : JSON.stringify({ type: "summary", ...summary }));
+            return;
+        }
+
+        // 输出处理结果
+        console.log("\n处理完成:");
+        /**
+         * forEach 方法：遍历数组中的每个元素
+         * 
+         * results.forEach((result) => { ... })
+         * - result 是数组中的每个元素
+         * - => 是箭头函数语法，等同于 function(result) { ... }
+         * - 箭头函数是 ES6 的语法糖，更简洁
+         */
+        results.forEach((result) => {
+            // ✓ 成功，- 没有改动或跳过，✗ 失败
+            console.log(`  ${STATUS_MARKS[result.status]} ${result.message}`);
+            // 只有一个文件时，它的用量就是合计，不重复输出
+            if (results.length > 1 && result.usage && result.usage.requests + result.usage.cachedRequests > 0) {
+                console.log(`    ${formatUsage(result.usage)}`);
+            }
+        });
+
+        console.log(`\n用量合计: ${formatUsage(usage.total)}`);
+        if (usage.stopped) {
+            console.log(`已达到费用上限 ${formatCost(config.maxCost!)}，剩下的文件没有处理`);
+        }
+
+        if (backupRun.size > 0) {
+            console.log(`\n本次运行的备份: ${backupRun.id}（可以用 "restore ${backupRun.id}" 撤销）`);
+        }
+
+        const failed = countStatuses(results).failed;
+        if (failed > 0) {
+            console.log(`\n${failed} 个文件处理失败`);
+        }
+    } catch (error) {
+        /**
+         * 错误处理
+         * 
+         * error instanceof Error 是类型检查
+         * - 检查 error 是否是 Error 类型的实例
+         * - 如果是，可以安全地访问 .message 属性
+         * - 这是 TypeScript/JavaScript 的类型守卫（type guard）
+         * 
+         * 为什么要检查类型？
+         * - catch 捕获的 error 类型是 unknown
+         * - 不能直接访问 .message，需要先确认类型
+         */
+        console.error("错误:", error instanceof Error ? error.message : error);
+        process.exit(started ? EXIT_CODES.error : EXIT_CODES.config);  // 异常退出
+    }
+}
 
 /**
  * 设置 CLI 命令
@@ -46,7 +821,9 @@ export function setupCLI(): Command {
     program
         .name("cli-agent")  // 程序名称
         .description("一个简单的 CLI Agent，用于为代码文件添加 AI 生成的注释")
-        .version("1.0.0");  // 版本号
+        .version("1.0.0")  // 版本号
+        // 参数错误（未知选项、非法取值等）使用配置错误的退出码；--help 和 --version 仍然以 0 退出
+        .exitOverride((error) => process.exit(error.exitCode === 0 ? EXIT_CODES.ok : EXIT_CODES.config));
 
     /**
      * 定义 "comment" 子命令
@@ -60,118 +837,228 @@ export function setupCLI(): Command {
      * - option() - 定义命令选项（可选参数）
      * - action() - 定义命令执行时的回调函数
      */
-    program
-        .command("comment")  // 子命令名称：comment
-        .description("为代码文件添加注释")  // 命令描述
+    addRunOptions(
+        program
+            .command("comment")  // 子命令名称：comment
+            .description("为代码文件添加注释")  // 命令描述
+            /**
+             * 定义命令参数
+             * 
+             * "[paths...]" 中的 ... 表示可以接受多个参数，方括号表示可以省略
+             * 每个参数可以是文件、目录或 glob 模式，例如：
+             * comment src/index.ts lib "packages/**\/*.py"
+             * paths 会是一个数组，之后由 expandInputs 展开成文件列表
+             * 省略时只有增量模式（--since / --staged）可以运行，默认处理当前目录
+             * 
+             * glob 模式建议加引号，交给程序展开，这样才能遵循 .gitignore
+             */
+            .argument("[paths...]", "要处理的文件、目录或 glob 模式（支持多个；--since / --staged 时默认为当前目录）")
+    )
         /**
-         * 定义命令参数
+         * 注释范围选项
          * 
-         * "<files...>" 中的 ... 表示可以接受多个参数
-         * 例如：comment file1.ts file2.js file3.py
-         * files 会是一个数组：["file1.ts", "file2.js", "file3.py"]
+         * - --scope exported: 只给导出的声明写文档注释（包括 export { ... } 导出的）
+         * - --scope public: 再加上导出的类和接口中的公共成员
+         * - --no-inline: 不添加行内注释，函数体保持原样
+         * 
+         * TypeScript / JavaScript 文件会在写入前按范围过滤模型的改动
          */
-        .argument("<files...>", "要处理的文件路径（支持多个文件）")
+        .option(
+            "--scope <scope>",
+            `注释范围（${DOC_SCOPES.join(" | ")}，默认 all）`,
+            optionParser(parseDocScope)
+        )
+        .option("--no-inline", "不添加函数体内的行内注释")
         /**
-         * 定义命令选项
+         * 指定编程语言
          * 
-         * "--no-backup" 是一个布尔选项
-         * - 默认情况下，backup 为 true（会创建备份）
-         * - 使用 --no-backup 时，backup 变为 false
+         * 默认按文件名、扩展名和 shebang 识别，识别不出来（或识别错了）时用它指定，
+         * 对本次处理的所有文件生效；可选值包括配置文件 languages 中添加的语言
+         */
+        .option("--language <name>", "按指定的编程语言处理所有文件（如 python、shell）")
+        /**
+         * 生成模式
          * 
-         * 例如：
-         * - npm start comment file.ts（会创建备份）
-         * - npm start comment file.ts --no-backup（不创建备份）
+         * structured 模式下模型只返回每个声明的注释（JSON），由程序插入到声明上方，
+         * 模型不会接触源代码文本（仅支持 TypeScript / JavaScript）
          */
         .option(
-            "--no-backup",
-            "不创建备份文件（默认会创建 .backup 文件）"
+            "--mode <mode>",
+            `生成模式（${COMMENT_MODES.join(" | ")}，默认 rewrite）`,
+            optionParser(parseCommentMode)
         )
         /**
-         * 定义命令执行时的动作
-         * 
-         * action() 接收一个回调函数，当用户执行命令时会调用这个函数
+         * 分段处理选项
          * 
-         * async 关键字：表示这是一个异步函数
-         * - 异步函数可以使用 await 关键字等待异步操作完成
-         * - 例如：等待文件读取、API 调用等
+         * 大文件会按顶层声明切分成多段，每段单独请求模型：
+         * - --max-tokens: 每次请求允许模型生成的最大 token 数
+         * - --chunk-tokens: 每段输入代码的 token 预算（默认为 max-tokens 的一半）
+         */
+        .option("--chunk-tokens <n>", "大文件分段时每段的 token 预算", parsePositiveInt)
+        /**
+         * 增量模式
          * 
-         * 参数说明：
-         * - files: string[] - 用户输入的文件路径数组
-         * - options: { backup: boolean } - 命令选项对象
-         *   TypeScript 的类型注解 { backup: boolean } 表示这是一个对象，有一个 backup 属性，类型是 boolean
+         * 读取 git diff，把改动的行映射到所在的函数、类，只把这些区域发给模型，
+         * 其余代码逐字节保持不变：
+         * - --since <ref>: 与某个分支、标签或提交比较（包括未提交的改动）
+         * - --staged: 只看已暂存的改动（适合在提交前运行）
          */
-        .action(async (files: string[], options: { backup: boolean }) => {
-            /**
-             * try-catch 错误处理
-             * 
-             * try 块：尝试执行可能出错的代码
-             * catch 块：如果出错，捕获错误并处理
-             * 
-             * 为什么要用 try-catch？
-             * - 文件可能不存在
-             * - API 调用可能失败
-             * - 网络可能有问题
-             * - 使用 try-catch 可以让程序优雅地处理错误，而不是直接崩溃
-             */
+        .option("--since <ref>", "只处理自该 git 引用以来改动过的代码")
+        .option("--staged", "只处理 git 暂存区中改动过的代码")
+        .action((paths: string[], options: CommentCommandOptions, command: Command) =>
+            runCommentCommand(paths, options, command)
+        );
+
+    /**
+     * 定义 "refresh" 子命令
+     * 
+     * 不添加新注释，而是找出与签名不一致的文档注释（参数被重命名或删除、返回类型变了），
+     * 只让模型重写这些注释；--prune-obvious 时还会删除只是复述代码的注释
+     * 
+     * 目前只支持 TypeScript / JavaScript
+     */
+    addRunOptions(
+        program
+            .command("refresh")
+            .description("更新过时的文档注释，可选删除冗余注释")
+            .argument("<paths...>", "要处理的文件、目录或 glob 模式（支持多个）")
+    )
+        .option("--prune-obvious", "删除只是复述代码的注释")
+        .action((paths: string[], options: CommentCommandOptions, command: Command) =>
+            runCommentCommand(paths, options, command, {
+                refresh: { pruneObvious: options.pruneObvious ?? false },
+            })
+        );
+
+    /**
+     * 定义 "restore" 子命令
+     * 
+     * 撤销一次运行：把它修改过的文件恢复成运行前的内容。
+     * 不指定 run-id 时撤销最近一次没有被撤销的运行；
+     * 有文件在运行之后又被修改过时，一个文件都不恢复，除非使用 --force
+     */
+    program
+        .command("restore")
+        .description("撤销一次运行，恢复被修改的文件")
+        .argument("[run-id]", "运行 id（默认最近一次运行，可以用 runs list 查看）")
+        .option("--force", "覆盖运行之后又被修改过的文件")
+        .action(async (runId: string | undefined, options: { force?: boolean }) => {
+            // 找不到指定的运行属于参数错误，恢复过程中的失败属于一般错误
+            let loaded = false;
             try {
-                // 验证用户是否提供了文件路径
-                // files.length 获取数组的长度
-                if (files.length === 0) {
-                    // console.error 输出错误信息（红色）
-                    console.error("错误: 请至少指定一个文件路径");
-                    // process.exit(1) 退出程序，1 表示异常退出
-                    // 0 表示正常退出，非 0 表示有错误
-                    process.exit(1);
+                const store = new BackupStore();
+                const manifest = await store.load(runId);
+                loaded = true;
+                if (manifest.restoredAt) {
+                    console.log(`提示: 运行 ${manifest.id} 已在 ${manifest.restoredAt} 撤销过`);
                 }
 
-                // 使用模板字符串输出信息
-                // ${} 是模板字符串的插值语法，可以在字符串中嵌入变量
-                // \n 是换行符
-                console.log(`准备处理 ${files.length} 个文件...\n`);
-
-                /**
-                 * 调用业务逻辑函数
-                 * 
-                 * await 关键字：等待异步操作完成
-                 * - addCommentsToFiles 是一个异步函数（返回 Promise）
-                 * - await 会暂停当前函数的执行，直到 Promise 完成
-                 * - 完成后，结果会赋值给 results
-                 * 
-                 * 为什么需要 await？
-                 * - 文件读取、API 调用都是异步操作，需要时间
-                 * - 不使用 await 的话，代码会继续执行，但结果还没准备好
-                 * - await 确保我们拿到结果后再继续
-                 */
-                const results = await addCommentsToFiles(files, options.backup);
-
-                // 输出处理结果
-                console.log("\n处理完成:");
-                /**
-                 * forEach 方法：遍历数组中的每个元素
-                 * 
-                 * results.forEach((result) => { ... })
-                 * - result 是数组中的每个元素
-                 * - => 是箭头函数语法，等同于 function(result) { ... }
-                 * - 箭头函数是 ES6 的语法糖，更简洁
-                 */
-                results.forEach((result) => {
-                    console.log(`  ✓ ${result}`);  // ✓ 是 Unicode 字符，显示为勾号
-                });
+                const report = await store.restore(manifest, { force: options.force });
+                for (const path of report.restored) {
+                    console.log(`  ✓ 已恢复 ${relative(process.cwd(), path)}`);
+                }
+                for (const path of report.unchanged) {
+                    console.log(`  - 已是原始内容，跳过 ${relative(process.cwd(), path)}`);
+                }
+                console.log(`\n已撤销运行 ${manifest.id}（恢复 ${report.restored.length} 个文件）`);
+            } catch (error) {
+                console.error("错误:", error instanceof Error ? error.message : error);
+                process.exit(loaded ? EXIT_CODES.error : EXIT_CODES.config);
+            }
+        });
+
+    /**
+     * 定义 "runs" 子命令
+     * 
+     * runs list: 列出 .collie/backups 中的历史运行（最新的在前）
+     */
+    const runsCommand = program
+        .command("runs")
+        .description("查看历史运行");
+
+    runsCommand
+        .command("list")
+        .description("列出历史运行及其修改的文件数")
+        .action(async () => {
+            const store = new BackupStore();
+            const runs = await store.list();
+            if (runs.length === 0) {
+                console.log(`${store.root} 中还没有运行记录`);
+                return;
+            }
+            for (const run of runs) {
+                const time = new Date(run.createdAt).toLocaleString();
+                const status = run.restoredAt ? "  (已撤销)" : "";
+                console.log(`${run.id}  ${time}  ${run.files.length} 个文件${status}`);
+            }
+        });
+
+    /**
+     * 定义 "cache" 子命令
+     * 
+     * - cache stats: 显示缓存目录、条目数和占用空间
+     * - cache clear: 清空缓存
+     * 
+     * 缓存目录可以通过 COLLIE_CACHE_DIR 环境变量修改
+     */
+    const cacheCommand = program
+        .command("cache")
+        .description("管理本地响应缓存");
+
+    cacheCommand
+        .command("stats")
+        .description("显示缓存统计信息")
+        .action(async () => {
+            const stats = await new ResponseCache().stats();
+            console.log(`缓存目录: ${stats.dir}`);
+            console.log(`条目数: ${stats.entries}`);
+            console.log(`占用空间: ${formatBytes(stats.bytes)}`);
+        });
+
+    cacheCommand
+        .command("clear")
+        .description("清空缓存")
+        .action(async () => {
+            const cache = new ResponseCache();
+            const removed = await cache.clear();
+            console.log(`已清空缓存（删除 ${removed} 个条目）: ${cache.dir}`);
+        });
+
+    /**
+     * 定义 "config" 子命令
+     * 
+     * config show: 显示合并后每个配置项的取值，以及它来自哪里
+     * （命令行参数、环境变量、项目配置、用户配置或默认值）；
+     * 没有配置模型时显示 provider 的默认模型，也就是实际会使用的模型
+     */
+    const configCommand = program
+        .command("config")
+        .description("查看配置");
+
+    configCommand
+        .command("show")
+        .description("显示生效的配置及其来源")
+        .action(() => {
+            try {
+                const { values, sources } = resolveConfig();
+                const keys = Object.keys(CONFIG_SCHEMA) as ConfigKey[];
+                const width = Math.max(...keys.map((key) => key.length));
+
+                for (const key of keys) {
+                    const value = values[key];
+                    let shown = value === undefined ? "-" : JSON.stringify(value);
+                    let source = describeSource(sources[key]);
+                    // 没有配置模型时实际使用的是 provider 的默认模型
+                    if (key === "model" && value === undefined && values.provider) {
+                        shown = JSON.stringify(defaultModel(values.provider));
+                        source = `${values.provider} 的默认模型`;
+                    }
+                    console.log(`${key.padEnd(width)}  ${shown}  (${source})`);
+                }
             } catch (error) {
-                /**
-                 * 错误处理
-                 * 
-                 * error instanceof Error 是类型检查
-                 * - 检查 error 是否是 Error 类型的实例
-                 * - 如果是，可以安全地访问 .message 属性
-                 * - 这是 TypeScript/JavaScript 的类型守卫（type guard）
-                 * 
-                 * 为什么要检查类型？
-                 * - catch 捕获的 error 类型是 unknown
-                 * - 不能直接访问 .message，需要先确认类型
-                 */
+                // 配置文件格式错误或取值非法（ConfigError）
                 console.error("错误:", error instanceof Error ? error.message : error);
-                process.exit(1);  // 异常退出
+                process.exit(EXIT_CODES.config);
             }
         });
 
@@ -4,7 +4,7 @@
  * 这个模块负责文件操作和业务流程协调：
  * 1. 读取代码文件
  * 2. 调用 AI Agent 生成注释
- * 3. 创建备份文件（可选）
+ * 3. 创建备份（可选，存放在 .collie/backups/<run-id>/ 中）
  * 4. 将带注释的代码写回文件
  * 
  * 这是业务逻辑层，连接 CLI 层和 AI Agent 层
@@ -42,14 +42,204 @@ import { existsSync } from "fs";
  * extname: 提取文件扩展名
  * - 例如：extname("src/example.ts") 返回 ".ts"
  */
-import { extname } from "path";
+import { extname, relative, resolve, sep } from "path";
 
 /**
  * 导入 AI Agent 函数
  * 
  * generateComments: 调用 AI 生成注释的核心函数
  */
-import { generateComments } from "./agent.js";
+import { generateComments, GenerateOptions } from "./agent.js";
+
+// 导入语言识别，按文件名、扩展名和 shebang 判断文件的编程语言
+import { detectLanguage } from "./languages.js";
+
+// 没有传入 Provider 时按环境变量创建（用量统计需要先拿到实例再包装）
+import { createProvider, ToolCall } from "./providers.js";
+
+/**
+ * 导入代码保护校验
+ * 
+ * verifyCodePreserved: 比较原始代码和模型输出的 token 序列
+ * formatGuardReport: 把差异格式化成可读文本
+ */
+import { CodeChangedError, formatGuardReport, verifyCodePreserved } from "./guard.js";
+
+// 导入语法检查，拒绝写入加注释之后无法解析的文件
+import { checkSyntax, formatSyntaxDiagnostics, SyntaxCheckError } from "./syntax.js";
+
+/**
+ * 导入并发任务池
+ * 
+ * runPool: 用固定数量的 worker 并发处理文件，结果保持输入顺序
+ */
+import { runPool } from "./pool.js";
+
+// 导入备份函数，每次运行的备份集中存放在 .collie/backups/<run-id>/ 中
+import { BackupRun } from "./backups.js";
+
+// 导入 git 增量函数，用于 --since 和 --staged
+import { changedLineRanges, describeTarget, findEnclosingRegions, GitDiffTarget } from "./gitdiff.js";
+
+// 导入注释范围过滤函数，用于 --scope 和 --no-inline
+import { restrictToScope } from "./scope.js";
+import { supportsStructuredMode } from "./structured.js";
+
+// 导入用量统计，按文件和按整次运行累计 token 数和费用
+import { BudgetExceededError, UsageStats, UsageTracker } from "./usage.js";
+
+// 导入只读工具，用于 --tools（模型可以查看项目中的其他文件）
+import { ProjectTools } from "./tools.js";
+
+// 导入缓存的延迟写入，输出通过校验之后才把响应写入缓存
+import { PendingResponses } from "./cache.js";
+
+/**
+ * 文件读写接口
+ * 
+ * 默认直接读写磁盘（nodeFileSystem）；作为库使用时可以传入自己的实现，
+ * 例如编辑器插件让工具直接读写尚未保存的缓冲区。
+ * 备份（.collie/backups）和 git 增量模式仍然使用磁盘上的文件，
+ * 所以传入自己的实现时默认不创建备份（见 backupEnabled）
+ */
+export interface FileSystem {
+    exists(path: string): Promise<boolean>;
+    readFile(path: string): Promise<string>;
+    writeFile(path: string, content: string): Promise<void>;
+}
+
+/**
+ * 直接读写磁盘的默认实现（UTF-8）
+ */
+export const nodeFileSystem: FileSystem = {
+    exists: async (path) => existsSync(path),
+    readFile: (path) => readFile(path, "utf-8"),
+    writeFile: (path, content) => writeFile(path, content, "utf-8"),
+};
+
+/**
+ * 日志输出接口
+ * 
+ * 默认直接使用 console；并发处理时 CLI 会传入进度行（ProgressLine），
+ * 让日志和实时进度互不干扰
+ */
+export interface Logger {
+    log(message: string): void;
+    error(message: string): void;
+}
+
+/**
+ * 文件处理选项
+ * 
+ * 继承 GenerateOptions（provider、采样参数），并增加文件层面的选项：
+ * - backup: 是否创建备份（默认 true；传入了 fs 而没有传入 backupRun 时默认 false）
+ * - backupRun: 备份写入的运行；未传入时每个文件单独创建一次运行
+ * - verify: 写入前是否校验模型没有改动代码本身（默认 true）
+ * - syntaxCheck: 写入前是否检查加注释之后没有引入新的语法错误（默认 true）
+ * - guardRetries: 校验或语法检查失败后使用严格提示词重试的次数（默认 0，不重试）
+ * - dryRun: 只生成注释，不写入任何文件（包括备份）
+ * - review: 写入前的审阅函数，接收原始代码和带注释的代码，返回最终要写入的代码
+ *   （例如 interactive.ts 中逐个差异块确认的 reviewHunks）
+ * - logger: 日志输出（默认 console）
+ * - changes: 只处理相对某个 git 引用（或暂存区）改动过的代码，其余部分保持不变
+ * - usage: 用量统计；设置后这个文件的所有请求都会计入其中，超出费用上限时不再发起请求
+ * - fs: 文件读写（默认 nodeFileSystem，直接读写磁盘）；备份不经过它，仍然写在磁盘上
+ * - tools: 设置后模型可以调用只读工具查看项目中的其他文件（见 tools.ts）
+ * - onToolCall: 模型每调用一次工具就回调一次
+ */
+export interface CommentOptions extends GenerateOptions {
+    backup?: boolean;
+    backupRun?: BackupRun;
+    verify?: boolean;
+    syntaxCheck?: boolean;
+    guardRetries?: number;
+    dryRun?: boolean;
+    review?: (filePath: string, originalCode: string, commentedCode: string) => Promise<string>;
+    logger?: Logger;
+    changes?: GitDiffTarget;
+    usage?: UsageTracker;
+    fs?: FileSystem;
+    tools?: ProjectTools;
+    onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * 批量处理选项
+ * 
+ * 在单文件选项的基础上增加：
+ * - concurrency: 同时处理的文件数（默认 1，即逐个处理）
+ * - onFileStart / onFileDone: 每个文件开始 / 结束时的回调，用于显示进度
+ * - onFileDelta: 设置后使用流式接口，收到某个文件的新生成文本时回调（实时进度和 --stream）
+ * - onFileDeltaReset: 某个文件的流式请求中途失败、重试之前回调，之前收到的这次请求的文本作废
+ * - onFileChunk: 大文件分段处理时，某个文件每开始处理一段就回调一次
+ * - onFileError: 某个文件处理失败时回调，收到原始的错误对象（结果里只有错误消息和类型名）
+ * - onFileToolCall: 处理某个文件时模型调用了工具（设置了 tools 时）
+ */
+export interface BatchOptions extends CommentOptions {
+    concurrency?: number;
+    onFileStart?: (filePath: string) => void;
+    onFileDone?: (result: CommentResult) => void;
+    onFileDelta?: (filePath: string, delta: string) => void;
+    onFileDeltaReset?: (filePath: string, discarded: string) => void;
+    onFileChunk?: (filePath: string, index: number, total: number) => void;
+    onFileError?: (filePath: string, error: Error) => void;
+    onFileToolCall?: (filePath: string, call: ToolCall) => void;
+}
+
+/**
+ * 单个文件的处理状态
+ * 
+ * - written: 已写回文件
+ * - dry-run: 生成了改动，但因为 --dry-run 没有写入
+ * - unchanged: 没有需要修改的地方，或审阅时一个改动都没有接受
+ * - skipped: 不需要处理（增量模式下文件没有改动）
+ * - failed: 处理失败，文件保持不变
+ */
+export type FileStatus = "written" | "dry-run" | "unchanged" | "skipped" | "failed";
+
+/**
+ * 单个文件的处理结果
+ * 
+ * - filePath: 文件路径
+ * - status: 处理状态，调用方（以及 --json 的使用者）按它判断成败，不要去匹配 message
+ * - message: 给用户看的结果消息（成功或错误）
+ * - originalCode / commentedCode: 原始代码和带注释的代码（失败时没有）
+ *   CLI 用它们输出 diff 和 patch
+ * - written: 是否已经写回文件（等同于 status === "written"）
+ * - error: 失败时的错误消息
+ * - errorKind: 失败时的错误类型（错误类的名字，如 "TimeoutError"、"CodeChangedError"）
+ * - durationMs: 处理这个文件用的时间（毫秒）
+ * - bytesChanged: 带注释的代码比原始代码多出的字节数（删除注释时为负数，失败时为 0）
+ * - usage: 这个文件的 token 用量和费用（批量处理且设置了 usage 时才有）
+ */
+export interface CommentResult {
+    filePath: string;
+    status: FileStatus;
+    message: string;
+    originalCode?: string;
+    commentedCode?: string;
+    written: boolean;
+    error?: string;
+    errorKind?: string;
+    durationMs: number;
+    bytesChanged: number;
+    usage?: UsageStats;
+}
+
+/**
+ * 没有显式指定 backup 时是否创建备份
+ *
+ * 备份总是写到磁盘上的 .collie/backups 中，不经过 options.fs。
+ * 调用方传入自己的 fs（例如内存中的文件）时，文件本身并不在磁盘上，
+ * 为它在当前目录下创建备份既没有意义，也会在磁盘上留下意外的文件，
+ * 所以这时默认不备份；同时传入 backupRun 说明调用方确实需要备份
+ */
+function backupEnabled(options: CommentOptions): boolean {
+    if (options.backup !== undefined) {
+        return options.backup;
+    }
+    return options.fs === undefined || options.fs === nodeFileSystem || options.backupRun !== undefined;
+}
 
 /**
  * 为单个代码文件添加注释
@@ -59,22 +249,41 @@ import { generateComments } from "./agent.js";
  * 2. 读取文件内容
  * 3. 调用 AI 生成注释
  * 4. 创建备份（可选）
- * 5. 写回带注释的代码
+ * 5. 写回带注释的代码（dry-run 时跳过 4 和 5）
  * 
  * @param filePath - 要处理的文件路径（相对路径或绝对路径）
- * @param backup - 是否创建备份文件（默认 true）
- *                 备份文件名为原文件名 + ".backup"
- * @returns Promise<string> - 处理结果的成功消息
+ * @param options - 处理选项（备份、dry-run、provider、采样参数）
+ *                  备份存放在 .collie/backups/<run-id>/ 中，可以用 restore 命令撤销
+ * @returns Promise<CommentResult> - 处理结果，包含原始代码和带注释的代码
  * 
  * 函数签名说明：
  * - export: 导出函数，供其他模块使用
  * - async: 异步函数，可以使用 await
- * - Promise<string>: 返回一个 Promise，成功时解析为字符串
+ * - Promise<CommentResult>: 返回一个 Promise，成功时解析为处理结果
  */
 export async function addCommentsToFile(
     filePath: string,
-    backup: boolean = true  // 默认参数：如果不传 backup，默认为 true
-): Promise<string> {
+    options: CommentOptions = {}
+): Promise<CommentResult> {
+    // 未指定 backup / verify 时默认创建备份（传入了 fs 时见 backupEnabled）并做代码保护校验
+    const {
+        backup = backupEnabled(options),
+        backupRun,
+        verify = true,
+        syntaxCheck = true,
+        guardRetries = 0,
+        dryRun = false,
+        review,
+        logger = console,
+        changes,
+        usage,
+        fs = nodeFileSystem,
+        tools,
+        onToolCall,
+        ...generateOptions
+    } = options;
+    const startedAt = Date.now();
+
     /**
      * 步骤 1: 验证文件是否存在
      * 
@@ -83,7 +292,7 @@ export async function addCommentsToFile(
      * - 提前检查可以给出更友好的错误信息
      * - 避免不必要的 API 调用
      */
-    if (!existsSync(filePath)) {
+    if (!(await fs.exists(filePath))) {
         // 使用模板字符串构建错误消息
         throw new Error(`文件不存在: ${filePath}`);
     }
@@ -91,16 +300,14 @@ export async function addCommentsToFile(
     /**
      * 步骤 2: 读取文件内容
      * 
-     * readFile 是异步函数，返回 Promise<string>
+     * fs.readFile 是异步函数，返回 Promise<string>
      * await 等待文件读取完成
      * 
-     * 参数说明：
-     * - filePath: 文件路径
-     * - "utf-8": 文件编码格式
-     *   - utf-8 是最常用的文本编码
-     *   - 如果不指定，返回的是 Buffer 对象（二进制数据）
+     * 默认的 nodeFileSystem 按 utf-8 编码读取：
+     * - utf-8 是最常用的文本编码
+     * - 如果不指定编码，Node.js 返回的是 Buffer 对象（二进制数据）
      */
-    const originalCode = await readFile(filePath, "utf-8");
+    const originalCode = await fs.readFile(filePath);
 
     /**
      * 步骤 3: 验证文件不为空
@@ -116,6 +323,18 @@ export async function addCommentsToFile(
         throw new Error("文件为空，无法添加注释");
     }
 
+    // 构造处理结果（没有生成改动时 commentedCode 就是原始代码）
+    const finish = (status: FileStatus, message: string, commentedCode = originalCode): CommentResult => ({
+        filePath,
+        status,
+        message,
+        originalCode,
+        commentedCode,
+        written: status === "written",
+        durationMs: Date.now() - startedAt,
+        bytesChanged: Buffer.byteLength(commentedCode) - Buffer.byteLength(originalCode),
+    });
+
     /**
      * 步骤 4: 获取文件扩展名
      * 
@@ -127,9 +346,55 @@ export async function addCommentsToFile(
      */
     const fileExtension = extname(filePath);
 
+    /**
+     * 识别编程语言
+     * 
+     * 指定了 language（--language）时直接使用；否则按文件名、扩展名判断，
+     * 多种语言共用一个扩展名（如 .h）或没有扩展名的脚本再参考文件内容
+     */
+    const language = generateOptions.language ?? detectLanguage(filePath, originalCode);
+    generateOptions.language = language;
+    // 设置了 importTokens（--imports）时，按文件路径解析相对路径的导入
+    generateOptions.filePath = filePath;
+
     // 输出处理进度信息，让用户知道程序在运行
-    console.log(`正在为文件 ${filePath} 生成注释...`);
-    console.log(`检测到文件类型: ${fileExtension || "未知"}`);
+    logger.log(generateOptions.refresh
+        ? `正在检查文件 ${filePath} 中过时的注释...`
+        : `正在为文件 ${filePath} 生成注释...`);
+    logger.log(`检测到语言: ${language}${fileExtension ? `（${fileExtension}）` : ""}`);
+    if (generateOptions.mode === "structured" && !supportsStructuredMode(fileExtension)) {
+        logger.log(`  ${filePath}: 结构化模式暂不支持 ${fileExtension || "该类型"} 文件，改用 rewrite 模式`);
+    }
+
+    /**
+     * 增量模式（--since / --staged）：把 git diff 中改动的行映射到所在的声明，
+     * 只把这些区域交给模型；没有改动的文件直接跳过
+     */
+    if (changes) {
+        const changed = await changedLineRanges(filePath, changes);
+        const regions = findEnclosingRegions(originalCode, language, changed);
+        if (regions.length === 0) {
+            return finish("skipped", `文件 ${filePath} ${describeTarget(changes)}没有改动，已跳过`);
+        }
+        logger.log(`  ${filePath}: 只处理改动涉及的 ${regions.length} 个区域`);
+        generateOptions.regions = regions;
+    }
+
+    // 统计这个文件的用量（包括代码保护校验失败后的重试）
+    if (usage) {
+        generateOptions.provider = usage.meter(generateOptions.provider ?? createProvider(), filePath);
+    }
+
+    // 工具调用循环套在用量统计之外，循环中的每一轮请求都计入这个文件的用量
+    if (tools) {
+        generateOptions.provider = tools.attach(generateOptions.provider ?? createProvider(), {
+            filePath: relative(tools.root, resolve(filePath)).split(sep).join("/"),
+            onToolCall: (call) => {
+                logger.log(`  ${filePath}: 调用工具 ${call.name} ${call.arguments}`);
+                onToolCall?.(call);
+            },
+        });
+    }
 
     /**
      * 步骤 5: 调用 AI 生成注释
@@ -141,35 +406,104 @@ export async function addCommentsToFile(
      * - 需要捕获错误并给出清晰的错误信息
      */
     let commentedCode: string;  // 声明变量，类型是 string
+    let verifiedCode: string;   // 通过了校验的代码（范围过滤和审阅之前）
     try {
-        // 调用 AI Agent 生成注释
-        // 传入原始代码和文件扩展名
-        commentedCode = await generateComments(originalCode, fileExtension);
+        // 调用 AI Agent 生成注释，并校验模型没有改动代码本身
+        commentedCode = await generateVerifiedComments(
+            filePath,
+            originalCode,
+            fileExtension,
+            generateOptions,
+            { verify, syntaxCheck, retries: guardRetries },
+            logger
+        );
+        verifiedCode = commentedCode;
     } catch (error) {
         // 错误处理：提取错误消息
         const errorMsg = error instanceof Error ? error.message : String(error);
-        console.error(`生成注释失败: ${errorMsg}`);
+        logger.error(`生成注释失败: ${errorMsg}`);
         // 重新抛出错误，让调用者知道失败了
         throw error;
     }
 
     /**
-     * 步骤 6: 创建备份文件（如果需要）
+     * 按注释范围过滤（--scope / --no-inline）
+     * 
+     * 只保留范围内声明的文档注释（以及允许时的行内注释），模型多加的注释直接丢掉
+     */
+    const restricted = restrictToScope(originalCode, commentedCode, fileExtension, {
+        scope: generateOptions.scope ?? "all",
+        inline: generateOptions.inline ?? true,
+    });
+    if (restricted === null) {
+        logger.log(`  ${filePath}: 暂不支持按范围过滤 ${fileExtension} 文件，仅通过提示词限制注释范围`);
+    } else {
+        commentedCode = restricted;
+    }
+
+    /**
+     * 没有任何改动（例如 refresh 没有找到过时的注释）时，不写入文件，也不创建备份
+     */
+    if (commentedCode === originalCode) {
+        return finish("unchanged", `文件 ${filePath} 没有需要修改的注释`);
+    }
+
+    /**
+     * 审阅（可选）：由用户决定接受哪些改动
+     * 
+     * 一个改动都没有接受时，文件保持原样，也不创建备份
+     */
+    if (review) {
+        commentedCode = await review(filePath, originalCode, commentedCode);
+        if (commentedCode === originalCode) {
+            return finish("unchanged", `未接受任何改动，文件 ${filePath} 保持不变`);
+        }
+    }
+
+    /**
+     * 范围过滤和审阅（只接受部分改动、在编辑器中修改）都发生在校验之后，
+     * 最终的代码有变化时再校验一次，保证写入（和 dry-run 输出）的内容同样通过检查
+     */
+    if (commentedCode !== verifiedCode) {
+        await verifyFinalCode(
+            filePath,
+            originalCode,
+            commentedCode,
+            language,
+            fileExtension,
+            { verify, syntaxCheck },
+            logger
+        );
+    }
+
+    /**
+     * dry-run 模式：到这里为止，不写入任何文件
+     * 
+     * 生成的代码通过返回值交给调用方，用于输出 diff 或 patch
+     */
+    if (dryRun) {
+        return finish(
+            "dry-run",
+            `[dry-run] 已为文件 ${filePath} ${generateOptions.refresh ? "更新注释" : "生成注释"}（未写入）`,
+            commentedCode
+        );
+    }
+
+    /**
+     * 步骤 6: 创建备份（如果需要）
      * 
      * 为什么要备份？
-     * - 安全：如果 AI 生成的内容有问题，可以恢复
+     * - 安全：如果 AI 生成的内容有问题，可以用 restore 命令撤销
      * - 用户可能想对比原始代码和带注释的代码
      * 
-     * 备份文件命名：
-     * - 原文件: "src/example.ts"
-     * - 备份文件: "src/example.ts.backup"
+     * 备份不再写在源文件旁边，而是放进本次运行的目录：
+     * - 原始内容: ".collie/backups/<run-id>/files/0001-example.ts"
+     * - 清单: ".collie/backups/<run-id>/manifest.json"（记录修改前后的哈希）
      */
     if (backup) {
-        // 构建备份文件路径
-        const backupPath = `${filePath}.backup`;
-        // 写入原始代码到备份文件
-        await writeFile(backupPath, originalCode, "utf-8");
-        console.log(`已创建备份文件: ${backupPath}`);
+        const run = backupRun ?? new BackupRun();
+        const backupPath = await run.backup(filePath, originalCode, commentedCode);
+        logger.log(`已创建备份: ${relative(process.cwd(), backupPath)}`);
     }
 
     /**
@@ -178,10 +512,141 @@ export async function addCommentsToFile(
      * writeFile 会覆盖原文件
      * 这就是为什么需要备份的原因
      */
-    await writeFile(filePath, commentedCode, "utf-8");
+    await fs.writeFile(filePath, commentedCode);
 
-    // 返回成功消息
-    return `成功为文件 ${filePath} 添加注释！`;
+    // 返回成功结果
+    return finish(
+        "written",
+        `成功为文件 ${filePath} ${generateOptions.refresh ? "更新注释" : "添加注释"}！`,
+        commentedCode
+    );
+}
+
+/**
+ * 生成注释并做代码保护校验和语法检查
+ * 
+ * 流程：
+ * 1. 调用 generateComments 生成带注释的代码
+ * 2. 用 verifyCodePreserved 比较去掉注释和空白后的 token 序列
+ * 3. 用 checkSyntax 检查加注释之后有没有新的语法错误（例如没有闭合的 /*）
+ * 4. 任一项失败时打印报告；还有重试次数就换成严格提示词重新生成，
+ *    否则抛出 CodeChangedError / SyntaxCheckError
+ * 5. 通过之后才把这次尝试的模型响应写入缓存，被拒绝的输出不会在重新运行时被原样拿回
+ * 
+ * @param filePath - 文件路径（只用于输出信息）
+ * @param originalCode - 原始代码
+ * @param fileExtension - 文件扩展名
+ * @param generateOptions - 传给 generateComments 的参数
+ * @param guard - 是否校验、是否检查语法，以及失败后的重试次数
+ * @param logger - 日志输出
+ * @returns 通过校验的带注释代码
+ * @throws CodeChangedError - 所有尝试都修改了代码时抛出
+ * @throws SyntaxCheckError - 所有尝试都引入了语法错误时抛出
+ */
+async function generateVerifiedComments(
+    filePath: string,
+    originalCode: string,
+    fileExtension: string,
+    generateOptions: GenerateOptions,
+    guard: { verify: boolean; syntaxCheck: boolean; retries: number },
+    logger: Logger
+): Promise<string> {
+    const language = generateOptions.language ?? detectLanguage(filePath, originalCode);
+
+    for (let attempt = 0; ; attempt++) {
+        // 这次尝试的响应先不写入缓存（没有传入 Provider 时 generateComments 自己创建，不使用缓存）
+        const pending = generateOptions.provider && new PendingResponses(generateOptions.provider);
+
+        // 第一次之后的尝试都使用严格提示词
+        const commentedCode = await generateComments(originalCode, fileExtension, {
+            ...generateOptions,
+            // 大文件会被分段处理，每开始一段输出一次进度
+            onChunk: (index, total) => {
+                if (total > 1) {
+                    logger.log(`  ${filePath}: 正在处理片段 ${index + 1}/${total}...`);
+                }
+                generateOptions.onChunk?.(index, total);
+            },
+            provider: pending,
+            strict: generateOptions.strict || attempt > 0,
+        });
+
+        if (guard.verify) {
+            const report = verifyCodePreserved(originalCode, commentedCode, language, fileExtension);
+            if (report.skipped) {
+                logger.log(`  暂不支持校验 ${language} 代码，已跳过代码保护校验`);
+            } else if (!report.ok) {
+                logger.error(
+                    `${filePath}: 模型修改了注释以外的代码（第 ${attempt + 1} 次尝试）:\n${formatGuardReport(report)}`
+                );
+                if (attempt >= guard.retries) {
+                    throw new CodeChangedError(
+                        `模型修改了注释以外的代码，已拒绝写入 ${filePath}`,
+                        report
+                    );
+                }
+                logger.log(`  ${filePath}: 使用更严格的提示词重试...`);
+                continue;
+            }
+        }
+
+        /**
+         * 语法检查：代码没有被改动，但注释本身可能让文件无法解析
+         * （例如没有闭合的块注释），只看加注释之后新出现的错误
+         */
+        if (guard.syntaxCheck) {
+            const syntax = await checkSyntax(originalCode, commentedCode, language, fileExtension);
+            if (!syntax.skipped && syntax.introduced.length > 0) {
+                const details = formatSyntaxDiagnostics(syntax.introduced);
+                logger.error(`${filePath}: 加注释之后出现了语法错误（第 ${attempt + 1} 次尝试）:\n${details}`);
+                if (attempt >= guard.retries) {
+                    throw new SyntaxCheckError(
+                        `加注释之后文件无法通过语法检查，已拒绝写入 ${filePath}`,
+                        syntax.introduced
+                    );
+                }
+                logger.log(`  ${filePath}: 使用更严格的提示词重试...`);
+                continue;
+            }
+        }
+
+        await pending?.commit();
+        return commentedCode;
+    }
+}
+
+/**
+ * 校验最终要写入的代码
+ *
+ * 和 generateVerifiedComments 做同样的代码保护校验和语法检查，但不会重试：
+ * 这时的改动来自范围过滤或用户的审阅，重新请求模型也无法修正
+ *
+ * @throws CodeChangedError - 最终的代码修改了注释以外的内容时抛出
+ * @throws SyntaxCheckError - 最终的代码引入了语法错误时抛出
+ */
+async function verifyFinalCode(
+    filePath: string,
+    originalCode: string,
+    code: string,
+    language: string,
+    fileExtension: string,
+    guard: { verify: boolean; syntaxCheck: boolean },
+    logger: Logger
+): Promise<void> {
+    if (guard.verify) {
+        const report = verifyCodePreserved(originalCode, code, language, fileExtension);
+        if (!report.skipped && !report.ok) {
+            logger.error(`${filePath}: 最终的代码修改了注释以外的内容:\n${formatGuardReport(report)}`);
+            throw new CodeChangedError(`最终的代码修改了注释以外的内容，已拒绝写入 ${filePath}`, report);
+        }
+    }
+    if (guard.syntaxCheck) {
+        const syntax = await checkSyntax(originalCode, code, language, fileExtension);
+        if (!syntax.skipped && syntax.introduced.length > 0) {
+            logger.error(`${filePath}: 最终的代码出现了语法错误:\n${formatSyntaxDiagnostics(syntax.introduced)}`);
+            throw new SyntaxCheckError(`最终的代码无法通过语法检查，已拒绝写入 ${filePath}`, syntax.introduced);
+        }
+    }
 }
 
 /**
@@ -191,76 +656,97 @@ export async function addCommentsToFile(
  * 
  * 使用场景：
  * - 用户输入多个文件：comment file1.ts file2.js file3.py
- * - 需要逐个处理，并收集所有结果
+ * - 可以通过 concurrency 同时处理多个文件，结果仍按输入顺序返回
  * 
  * @param filePaths - 文件路径数组（例如：["file1.ts", "file2.js"]）
- * @param backup - 是否创建备份文件（默认 true）
- * @returns Promise<string[]> - 处理结果数组，每个元素是成功或错误消息
+ * @param options - 处理选项，对每个文件都相同；concurrency 控制并发数
+ * @returns Promise<CommentResult[]> - 处理结果数组，与输入顺序一致
  * 
  * 类型说明：
- * - string[] 表示字符串数组
- * - Promise<string[]> 表示返回一个 Promise，解析后得到字符串数组
+ * - CommentResult[] 表示处理结果数组
+ * - Promise<CommentResult[]> 表示返回一个 Promise，解析后得到结果数组
  */
 export async function addCommentsToFiles(
     filePaths: string[],
-    backup: boolean = true
-): Promise<string[]> {
-    /**
-     * 初始化结果数组
-     * 
-     * const results: string[] = []
-     * - const: 常量声明（数组内容可以改变，但变量不能重新赋值）
-     * - results: 变量名
-     * - : string[]: TypeScript 类型注解，表示这是字符串数组
-     * - = []: 初始化为空数组
-     */
-    const results: string[] = [];
+    options: BatchOptions = {}
+): Promise<CommentResult[]> {
+    const {
+        concurrency = 1,
+        onFileStart,
+        onFileDone,
+        onFileDelta,
+        onFileDeltaReset,
+        onFileChunk,
+        onFileError,
+        onFileToolCall,
+        ...fileOptions
+    } = options;
+
+    // 同一批文件的备份放在同一次运行里，restore 时可以一起撤销
+    if (backupEnabled(fileOptions) && !fileOptions.backupRun) {
+        fileOptions.backupRun = new BackupRun();
+    }
 
     /**
-     * 遍历文件路径数组
+     * 使用任务池并发处理
      * 
-     * for...of 循环：
-     * - 这是 ES6 的语法，用于遍历可迭代对象（数组、字符串等）
-     * - for (const filePath of filePaths) 表示：
-     *   遍历 filePaths 数组，每次循环将当前元素赋值给 filePath
+     * runPool 会启动 concurrency 个 worker，每个 worker 处理完一个文件再领取下一个；
+     * 返回的结果数组与 filePaths 的顺序一致，与完成的先后无关
      * 
-     * 为什么用 for...of 而不是 forEach？
-     * - for...of 支持 await，可以等待异步操作完成
-     * - forEach 不支持 await，无法正确处理异步函数
+     * 所有 worker 共用同一个 provider，所以 provider 上的限流对所有文件生效
      */
-    for (const filePath of filePaths) {
+    return runPool(filePaths, concurrency, async (filePath) => {
+        onFileStart?.(filePath);
+        const startedAt = Date.now();
+
         /**
          * 处理单个文件
          * 
          * 每个文件单独用 try-catch 包裹
          * 这样即使某个文件失败，也不会影响其他文件的处理
          */
+        let result: CommentResult;
         try {
+            // 超出费用上限后，剩下的文件都不再处理
+            if (fileOptions.usage?.stopped) {
+                throw new BudgetExceededError("已达到费用上限，跳过");
+            }
             // 调用单文件处理函数
-            const result = await addCommentsToFile(filePath, backup);
-            // 将成功消息添加到结果数组
-            results.push(result);
+            result = await addCommentsToFile(filePath, {
+                ...fileOptions,
+                onDelta: onFileDelta ? (delta) => onFileDelta(filePath, delta) : fileOptions.onDelta,
+                onDeltaReset: onFileDeltaReset
+                    ? (discarded) => onFileDeltaReset(filePath, discarded)
+                    : fileOptions.onDeltaReset,
+                onChunk: onFileChunk ? (index, total) => onFileChunk(filePath, index, total) : fileOptions.onChunk,
+                onToolCall: onFileToolCall ? (call) => onFileToolCall(filePath, call) : fileOptions.onToolCall,
+            });
         } catch (error) {
             /**
              * 如果处理失败，捕获错误
              * 
-             * 不抛出错误，而是将错误信息添加到结果数组
+             * 不抛出错误，而是将错误信息放进结果
              * 这样可以让用户知道哪些文件成功，哪些失败
              */
             const errorMsg = error instanceof Error ? error.message : String(error);
-            // 将错误消息添加到结果数组
-            results.push(`处理 ${filePath} 时出错: ${errorMsg}`);
+            onFileError?.(filePath, error instanceof Error ? error : new Error(errorMsg));
+            result = {
+                filePath,
+                status: "failed",
+                message: `处理 ${filePath} 时出错: ${errorMsg}`,
+                written: false,
+                error: errorMsg,
+                errorKind: error instanceof Error ? error.name : "Error",
+                durationMs: Date.now() - startedAt,
+                bytesChanged: 0,
+            };
         }
-    }
 
-    /**
-     * 返回所有处理结果
-     * 
-     * results 数组包含：
-     * - 成功消息：如 "成功为文件 xxx 添加注释！"
-     * - 错误消息：如 "处理 xxx 时出错: ..."
-     * 
-     * 调用者可以根据结果判断哪些文件处理成功，哪些失败
-     */
-    return results;
+        if (fileOptions.usage) {
+            result.usage = fileOptions.usage.forFile(filePath);
+        }
+
+        onFileDone?.(result);
+        return result;
+    });
 }
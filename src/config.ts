@@ -0,0 +1,496 @@
+/**
+ * 配置文件模块
+ *
+ * 除了命令行参数，还可以通过配置文件设置 provider、模型、采样参数、并发数等：
+ * - 项目配置：从当前目录向上查找 .collierc / .collierc.json / collie.config.json，使用找到的第一个
+ * - 用户配置：$XDG_CONFIG_HOME/collie/config.json（默认 ~/.config/collie/config.json）或 ~/.collierc
+ *
+ * 配置文件使用 JSON 格式，读取后按 CONFIG_SCHEMA 校验，未知字段和类型错误都会报错。
+ *
+ * 优先级（从高到低）：命令行参数 > 环境变量（COLLIE_*）> 项目配置 > 用户配置 > 内置默认值
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import { CollieError } from "./errors.js";
+import { PROVIDER_NAMES, ProviderName } from "./providers.js";
+import { DOC_SCOPES, DocScope } from "./scope.js";
+import { COMMENT_MODES, CommentMode } from "./structured.js";
+import { DEFAULT_COMMENT_LANG, DOC_STYLES, DocStyle } from "./styles.js";
+import { PriceTable } from "./usage.js";
+import { LanguageDefinition } from "./languages.js";
+import { DEFAULT_TOOL_ITERATIONS, DEFAULT_TOOL_TOKENS } from "./tools.js";
+import { DEFAULT_IMPORT_TOKENS } from "./imports.js";
+
+/**
+ * 可以通过配置文件设置的全部选项
+ *
+ * 字段名与 comment 命令的选项一致（--max-tokens 对应 maxTokens）
+ */
+export interface CollieConfig {
+    provider?: ProviderName;
+    model?: string;
+    baseUrl?: string;
+    temperature?: number;
+    maxTokens?: number;
+    chunkTokens?: number;
+    timeout?: number;
+    retries?: number;
+    lang?: string;
+    style?: DocStyle;
+    scope?: DocScope;
+    inline?: boolean;
+    mode?: CommentMode;
+    include?: string[];
+    exclude?: string[];
+    concurrency?: number;
+    rpm?: number;
+    tpm?: number;
+    backup?: boolean;
+    verify?: boolean;
+    syntaxCheck?: boolean;
+    guardRetries?: number;
+    cache?: boolean;
+    maxCost?: number;
+    prices?: PriceTable;
+    languages?: LanguageDefinition[];
+    tools?: boolean;
+    toolIterations?: number;
+    toolTokens?: number;
+    imports?: boolean;
+    importTokens?: number;
+}
+
+export type ConfigKey = keyof CollieConfig;
+
+/**
+ * 配置值的来源
+ *
+ * - kind: 来源类型
+ * - detail: 具体位置（环境变量名或配置文件路径）
+ */
+export interface ConfigSource {
+    kind: "cli" | "env" | "project" | "user" | "default";
+    detail?: string;
+}
+
+/**
+ * 合并后的配置
+ *
+ * - values: 每个选项的最终取值
+ * - sources: 每个选项的取值来自哪里（没有设置的选项不在其中）
+ */
+export interface ResolvedConfig {
+    values: CollieConfig;
+    sources: Partial<Record<ConfigKey, ConfigSource>>;
+}
+
+/**
+ * 配置文件格式错误、字段未知或取值非法
+ */
+export class ConfigError extends CollieError {}
+
+/**
+ * 单个字段的校验规则
+ *
+ * - type: 值的类型（"integer" 为整数，"string[]" 为字符串数组，"prices" 为模型价格表，"languages" 为语言定义列表）
+ * - values: 允许的取值（枚举）
+ * - min / max: 数值范围
+ * - description: 说明（用于 config show）
+ */
+interface FieldSpec {
+    type: "string" | "number" | "integer" | "boolean" | "string[]" | "prices" | "languages";
+    values?: readonly string[];
+    min?: number;
+    max?: number;
+    description: string;
+}
+
+/**
+ * 配置项的校验规则
+ *
+ * 这里的顺序也是 config show 的输出顺序
+ */
+export const CONFIG_SCHEMA: Record<ConfigKey, FieldSpec> = {
+    provider: { type: "string", values: PROVIDER_NAMES, description: "LLM 服务" },
+    model: { type: "string", description: "模型名称" },
+    baseUrl: { type: "string", description: "服务地址" },
+    temperature: { type: "number", min: 0, max: 2, description: "采样温度" },
+    maxTokens: { type: "integer", min: 1, description: "每次请求的最大生成 token 数" },
+    chunkTokens: { type: "integer", min: 1, description: "大文件分段时每段的 token 预算" },
+    timeout: { type: "integer", min: 1, description: "单次请求的超时时间（秒）" },
+    retries: { type: "integer", min: 0, description: "请求失败后的最大重试次数" },
+    lang: { type: "string", description: "注释使用的自然语言（如 zh、en）" },
+    style: { type: "string", values: DOC_STYLES, description: "文档注释风格（默认取决于编程语言）" },
+    scope: { type: "string", values: DOC_SCOPES, description: "注释范围" },
+    inline: { type: "boolean", description: "是否添加函数体内的行内注释" },
+    mode: { type: "string", values: COMMENT_MODES, description: "生成模式" },
+    include: { type: "string[]", description: "只处理匹配的文件" },
+    exclude: { type: "string[]", description: "跳过匹配的文件" },
+    concurrency: { type: "integer", min: 1, description: "同时处理的文件数" },
+    rpm: { type: "integer", min: 1, description: "每分钟最多发起的请求数" },
+    tpm: { type: "integer", min: 1, description: "每分钟最多消耗的 token 数" },
+    backup: { type: "boolean", description: "写入前是否创建备份" },
+    verify: { type: "boolean", description: "是否进行代码保护校验" },
+    syntaxCheck: { type: "boolean", description: "写入前是否检查加注释之后没有引入语法错误" },
+    guardRetries: { type: "integer", min: 0, description: "代码保护校验或语法检查失败后的重试次数" },
+    cache: { type: "boolean", description: "是否使用本地响应缓存" },
+    maxCost: { type: "number", min: 0, description: "本次运行的费用上限（美元）" },
+    prices: { type: "prices", description: "模型价格（美元 / 百万 token），覆盖内置价格" },
+    languages: { type: "languages", description: "添加或覆盖的编程语言定义" },
+    tools: { type: "boolean", description: "是否允许模型调用只读工具查看项目中的其他文件" },
+    toolIterations: { type: "integer", min: 1, description: "每次请求最多调用几轮工具" },
+    toolTokens: { type: "integer", min: 1, description: "每次请求中工具输出的 token 总数上限" },
+    imports: { type: "boolean", description: "是否在提示词中附带被导入模块的签名和文档注释" },
+    importTokens: { type: "integer", min: 1, description: "被导入模块的声明的 token 总数上限" },
+};
+
+/**
+ * 内置默认值
+ *
+ * 只列出与 provider 无关的默认值；模型和服务地址的默认值取决于 provider，由 providers.ts 决定
+ */
+const DEFAULT_CONFIG: CollieConfig = {
+    provider: "dashscope",
+    temperature: 0.3,
+    maxTokens: 2000,
+    timeout: 120,
+    retries: 3,
+    lang: DEFAULT_COMMENT_LANG,
+    scope: "all",
+    inline: true,
+    mode: "rewrite",
+    concurrency: 1,
+    backup: true,
+    verify: true,
+    syntaxCheck: true,
+    guardRetries: 0,
+    cache: true,
+    tools: false,
+    toolIterations: DEFAULT_TOOL_ITERATIONS,
+    toolTokens: DEFAULT_TOOL_TOKENS,
+    imports: false,
+    importTokens: DEFAULT_IMPORT_TOKENS,
+};
+
+/**
+ * 项目配置文件名（按优先级排列）
+ */
+const PROJECT_CONFIG_FILES = [".collierc", ".collierc.json", "collie.config.json"];
+
+/**
+ * 配置项对应的环境变量名
+ *
+ * 由字段名转换而来：maxTokens → COLLIE_MAX_TOKENS
+ */
+export function envVarName(key: ConfigKey): string {
+    return "COLLIE_" + key.replace(/[A-Z]/g, (c) => "_" + c).toUpperCase();
+}
+
+/**
+ * 校验一个配置值
+ *
+ * @param key - 字段名
+ * @param value - 原始值（来自 JSON）
+ * @param where - 值的来源，用于错误信息
+ * @returns 校验通过的值
+ */
+function validateField(key: ConfigKey, value: unknown, where: string): unknown {
+    const spec = CONFIG_SCHEMA[key];
+    const fail = (expected: string) =>
+        new ConfigError(`${where}: ${key} 需要${expected}，收到: ${JSON.stringify(value)}`);
+
+    switch (spec.type) {
+        case "boolean":
+            if (typeof value !== "boolean") throw fail("布尔值");
+            return value;
+        case "string[]":
+            if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+                throw fail("字符串数组");
+            }
+            return value;
+        case "prices": {
+            // { "模型名": { "input": 输入价格, "output": 输出价格 } }
+            const isPrice = (price: unknown) =>
+                typeof price === "object" && price !== null &&
+                ["input", "output"].every((field) => {
+                    const n = (price as Record<string, unknown>)[field];
+                    return typeof n === "number" && Number.isFinite(n) && n >= 0;
+                });
+            if (typeof value !== "object" || value === null || Array.isArray(value) ||
+                !Object.values(value).every(isPrice)) {
+                throw fail(' { "模型名": { "input": 数字, "output": 数字 } } 形式的价格表');
+            }
+            return value;
+        }
+        case "languages": {
+            if (!Array.isArray(value)) {
+                throw fail("语言定义数组");
+            }
+            value.forEach((entry, i) => {
+                const problem = checkLanguageDefinition(entry);
+                if (problem) {
+                    throw new ConfigError(`${where}: languages[${i}] ${problem}`);
+                }
+            });
+            return value;
+        }
+        case "string":
+            if (typeof value !== "string" || value === "") throw fail("非空字符串");
+            if (spec.values && !spec.values.includes(value)) {
+                throw fail(`以下值之一（${spec.values.join(", ")}）`);
+            }
+            return value;
+        case "number":
+        case "integer": {
+            const label = spec.type === "integer" ? "整数" : "数字";
+            if (typeof value !== "number" || !Number.isFinite(value)) throw fail(label);
+            if (spec.type === "integer" && !Number.isInteger(value)) throw fail(label);
+            if (spec.min !== undefined && value < spec.min) throw fail(`不小于 ${spec.min} 的${label}`);
+            if (spec.max !== undefined && value > spec.max) throw fail(`不大于 ${spec.max} 的${label}`);
+            return value;
+        }
+    }
+}
+
+/**
+ * 检查一个语言定义
+ *
+ * { "name": "语言名", "extensions": [".ext"], "filenames": [...], "shebangs": [...],
+ *   "contentPatterns": [...], "lineComments": [...], "blockComments": [["开始", "结束"]], "docStyle": "jsdoc" }
+ *
+ * @returns 问题描述；没有问题时返回 undefined
+ */
+function checkLanguageDefinition(entry: unknown): string | undefined {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+        return "需要是一个对象";
+    }
+    const definition = entry as Record<string, unknown>;
+    const isStrings = (value: unknown) =>
+        Array.isArray(value) && value.every((item) => typeof item === "string" && item !== "");
+
+    if (typeof definition.name !== "string" || !/^[\w#+.-]+$/.test(definition.name)) {
+        return `的 name 需要是不含空白的非空字符串，收到: ${JSON.stringify(definition.name)}`;
+    }
+    const known = ["name", "extensions", "filenames", "shebangs", "contentPatterns", "lineComments", "blockComments", "docStyle"];
+    const unknown = Object.keys(definition).find((key) => !known.includes(key));
+    if (unknown) {
+        return `包含未知的字段 ${unknown}（可用字段: ${known.join(", ")}）`;
+    }
+    for (const field of ["extensions", "filenames", "shebangs", "contentPatterns", "lineComments"]) {
+        if (definition[field] !== undefined && !isStrings(definition[field])) {
+            return `的 ${field} 需要是非空字符串数组`;
+        }
+    }
+    if ((definition.extensions as string[] | undefined)?.some((ext) => !ext.startsWith("."))) {
+        return "的 extensions 需要以点开头（如 \".vue\"）";
+    }
+    for (const field of ["shebangs", "contentPatterns"]) {
+        for (const pattern of (definition[field] as string[] | undefined) ?? []) {
+            try {
+                new RegExp(pattern);
+            } catch {
+                return `的 ${field} 中有不合法的正则表达式: ${pattern}`;
+            }
+        }
+    }
+    if (definition.blockComments !== undefined &&
+        !(Array.isArray(definition.blockComments) &&
+            definition.blockComments.every((pair) => isStrings(pair) && (pair as string[]).length === 2))) {
+        return "的 blockComments 需要是 [[\"开始\", \"结束\"]] 形式的数组";
+    }
+    if (definition.docStyle !== undefined && !DOC_STYLES.includes(definition.docStyle as DocStyle)) {
+        return `的 docStyle 需要是以下值之一（${DOC_STYLES.join(", ")}）`;
+    }
+    return undefined;
+}
+
+/**
+ * 校验整个配置对象
+ *
+ * @param data - JSON.parse 得到的对象
+ * @param where - 配置文件路径，用于错误信息
+ */
+export function validateConfig(data: unknown, where: string): CollieConfig {
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new ConfigError(`${where}: 配置文件的顶层必须是一个对象`);
+    }
+
+    const config: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+        if (!(key in CONFIG_SCHEMA)) {
+            throw new ConfigError(
+                `${where}: 未知的配置项 "${key}"（可用的配置项: ${Object.keys(CONFIG_SCHEMA).join(", ")}）`
+            );
+        }
+        config[key] = validateField(key as ConfigKey, value, where);
+    }
+    return config as CollieConfig;
+}
+
+/**
+ * 读取并校验一个配置文件
+ */
+function readConfigFile(path: string): CollieConfig {
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error) {
+        throw new ConfigError(
+            `无法读取配置文件 ${path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    return validateConfig(data, path);
+}
+
+/**
+ * 获取用户配置文件路径
+ *
+ * @returns 存在的用户配置文件路径；都不存在时返回 undefined
+ */
+export function findUserConfig(): string | undefined {
+    const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+    const candidates = [join(configHome, "collie", "config.json"), join(homedir(), ".collierc")];
+    return candidates.find((path) => existsSync(path));
+}
+
+/**
+ * 从 startDir 向上查找项目配置文件
+ *
+ * 用户主目录下的 ~/.collierc 是用户配置，不会被当作项目配置
+ *
+ * @returns 找到的第一个配置文件路径；没有时返回 undefined
+ */
+export function findProjectConfig(startDir: string = process.cwd()): string | undefined {
+    const userConfig = findUserConfig();
+    let dir = resolve(startDir);
+
+    for (;;) {
+        for (const name of PROJECT_CONFIG_FILES) {
+            const path = join(dir, name);
+            if (path !== userConfig && existsSync(path)) {
+                return path;
+            }
+        }
+        const parent = dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * 从环境变量读取配置
+ *
+ * 环境变量都是字符串，这里按字段类型转换后再校验；
+ * 数组类型的字段用逗号分隔（COLLIE_EXCLUDE="dist/**,*.test.ts"），价格表使用 JSON
+ */
+function readEnvConfig(): { config: CollieConfig; names: Partial<Record<ConfigKey, string>> } {
+    const config: Record<string, unknown> = {};
+    const names: Partial<Record<ConfigKey, string>> = {};
+
+    for (const key of Object.keys(CONFIG_SCHEMA) as ConfigKey[]) {
+        const name = envVarName(key);
+        const raw = process.env[name];
+        if (raw === undefined || raw === "") {
+            continue;
+        }
+
+        let value: unknown = raw;
+        switch (CONFIG_SCHEMA[key].type) {
+            case "number":
+            case "integer":
+                value = Number(raw);
+                break;
+            case "boolean":
+                value = ["1", "true", "yes"].includes(raw.toLowerCase())
+                    ? true
+                    : ["0", "false", "no"].includes(raw.toLowerCase())
+                        ? false
+                        : raw;
+                break;
+            case "string[]":
+                value = raw.split(",").map((item) => item.trim()).filter(Boolean);
+                break;
+            case "prices":
+            case "languages":
+                try {
+                    value = JSON.parse(raw);
+                } catch {
+                    // 保留原始字符串，交给 validateField 报错
+                }
+                break;
+            case "string":
+                if (["provider", "style", "scope", "mode"].includes(key)) value = raw.toLowerCase();
+                break;
+        }
+
+        config[key] = validateField(key, value, `环境变量 ${name}`);
+        names[key] = name;
+    }
+
+    return { config: config as CollieConfig, names };
+}
+
+/**
+ * 合并各层配置
+ *
+ * 依次应用默认值、用户配置、项目配置、环境变量和命令行参数，后应用的覆盖先应用的，
+ * 同时记录每个选项最终来自哪一层
+ *
+ * @param cli - 命令行中显式给出的选项（未给出的选项不要放进来）
+ * @param cwd - 查找项目配置的起始目录
+ * @returns 合并后的配置和每个选项的来源
+ */
+export function resolveConfig(cli: CollieConfig = {}, cwd: string = process.cwd()): ResolvedConfig {
+    const resolved: ResolvedConfig = { values: {}, sources: {} };
+
+    const apply = (config: CollieConfig, source: (key: ConfigKey) => ConfigSource) => {
+        for (const [key, value] of Object.entries(config) as [ConfigKey, unknown][]) {
+            if (value === undefined) continue;
+            (resolved.values as Record<string, unknown>)[key] = value;
+            resolved.sources[key] = source(key);
+        }
+    };
+
+    apply(DEFAULT_CONFIG, () => ({ kind: "default" }));
+
+    const userPath = findUserConfig();
+    if (userPath) {
+        apply(readConfigFile(userPath), () => ({ kind: "user", detail: userPath }));
+    }
+
+    const projectPath = findProjectConfig(cwd);
+    if (projectPath) {
+        apply(readConfigFile(projectPath), () => ({ kind: "project", detail: projectPath }));
+    }
+
+    const env = readEnvConfig();
+    apply(env.config, (key) => ({ kind: "env", detail: env.names[key] }));
+
+    apply(cli, () => ({ kind: "cli" }));
+
+    return resolved;
+}
+
+/**
+ * 把配置来源格式化成一段说明文字
+ */
+export function describeSource(source: ConfigSource | undefined): string {
+    switch (source?.kind) {
+        case "cli":
+            return "命令行参数";
+        case "env":
+            return `环境变量 ${source.detail}`;
+        case "project":
+            return `项目配置 ${source.detail}`;
+        case "user":
+            return `用户配置 ${source.detail}`;
+        case "default":
+            return "默认值";
+        default:
+            return "未设置";
+    }
+}
@@ -0,0 +1,337 @@
+/**
+ * 差异比较模块
+ *
+ * 实现通用的 Myers 差异算法，可以比较任意两个序列（代码行、词法 token 等），
+ * 得到"保留 / 删除 / 新增"的编辑脚本
+ */
+
+/**
+ * 编辑操作
+ *
+ * - equal: 两边相同的元素（aIndex 和 bIndex 都有效）
+ * - delete: 只在 a 中出现的元素（只有 aIndex 有效）
+ * - insert: 只在 b 中出现的元素（只有 bIndex 有效）
+ */
+export interface EditOp {
+    type: "equal" | "delete" | "insert";
+    aIndex: number;
+    bIndex: number;
+}
+
+/**
+ * 计算两个序列的最短编辑脚本（Myers O(ND) 算法）
+ *
+ * 差异很大时算法的时间和内存都会急剧增长，所以设置了 maxEdits 上限，
+ * 超过上限返回 null，调用方可以退化为更粗糙的比较
+ *
+ * @param a - 原序列
+ * @param b - 新序列
+ * @param equals - 元素比较函数
+ * @param maxEdits - 允许的最大编辑次数（删除 + 新增）
+ * @returns 按顺序排列的编辑操作；超过上限时返回 null
+ */
+export function diffSequences<T>(
+    a: T[],
+    b: T[],
+    equals: (x: T, y: T) => boolean = (x, y) => x === y,
+    maxEdits = 5000
+): EditOp[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, maxEdits);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // 每一步的 V 数组快照，用于回溯出编辑路径
+    // 第 d 步只会读取 k ∈ [-d-1, d+1] 的值，所以只保存这一段，内存约为 O(D²)
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                x = v[offset + k + 1];
+            } else {
+                x = v[offset + k - 1] + 1;
+            }
+            let y = x - k;
+            while (x < n && y < m && equals(a[x], b[y])) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+        if (found) break;
+    }
+
+    if (!found) {
+        return null;
+    }
+
+    // 从终点回溯，得到逆序的编辑操作
+    const ops: EditOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const vd = trace[d];
+        // 快照中下标 0 对应 k = -d-1
+        const at = (k: number) => vd[k + d + 1];
+        const k = x - y;
+        let prevK: number;
+        if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+            prevK = k + 1;
+        } else {
+            prevK = k - 1;
+        }
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            ops.push({ type: "equal", aIndex: x, bIndex: y });
+        }
+        if (d > 0) {
+            if (x === prevX) {
+                y--;
+                ops.push({ type: "insert", aIndex: x, bIndex: y });
+            } else {
+                x--;
+                ops.push({ type: "delete", aIndex: x, bIndex: y });
+            }
+        }
+    }
+
+    return ops.reverse();
+}
+
+/**
+ * 一个差异块（hunk）
+ *
+ * - oldStart / newStart: 在原文件 / 新文件中的起始行号（从 1 开始）
+ * - oldLines / newLines: 覆盖的行数
+ * - lines: 带前缀的行（" " 上下文、"-" 删除、"+" 新增），每行保留自己的换行符
+ */
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: string[];
+}
+
+/**
+ * 把文本拆成行，每行保留末尾的 "\n"
+ *
+ * 最后一行没有换行符时保持原样，这样"文件末尾有没有换行"也会参与比较
+ */
+export function splitLinesKeepEnds(text: string): string[] {
+    const lines = text.match(/[^\n]*\n|[^\n]+$/g);
+    return lines ?? [];
+}
+
+/**
+ * 计算两段文本的差异块
+ *
+ * @param oldText - 原文本
+ * @param newText - 新文本
+ * @param context - 每个差异块前后保留的上下文行数（git 默认为 3）
+ * @returns 差异块列表；两段文本相同时返回空数组
+ */
+export function computeHunks(oldText: string, newText: string, context = 3): DiffHunk[] {
+    const a = splitLinesKeepEnds(oldText);
+    const b = splitLinesKeepEnds(newText);
+    // 行级比较的编辑次数上限等于总行数，保证一定能得到结果
+    const ops = diffSequences(a, b, undefined, a.length + b.length)!;
+
+    // 找出所有发生变化的操作位置，按上下文距离分组
+    const changed: number[] = [];
+    ops.forEach((op, i) => {
+        if (op.type !== "equal") changed.push(i);
+    });
+    if (changed.length === 0) {
+        return [];
+    }
+
+    const groups: Array<[number, number]> = [];
+    let groupStart = changed[0];
+    let groupEnd = changed[0];
+    for (const index of changed.slice(1)) {
+        // 两处改动之间的相同行超过 2 * context 时拆成两个差异块
+        if (index - groupEnd - 1 > context * 2) {
+            groups.push([groupStart, groupEnd]);
+            groupStart = index;
+        }
+        groupEnd = index;
+    }
+    groups.push([groupStart, groupEnd]);
+
+    return groups.map(([start, end]) => {
+        const from = Math.max(0, start - context);
+        const to = Math.min(ops.length - 1, end + context);
+        const slice = ops.slice(from, to + 1);
+
+        const first = slice[0];
+        const hunk: DiffHunk = {
+            oldStart: first.aIndex + 1,
+            oldLines: 0,
+            newStart: first.bIndex + 1,
+            newLines: 0,
+            lines: [],
+        };
+        for (const op of slice) {
+            if (op.type === "equal") {
+                hunk.lines.push(" " + a[op.aIndex]);
+                hunk.oldLines++;
+                hunk.newLines++;
+            } else if (op.type === "delete") {
+                hunk.lines.push("-" + a[op.aIndex]);
+                hunk.oldLines++;
+            } else {
+                hunk.lines.push("+" + b[op.bIndex]);
+                hunk.newLines++;
+            }
+        }
+        // 按 unified diff 的约定，覆盖 0 行时起始行号指向前一行
+        if (hunk.oldLines === 0) hunk.oldStart--;
+        if (hunk.newLines === 0) hunk.newStart--;
+        return hunk;
+    });
+}
+
+/**
+ * 把差异块格式化成 unified diff 文本
+ *
+ * 输出格式与 `git diff` 相同，可以直接用 `git apply` 应用：
+ * - 路径使用 a/ 和 b/ 前缀，分隔符统一为 "/"
+ * - 没有末尾换行的行后面加 "\ No newline at end of file"
+ *
+ * @param path - 文件路径（相对于仓库根目录）
+ * @param hunks - computeHunks 的结果
+ * @returns unified diff 文本；没有差异时返回空字符串
+ */
+export function formatUnifiedDiff(path: string, hunks: DiffHunk[]): string {
+    if (hunks.length === 0) {
+        return "";
+    }
+
+    const posixPath = path.split("\\").join("/");
+    const out: string[] = [
+        `diff --git a/${posixPath} b/${posixPath}\n`,
+        `--- a/${posixPath}\n`,
+        `+++ b/${posixPath}\n`,
+    ];
+
+    for (const hunk of hunks) {
+        out.push(`@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@\n`);
+        for (const line of hunk.lines) {
+            if (line.endsWith("\n")) {
+                out.push(line);
+            } else {
+                out.push(line + "\n", "\\ No newline at end of file\n");
+            }
+        }
+    }
+
+    return out.join("");
+}
+
+/**
+ * 格式化 hunk 头中的行范围（行数为 1 时省略）
+ */
+function formatRange(start: number, count: number): string {
+    return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * 生成两段文本的 unified diff
+ *
+ * @param path - 文件路径（相对于仓库根目录）
+ * @param oldText - 原文本
+ * @param newText - 新文本
+ * @param context - 上下文行数
+ */
+export function unifiedDiff(path: string, oldText: string, newText: string, context = 3): string {
+    return formatUnifiedDiff(path, computeHunks(oldText, newText, context));
+}
+
+/**
+ * 终端是否支持颜色输出
+ *
+ * 遵循 NO_COLOR 约定（https://no-color.org），并且只在输出到终端时启用
+ */
+export function supportsColor(stream: NodeJS.WriteStream = process.stdout): boolean {
+    return !process.env.NO_COLOR && stream.isTTY === true;
+}
+
+/**
+ * 给 unified diff 文本加上 ANSI 颜色
+ *
+ * - 文件头：加粗
+ * - hunk 头：青色
+ * - 删除行：红色
+ * - 新增行：绿色
+ */
+export function colorizeDiff(diff: string): string {
+    return diff
+        .split("\n")
+        .map((line) => {
+            if (line.startsWith("diff --git") || line.startsWith("--- ") || line.startsWith("+++ ")) {
+                return `\x1b[1m${line}\x1b[0m`;
+            }
+            if (line.startsWith("@@")) return `\x1b[36m${line}\x1b[0m`;
+            if (line.startsWith("-")) return `\x1b[31m${line}\x1b[0m`;
+            if (line.startsWith("+")) return `\x1b[32m${line}\x1b[0m`;
+            return line;
+        })
+        .join("\n");
+}
+
+/**
+ * 把选中的差异块应用到原文本上
+ *
+ * 差异块必须来自同一次 computeHunks(oldText, ...) 的结果，且互不重叠；
+ * 未选中的差异块对应的位置保持原样。
+ * 适合 context = 0 计算出的差异块（每块只包含改动行）
+ *
+ * @param oldText - 原文本
+ * @param hunks - 要应用的差异块（顺序不限）
+ * @returns 应用后的文本
+ */
+export function applyHunks(oldText: string, hunks: DiffHunk[]): string {
+    const lines = splitLinesKeepEnds(oldText);
+    const sorted = [...hunks].sort((x, y) => x.oldStart - y.oldStart);
+    const out: string[] = [];
+    let cursor = 0;
+
+    for (const hunk of sorted) {
+        // oldLines 为 0 时 oldStart 指向插入位置的前一行
+        const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+        out.push(...lines.slice(cursor, start));
+
+        let consumed = 0;
+        for (const line of hunk.lines) {
+            const body = line.slice(1);
+            if (line[0] === "+") {
+                out.push(body);
+            } else if (line[0] === " ") {
+                out.push(lines[start + consumed]);
+                consumed++;
+            } else {
+                consumed++;
+            }
+        }
+        cursor = start + consumed;
+    }
+    out.push(...lines.slice(cursor));
+
+    // 插入的行可能落在"没有末尾换行"的最后一行之后，需要补上换行
+    return out
+        .map((line, i) => (i < out.length - 1 && !line.endsWith("\n") ? line + "\n" : line))
+        .join("");
+}
@@ -0,0 +1,88 @@
+/**
+ * 错误类型模块
+ *
+ * 定义项目中可区分的错误类型，调用方可以用 instanceof 判断错误种类，
+ * 而不是去匹配错误消息里的文字
+ */
+
+/**
+ * 所有自定义错误的基类
+ *
+ * new.target.name 会取到实际子类的名字，
+ * 这样 error.name 会显示为 "TruncatedResponseError" 等，而不是 "Error"
+ */
+export class CollieError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * 模型输出被截断
+ *
+ * 当响应的 finish_reason 为 "length"（达到 max_tokens 上限），
+ * 或者代码块没有闭合时抛出。被截断的代码绝不能写回文件
+ */
+export class TruncatedResponseError extends CollieError {}
+
+/**
+ * API 返回了非 2xx 状态码
+ *
+ * - status: HTTP 状态码
+ * - retryAfterMs: 服务端通过 Retry-After 建议的等待时间（毫秒），没有时为 undefined
+ *
+ * 429 和 5xx 通常是暂时性的，可以重试；其他状态码一般重试也没有用
+ */
+export class ApiError extends CollieError {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly retryAfterMs?: number
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * 认证失败（401 / 403）
+ *
+ * API Key 错误或没有权限，重试没有意义
+ */
+export class AuthError extends ApiError {}
+
+/**
+ * 请求过于频繁（429）
+ *
+ * 短时间内请求太多被限流，等待一段时间后重试即可
+ */
+export class RateLimitError extends ApiError {}
+
+/**
+ * 额度耗尽
+ *
+ * 账户欠费或配额用完（如 OpenAI 的 insufficient_quota、DashScope 的 Arrearage），
+ * 虽然有时也以 429 返回，但重试不会成功
+ */
+export class QuotaError extends ApiError {}
+
+/**
+ * 请求超时
+ *
+ * 超过设定的时间仍未收到完整响应，请求已被取消
+ */
+export class TimeoutError extends CollieError {}
+
+/**
+ * 网络错误
+ *
+ * 连接被拒绝、DNS 解析失败、连接被重置等，请求没有拿到任何 HTTP 响应
+ */
+export class NetworkError extends CollieError {}
+
+/**
+ * 响应格式无法识别
+ *
+ * 响应体不是合法的 JSON，或者缺少模型输出的字段
+ */
+export class MalformedResponseError extends CollieError {}
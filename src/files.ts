@@ -0,0 +1,430 @@
+/**
+ * 输入文件展开模块
+ *
+ * comment 命令的参数可以是文件、目录或 glob 模式（如 "src/**\/*.ts"）。
+ * 这个模块负责把它们展开成要处理的文件列表：
+ * 1. 目录递归遍历，遵循 .gitignore 和项目的 .collieignore
+ * 2. glob 模式从不含通配符的前缀目录开始遍历，再按模式匹配
+ * 3. 跳过 node_modules、.git、二进制文件和 .backup 备份文件
+ * 4. 按 --include / --exclude 过滤，可选地只保留已知语言的文件
+ */
+
+import { existsSync } from "fs";
+import { open, readdir, readFile, stat } from "fs/promises";
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from "path";
+import { detectLanguage, UNKNOWN_LANGUAGE } from "./languages.js";
+
+/**
+ * 展开选项
+ *
+ * - include: 只保留匹配这些 glob 的文件
+ * - exclude: 去掉匹配这些 glob 的文件
+ * - ignoreFiles: 是否遵循 .gitignore / .collieignore（默认 true）
+ * - knownLanguagesOnly: 目录和 glob 展开时只保留已知语言的文件（默认 true）
+ * - cwd: 相对路径的基准目录（默认 process.cwd()）
+ */
+export interface ExpandOptions {
+    include?: string[];
+    exclude?: string[];
+    ignoreFiles?: boolean;
+    knownLanguagesOnly?: boolean;
+    cwd?: string;
+}
+
+/**
+ * 遍历时总是跳过的目录
+ */
+const ALWAYS_SKIPPED_DIRS = new Set(["node_modules", ".git", ".collie"]);
+
+/**
+ * 会被读取的忽略文件
+ */
+const IGNORE_FILE_NAMES = [".gitignore", ".collieignore"];
+
+/**
+ * 判断二进制文件时读取的字节数（与 git 的判断方式一致）
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * 一条忽略规则
+ *
+ * - base: 忽略文件所在目录（规则相对于这个目录）
+ * - regex: 规则转换成的正则
+ * - negate: 以 "!" 开头的规则，表示重新包含
+ * - dirOnly: 以 "/" 结尾的规则，只匹配目录
+ * - anchored: 规则中间包含 "/"，按相对路径匹配；否则只匹配文件名
+ */
+interface IgnoreRule {
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+    anchored: boolean;
+}
+
+/**
+ * 判断字符串是否包含 glob 通配符
+ */
+export function hasGlobMagic(pattern: string): boolean {
+    return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * 把 glob 模式转换成正则表达式
+ *
+ * 支持的语法：
+ * - "*": 匹配除 "/" 以外的任意字符
+ * - "?": 匹配除 "/" 以外的单个字符
+ * - "**": 匹配任意层级的目录
+ * - "[abc]" / "[!abc]": 字符集合
+ * - "{a,b}": 多选一
+ *
+ * @param pattern - glob 模式（使用 "/" 作为分隔符）
+ * @returns 匹配整个路径的正则
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let out = "";
+    let braceDepth = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+
+        if (ch === "*") {
+            if (pattern[i + 1] === "*") {
+                const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+                const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+                if (atSegmentStart && atSegmentEnd) {
+                    // "**/" 匹配零个或多个目录；末尾的 "**" 匹配剩下的所有内容
+                    if (pattern[i + 2] === "/") {
+                        out += "(?:.*/)?";
+                        i += 2;
+                    } else {
+                        out += ".*";
+                        i += 1;
+                    }
+                    continue;
+                }
+            }
+            out += "[^/]*";
+        } else if (ch === "?") {
+            out += "[^/]";
+        } else if (ch === "[") {
+            const end = pattern.indexOf("]", i + 1);
+            if (end === -1) {
+                out += "\\[";
+                continue;
+            }
+            let set = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+            if (set.startsWith("!")) set = "^" + set.slice(1);
+            out += `[${set}]`;
+            i = end;
+        } else if (ch === "{") {
+            braceDepth++;
+            out += "(?:";
+        } else if (ch === "}" && braceDepth > 0) {
+            braceDepth--;
+            out += ")";
+        } else if (ch === "," && braceDepth > 0) {
+            out += "|";
+        } else {
+            out += ch.replace(/[.+^$()|\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(`^${out}$`);
+}
+
+/**
+ * 把路径转换成 "/" 分隔的形式（Windows 上 glob 也统一使用 "/"）
+ */
+function toPosix(path: string): string {
+    return sep === "/" ? path : path.split(sep).join("/");
+}
+
+/**
+ * 解析一个忽略文件（.gitignore 语法）
+ *
+ * @param content - 文件内容
+ * @param base - 文件所在目录
+ * @returns 规则列表（按文件中的顺序）
+ */
+function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/(?<!\\)\s+$/, "");
+        if (!line || line.startsWith("#")) continue;
+
+        const negate = line.startsWith("!");
+        if (negate) line = line.slice(1);
+        line = line.replace(/^\\([#!])/, "$1");
+
+        const dirOnly = line.endsWith("/");
+        if (dirOnly) line = line.slice(0, -1);
+
+        // 开头或中间有 "/" 的规则相对于忽略文件所在目录匹配
+        const anchored = line.includes("/");
+        if (line.startsWith("/")) line = line.slice(1);
+
+        rules.push({ base, regex: globToRegExp(line), negate, dirOnly, anchored });
+    }
+
+    return rules;
+}
+
+/**
+ * 判断路径是否被忽略规则排除
+ *
+ * 与 git 一致：后面的规则优先，"!" 规则可以重新包含之前排除的路径
+ *
+ * @param rules - 所有生效的规则（父目录的规则在前）
+ * @param absolutePath - 要判断的绝对路径
+ * @param isDirectory - 该路径是否是目录
+ */
+function isIgnored(rules: IgnoreRule[], absolutePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDirectory) continue;
+        const rel = toPosix(relative(rule.base, absolutePath));
+        if (!rel || rel.startsWith("..")) continue;
+
+        const target = rule.anchored ? rel : basename(absolutePath);
+        if (rule.regex.test(target)) {
+            ignored = !rule.negate;
+        }
+    }
+
+    return ignored;
+}
+
+/**
+ * 读取某个目录下的忽略文件
+ */
+async function loadIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+    const rules: IgnoreRule[] = [];
+    for (const name of IGNORE_FILE_NAMES) {
+        const file = join(dir, name);
+        if (existsSync(file)) {
+            rules.push(...parseIgnoreFile(await readFile(file, "utf-8"), dir));
+        }
+    }
+    return rules;
+}
+
+/**
+ * 读取遍历起点的所有上级目录中的忽略规则
+ *
+ * 向上查找直到包含 .git 的仓库根目录（找不到时只到当前工作目录），
+ * 这样在子目录中运行时，仓库根目录的 .gitignore 同样生效
+ */
+async function loadAncestorRules(start: string, cwd: string): Promise<IgnoreRule[]> {
+    // 向上查找仓库根目录
+    let root: string | null = null;
+    for (let dir = start; ; dir = dirname(dir)) {
+        if (existsSync(join(dir, ".git"))) {
+            root = dir;
+            break;
+        }
+        if (dirname(dir) === dir) break;
+    }
+    // 不在仓库中时，以当前工作目录为界（起点不在 cwd 之下则不使用上级规则）
+    if (!root) {
+        const rel = relative(cwd, start);
+        if (rel.startsWith("..") || isAbsolute(rel)) return [];
+        root = cwd;
+    }
+
+    // 从根目录到起点的上一级，按从上到下的顺序收集（起点自身的规则由 walk 读取）
+    const ancestors: string[] = [];
+    for (let dir = start; dir !== root; dir = dirname(dir)) {
+        ancestors.unshift(dirname(dir));
+    }
+
+    const rules: IgnoreRule[] = [];
+    for (const ancestor of ancestors) {
+        rules.push(...(await loadIgnoreRules(ancestor)));
+    }
+    return rules;
+}
+
+/**
+ * 读取文件开头的 8000 字节
+ */
+async function readHead(filePath: string): Promise<Buffer> {
+    const handle = await open(filePath, "r");
+    try {
+        const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+        return buffer.subarray(0, bytesRead);
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * 判断文件是否是二进制文件（前 8000 字节中包含 NUL 字节）
+ */
+export async function isBinaryFile(filePath: string): Promise<boolean> {
+    return (await readHead(filePath)).includes(0);
+}
+
+/**
+ * 判断文件是否是已知语言的文件
+ *
+ * 先看文件名和扩展名；没有扩展名的文件（如 bin/deploy）再看第一行的 shebang
+ */
+async function isKnownLanguageFile(filePath: string): Promise<boolean> {
+    if (detectLanguage(filePath) !== UNKNOWN_LANGUAGE) return true;
+    if (extname(filePath) !== "") return false;
+    return detectLanguage(filePath, (await readHead(filePath)).toString("utf-8")) !== UNKNOWN_LANGUAGE;
+}
+
+/**
+ * 递归遍历目录，返回所有未被忽略的文件
+ *
+ * 符号链接不跟随，避免目录循环
+ *
+ * @param dir - 遍历的目录（绝对路径）
+ * @param rules - 已经生效的忽略规则（来自上级目录）
+ * @param useIgnoreFiles - 是否读取各级目录中的忽略文件
+ */
+async function walk(dir: string, rules: IgnoreRule[], useIgnoreFiles: boolean): Promise<string[]> {
+    const localRules = useIgnoreFiles ? [...rules, ...(await loadIgnoreRules(dir))] : rules;
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    const files: string[] = [];
+    for (const entry of entries) {
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (ALWAYS_SKIPPED_DIRS.has(entry.name) || isIgnored(localRules, fullPath, true)) continue;
+            files.push(...(await walk(fullPath, localRules, useIgnoreFiles)));
+        } else if (entry.isFile()) {
+            if (isIgnored(localRules, fullPath, false)) continue;
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * 取出 glob 模式中不含通配符的前缀目录，作为遍历起点
+ *
+ * 例如 "src/**\/*.ts" → "src"，"*.ts" → "."
+ */
+function globBase(pattern: string): string {
+    const segments = pattern.split("/");
+    const fixed: string[] = [];
+    for (const segment of segments) {
+        if (hasGlobMagic(segment)) break;
+        fixed.push(segment);
+    }
+    // 整个模式都不含通配符时，最后一段是文件名
+    if (fixed.length === segments.length) fixed.pop();
+    return fixed.join("/") || ".";
+}
+
+/**
+ * 一个 --include / --exclude 过滤模式
+ *
+ * - regex: 模式转换成的正则
+ * - anchored: 模式中含有 "/"，按相对路径匹配；否则只匹配文件名
+ */
+interface FilterPattern {
+    regex: RegExp;
+    anchored: boolean;
+}
+
+/**
+ * 编译过滤模式
+ *
+ * 不含 "/" 的模式只匹配文件名（与 .gitignore 的习惯一致），如 "*.test.ts"
+ */
+function compileFilter(pattern: string): FilterPattern {
+    const posix = toPosix(pattern).replace(/^\.\//, "");
+    return { regex: globToRegExp(posix), anchored: posix.includes("/") };
+}
+
+/**
+ * 判断相对路径是否匹配某个过滤模式
+ */
+function matchesAny(patterns: FilterPattern[], relPath: string): boolean {
+    return patterns.some(({ regex, anchored }) =>
+        regex.test(anchored ? relPath : relPath.split("/").pop()!)
+    );
+}
+
+/**
+ * 把命令行参数（文件、目录、glob 模式）展开成要处理的文件列表
+ *
+ * 规则：
+ * - 明确给出的文件总是保留（不存在的文件也保留，由后续处理报告"文件不存在"）
+ * - 目录和 glob 展开出的文件会跳过二进制文件、.backup 文件，
+ *   并按需只保留已知语言的文件
+ * - 所有文件都要经过 --include / --exclude 过滤
+ * - 结果去重，保持第一次出现的顺序
+ *
+ * @param inputs - 命令行参数
+ * @param options - 展开选项
+ * @returns 文件路径列表（相对于 cwd 的路径，明确给出的文件保持原样）
+ */
+export async function expandInputs(inputs: string[], options: ExpandOptions = {}): Promise<string[]> {
+    const cwd = resolve(options.cwd ?? process.cwd());
+    const useIgnoreFiles = options.ignoreFiles ?? true;
+    const knownOnly = options.knownLanguagesOnly ?? true;
+    const include = (options.include ?? []).map(compileFilter);
+    const exclude = (options.exclude ?? []).map(compileFilter);
+
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    // 添加一个文件：统一去重和 include/exclude 过滤
+    const add = (displayPath: string) => {
+        const absolutePath = resolve(cwd, displayPath);
+        if (seen.has(absolutePath)) return;
+        const rel = toPosix(relative(cwd, absolutePath));
+        if (include.length > 0 && !matchesAny(include, rel)) return;
+        if (exclude.length > 0 && matchesAny(exclude, rel)) return;
+        seen.add(absolutePath);
+        result.push(displayPath);
+    };
+
+    // 目录和 glob 展开出的文件需要额外过滤
+    const addDiscovered = async (absolutePath: string) => {
+        if (absolutePath.endsWith(".backup")) return;
+        if (knownOnly && !(await isKnownLanguageFile(absolutePath))) return;
+        if (await isBinaryFile(absolutePath)) return;
+        add(relative(cwd, absolutePath) || absolutePath);
+    };
+
+    for (const input of inputs) {
+        const posixInput = toPosix(input);
+
+        if (hasGlobMagic(posixInput) && !existsSync(resolve(cwd, input))) {
+            const base = resolve(cwd, globBase(posixInput));
+            if (!existsSync(base)) continue;
+
+            const regex = globToRegExp(toPosix(resolve(cwd, input)));
+            const rules = useIgnoreFiles ? await loadAncestorRules(base, cwd) : [];
+            for (const file of await walk(base, rules, useIgnoreFiles)) {
+                if (regex.test(toPosix(file))) await addDiscovered(file);
+            }
+            continue;
+        }
+
+        const absolutePath = resolve(cwd, input);
+        if (existsSync(absolutePath) && (await stat(absolutePath)).isDirectory()) {
+            const rules = useIgnoreFiles ? await loadAncestorRules(absolutePath, cwd) : [];
+            for (const file of await walk(absolutePath, rules, useIgnoreFiles)) {
+                await addDiscovered(file);
+            }
+            continue;
+        }
+
+        add(input);
+    }
+
+    return result;
+}
@@ -0,0 +1,194 @@
+/**
+ * Git 增量模块（--since / --staged）
+ *
+ * 日常使用时不需要每次都给整个文件重新加注释，只处理改过的代码即可。
+ * 这个模块负责：
+ * 1. 调用 git diff 找出改动过的文件，以及每个文件中改动的行
+ * 2. 把改动的行映射到所在的顶层声明（函数、类等），得到需要处理的区域
+ *
+ * agent.ts 只把这些区域发给模型，区域之外的内容逐字节保持不变。
+ * 只依赖本地的 git 命令，不需要访问网络
+ */
+
+import { execFile } from "child_process";
+import { dirname, resolve } from "path";
+import { promisify } from "util";
+import { findDeclarationStarts } from "./chunker.js";
+import { CollieError } from "./errors.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * git 命令执行失败（不在仓库中、引用不存在等）
+ */
+export class GitError extends CollieError {}
+
+/**
+ * 比较的对象
+ *
+ * - since: 与某个引用（分支、标签、提交）比较，包括已暂存和未暂存的改动
+ * - staged: 只看已暂存（git add 过）的改动
+ */
+export interface GitDiffTarget {
+    since?: string;
+    staged?: boolean;
+}
+
+/**
+ * 一段行范围（从 0 开始，不包含 end）
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * 执行 git 命令并返回标准输出
+ *
+ * @param cwd - 执行目录
+ * @param args - git 参数
+ * @throws GitError - git 不存在或命令失败时抛出，消息取 git 的错误输出
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+        return stdout;
+    } catch (error) {
+        const detail = (error as { stderr?: string }).stderr?.trim() ||
+            (error instanceof Error ? error.message : String(error));
+        throw new GitError(`git ${args[0]} 失败: ${detail}`);
+    }
+}
+
+/**
+ * git diff 中表示比较对象的参数
+ */
+function targetArgs(target: GitDiffTarget): string[] {
+    return target.staged ? ["--cached"] : [target.since!];
+}
+
+/**
+ * 把比较对象描述成给用户看的文字
+ */
+export function describeTarget(target: GitDiffTarget): string {
+    return target.staged ? "暂存区中" : `自 ${target.since} 以来`;
+}
+
+/**
+ * 检查比较对象是否合法
+ *
+ * --since 和 --staged 只能二选一；引用必须存在，且不能以 "-" 开头（避免被当成 git 的选项）
+ *
+ * @param target - 比较对象
+ * @param cwd - 仓库中的任意目录
+ * @throws GitError - 不合法时抛出
+ */
+export async function validateTarget(target: GitDiffTarget, cwd = process.cwd()): Promise<void> {
+    if (target.since !== undefined && target.staged) {
+        throw new GitError("--since 和 --staged 不能同时使用");
+    }
+    if (target.since !== undefined) {
+        if (target.since.startsWith("-")) {
+            throw new GitError(`不合法的引用: ${target.since}`);
+        }
+        await git(cwd, ["rev-parse", "--verify", "--quiet", `${target.since}^{commit}`]).catch(() => {
+            throw new GitError(`找不到引用: ${target.since}`);
+        });
+    }
+}
+
+/**
+ * 列出有改动的文件（不包括已删除的文件）
+ *
+ * @param target - 比较对象
+ * @param cwd - 仓库中的任意目录
+ * @returns 改动文件的绝对路径
+ */
+export async function listChangedFiles(target: GitDiffTarget, cwd = process.cwd()): Promise<string[]> {
+    const root = (await git(cwd, ["rev-parse", "--show-toplevel"])).trim();
+    const output = await git(cwd, [
+        "diff", "--name-only", "--no-renames", "--diff-filter=d", "-z", ...targetArgs(target), "--",
+    ]);
+    return output.split("\0").filter(Boolean).map((path) => resolve(root, path));
+}
+
+/**
+ * 从 git diff -U0 的输出中解析改动的行（新文件中的行号）
+ *
+ * 只删除了代码的差异块在新文件中没有对应的行，
+ * 这时标记删除位置前后的两行，让所在的声明也被处理
+ *
+ * @param diff - git diff -U0 的输出
+ * @returns 改动的行范围
+ */
+export function parseChangedLines(diff: string): LineRange[] {
+    const ranges: LineRange[] = [];
+    for (const match of diff.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)) {
+        const start = Number(match[1]);
+        const count = match[2] === undefined ? 1 : Number(match[2]);
+        ranges.push(count === 0
+            ? { start: Math.max(0, start - 1), end: start + 1 }
+            : { start: start - 1, end: start - 1 + count });
+    }
+    return ranges;
+}
+
+/**
+ * 获取一个文件中改动的行
+ *
+ * --staged 时改动的行号对应暂存区中的版本，
+ * 如果文件还有未暂存的改动，行号就和工作区对不上，这时直接报错
+ *
+ * @param filePath - 文件路径
+ * @param target - 比较对象
+ * @returns 改动的行范围（工作区文件中的行号）
+ * @throws GitError - git 失败，或 --staged 时文件还有未暂存的改动
+ */
+export async function changedLineRanges(filePath: string, target: GitDiffTarget): Promise<LineRange[]> {
+    const absolute = resolve(filePath);
+    const cwd = dirname(absolute);
+
+    if (target.staged) {
+        const unstaged = await git(cwd, ["diff", "--name-only", "--", absolute]);
+        if (unstaged.trim()) {
+            throw new GitError(`${filePath} 还有未暂存的改动，请先 git add 或改用 --since HEAD`);
+        }
+    }
+
+    const diff = await git(cwd, [
+        "diff", "-U0", "--no-color", "--no-ext-diff", ...targetArgs(target), "--", absolute,
+    ]);
+    return parseChangedLines(diff);
+}
+
+/**
+ * 把改动的行映射到所在的顶层声明，得到需要处理的区域
+ *
+ * 使用与分段处理相同的声明边界（chunker.ts 的 findDeclarationStarts），
+ * 声明前面的文档注释和装饰器也属于这个声明；相邻的区域会合并成一个
+ *
+ * @param code - 当前的完整代码
+ * @param language - 语言名称
+ * @param changed - 改动的行范围
+ * @returns 按顺序排列、互不重叠的区域
+ */
+export function findEnclosingRegions(code: string, language: string, changed: LineRange[]): LineRange[] {
+    const lines = code.split("\n");
+    const starts = findDeclarationStarts(lines, language);
+    const regions: LineRange[] = [];
+
+    starts.forEach((start, i) => {
+        const end = i + 1 < starts.length ? starts[i + 1] : lines.length;
+        if (!changed.some((range) => range.start < end && range.end > start)) {
+            return;
+        }
+        const last = regions[regions.length - 1];
+        if (last && last.end === start) {
+            last.end = end;
+        } else {
+            regions.push({ start, end });
+        }
+    });
+
+    return regions;
+}
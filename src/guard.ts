@@ -0,0 +1,540 @@
+/**
+ * 代码保护模块
+ *
+ * 模型有时会在"添加注释"的同时重命名变量、"修复"逻辑或者丢掉几行代码。
+ * 这个模块在写回文件之前做一次校验：
+ * 1. 用词法分析器把原始代码和模型输出都切成 token（去掉注释和空白）
+ *    - TypeScript / JavaScript 使用 TypeScript 编译器自带的 scanner
+ *    - 其他语言使用按注释/字符串语法配置的简易词法分析器
+ *      （没有单独配置的语言使用语言注册表中的注释语法）
+ * 2. 比较两边的 token 序列，任何差异都说明代码本身被改动了
+ * 3. 生成可读的差异报告
+ */
+
+import ts from "typescript";
+import { diffSequences } from "./diff.js";
+import { CollieError } from "./errors.js";
+import { findLanguage } from "./languages.js";
+
+/**
+ * 一个词法 token
+ *
+ * - text: token 文本
+ * - line: 所在行号（从 1 开始）
+ */
+export interface Token {
+    text: string;
+    line: number;
+}
+
+/**
+ * 一处代码差异
+ *
+ * - originalLine / resultLine: 差异在原始代码 / 模型输出中的行号
+ * - removed: 原始代码中被删除或替换的 token
+ * - added: 模型输出中新增的 token
+ */
+export interface TokenDifference {
+    originalLine: number;
+    resultLine: number;
+    removed: string[];
+    added: string[];
+}
+
+/**
+ * 校验结果
+ *
+ * - ok: 代码是否保持不变
+ * - skipped: 该语言没有可用的词法分析器，未做校验
+ * - differences: 差异列表（最多保留 MAX_REPORTED 处）
+ */
+export interface GuardReport {
+    ok: boolean;
+    skipped: boolean;
+    differences: TokenDifference[];
+}
+
+/**
+ * 报告中最多列出的差异数量
+ */
+const MAX_REPORTED = 20;
+
+/**
+ * 模型修改了注释以外的代码时抛出
+ *
+ * 携带完整的校验报告，便于 CLI 展示具体改动
+ */
+export class CodeChangedError extends CollieError {
+    constructor(message: string, readonly report: GuardReport) {
+        super(message);
+    }
+}
+
+/**
+ * 简易词法分析器的语法配置
+ *
+ * - lineComments: 单行注释起始符
+ * - blockComments: 块注释的起止符
+ * - nestedBlockComments: 块注释是否可以嵌套（Rust、Swift、Kotlin）
+ * - quotes: 字符串引号
+ * - multilineQuotes: 可以跨行的字符串引号（Go 的反引号等）
+ * - tripleQuotes: 是否支持三引号字符串（Python）
+ * - docstrings: 单独成行的字符串表达式视为文档字符串（Python）
+ * - charLiteralQuote: 只有形如 'x' 时才是字符字面量的引号（Rust 的生命周期 'a）
+ * - indentation: 缩进有语法意义（Python），逻辑行的缩进变化生成 INDENT / DEDENT token
+ */
+interface LexerSyntax {
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    nestedBlockComments?: boolean;
+    quotes: string[];
+    multilineQuotes?: string[];
+    tripleQuotes?: boolean;
+    docstrings?: boolean;
+    charLiteralQuote?: string;
+    indentation?: boolean;
+}
+
+const C_FAMILY: LexerSyntax = {
+    lineComments: ["//"],
+    blockComments: [["/*", "*/"]],
+    quotes: ['"', "'"],
+};
+
+/**
+ * 各语言的词法配置（TypeScript / JavaScript 使用编译器 scanner，不在这里）
+ */
+const LEXERS: Record<string, LexerSyntax> = {
+    python: {
+        lineComments: ["#"],
+        blockComments: [],
+        quotes: ['"', "'"],
+        tripleQuotes: true,
+        docstrings: true,
+        indentation: true,
+    },
+    ruby: {
+        lineComments: ["#"],
+        blockComments: [["=begin", "=end"]],
+        quotes: ['"', "'"],
+    },
+    go: {
+        ...C_FAMILY,
+        multilineQuotes: ["`"],
+    },
+    rust: {
+        lineComments: ["//"],
+        blockComments: [["/*", "*/"]],
+        nestedBlockComments: true,
+        quotes: ['"'],
+        charLiteralQuote: "'",
+    },
+    java: C_FAMILY,
+    c: C_FAMILY,
+    cpp: C_FAMILY,
+    kotlin: { ...C_FAMILY, nestedBlockComments: true, tripleQuotes: true },
+    swift: { ...C_FAMILY, quotes: ['"'], nestedBlockComments: true, tripleQuotes: true },
+    php: { ...C_FAMILY, lineComments: ["//", "#"] },
+};
+
+/**
+ * 计算每一行的起始位置，用于把字符偏移量转换成行号
+ */
+function lineStartsOf(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === "\n") starts.push(i + 1);
+    }
+    return starts;
+}
+
+/**
+ * 二分查找偏移量所在的行号（从 1 开始）
+ */
+function lineAt(starts: number[], pos: number): number {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (starts[mid] <= pos) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo + 1;
+}
+
+/**
+ * 可以作为表达式结尾的 token
+ *
+ * 遇到 "/" 时，如果前一个 token 是这些之一，"/" 是除号；否则是正则表达式的开头
+ */
+const EXPRESSION_END = new Set<ts.SyntaxKind>([
+    ts.SyntaxKind.Identifier,
+    ts.SyntaxKind.NumericLiteral,
+    ts.SyntaxKind.BigIntLiteral,
+    ts.SyntaxKind.StringLiteral,
+    ts.SyntaxKind.RegularExpressionLiteral,
+    ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+    ts.SyntaxKind.TemplateTail,
+    ts.SyntaxKind.CloseParenToken,
+    ts.SyntaxKind.CloseBracketToken,
+    ts.SyntaxKind.CloseBraceToken,
+    ts.SyntaxKind.ThisKeyword,
+    ts.SyntaxKind.SuperKeyword,
+    ts.SyntaxKind.TrueKeyword,
+    ts.SyntaxKind.FalseKeyword,
+    ts.SyntaxKind.NullKeyword,
+    ts.SyntaxKind.PlusPlusToken,
+    ts.SyntaxKind.MinusMinusToken,
+]);
+
+/**
+ * 使用 TypeScript scanner 切分 TS/JS 代码
+ *
+ * scanner 本身不知道上下文，这里补上两处需要"重新扫描"的情况：
+ * - 模板字符串 `${...}` 中的 "}"：需要 reScanTemplateToken 才能继续读模板内容
+ * - "/"：根据前一个 token 判断是除号还是正则表达式
+ *
+ * @param code - 源代码
+ * @param jsx - 是否按 JSX 语法扫描（.tsx / .jsx）
+ */
+function tokenizeWithTypeScript(code: string, jsx: boolean): Token[] {
+    const scanner = ts.createScanner(
+        ts.ScriptTarget.Latest,
+        /* skipTrivia */ true,
+        jsx ? ts.LanguageVariant.JSX : ts.LanguageVariant.Standard,
+        code
+    );
+    const starts = lineStartsOf(code);
+    const tokens: Token[] = [];
+    // 记录括号栈：区分普通的 "{" 和模板字符串里的 "${"
+    const braceStack: Array<"brace" | "template"> = [];
+    let previous = ts.SyntaxKind.Unknown;
+
+    for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+        if (kind === ts.SyntaxKind.CloseBraceToken && braceStack[braceStack.length - 1] === "template") {
+            kind = scanner.reScanTemplateToken(false);
+            if (kind === ts.SyntaxKind.TemplateTail) braceStack.pop();
+        } else if (kind === ts.SyntaxKind.CloseBraceToken) {
+            braceStack.pop();
+        } else if (kind === ts.SyntaxKind.OpenBraceToken) {
+            braceStack.push("brace");
+        } else if (kind === ts.SyntaxKind.TemplateHead) {
+            braceStack.push("template");
+        } else if (
+            (kind === ts.SyntaxKind.SlashToken || kind === ts.SyntaxKind.SlashEqualsToken) &&
+            !EXPRESSION_END.has(previous)
+        ) {
+            kind = scanner.reScanSlashToken();
+        }
+
+        tokens.push({ text: scanner.getTokenText(), line: lineAt(starts, scanner.getTokenStart()) });
+        previous = kind;
+    }
+
+    return tokens;
+}
+
+/**
+ * 使用简易词法分析器切分代码
+ *
+ * 规则：
+ * - 注释和空白直接丢弃
+ * - 字符串整体作为一个 token
+ * - 连续的字母、数字、下划线、$ 作为一个 token（标识符、关键字、数字）
+ * - 其他字符每个单独作为一个 token
+ * - 缩进有语法意义的语言（Python）：和 Python 的分词器一样，逻辑行的缩进比上一层深时生成 <INDENT>，
+ *   回到外层时每退出一层生成一个 <DEDENT>，这样把一行移出循环体也会被发现
+ *
+ * 这样得到的 token 序列和真实语法的 token 不完全一致，
+ * 但对原始代码和模型输出使用同一套规则，足以发现代码是否被改动
+ */
+function tokenizeGeneric(code: string, syntax: LexerSyntax): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+    // 括号深度：括号内的换行不会结束语句
+    let depth = 0;
+    // 当前语句是否还没有出现过 token（用于识别 Python 文档字符串）
+    let statementStart = true;
+    let docstringCandidate = -1;
+    // 缩进栈（逻辑行开头的缩进宽度），以及当前逻辑行生成缩进 token 之前的状态（去掉文档字符串时恢复）
+    let indents = [0];
+    let indentMark = { tokens: 0, indents };
+    const rest = (marker: string, at: number) => code.startsWith(marker, at);
+
+    /**
+     * 逻辑行的第一个 token 之前调用：按这一行的缩进宽度生成 INDENT / DEDENT
+     * （制表符按 Python 的规则补齐到 8 的倍数）
+     */
+    const indentLine = () => {
+        indentMark = { tokens: tokens.length, indents };
+        let width = 0;
+        for (let j = code.lastIndexOf("\n", i - 1) + 1; j < i; j++) {
+            width = code[j] === "\t" ? (Math.floor(width / 8) + 1) * 8 : width + 1;
+        }
+        if (width > indents[indents.length - 1]) {
+            indents = [...indents, width];
+            tokens.push({ text: "<INDENT>", line });
+        }
+        while (width < indents[indents.length - 1]) {
+            indents = indents.slice(0, -1);
+            tokens.push({ text: "<DEDENT>", line });
+        }
+    };
+
+    const advance = (count: number) => {
+        for (let j = 0; j < count && i < code.length; j++, i++) {
+            if (code[i] === "\n") line++;
+        }
+    };
+
+    /**
+     * 逻辑行结束时调用：只有一个字符串的语句 = 文档字符串，从 token 序列中去掉（连同这一行的缩进 token）
+     */
+    const dropDocstring = () => {
+        if (docstringCandidate >= 0 && docstringCandidate === tokens.length - 1) {
+            tokens.pop();
+            if (syntax.indentation) {
+                tokens.length = indentMark.tokens;
+                indents = indentMark.indents;
+            }
+        }
+    };
+
+    while (i < code.length) {
+        const ch = code[i];
+
+        if (ch === "\n" && depth === 0) {
+            // 反斜杠续行：下一行属于同一个逻辑行
+            if (syntax.indentation && tokens[tokens.length - 1]?.text === "\\" && code[i - 1] === "\\") {
+                advance(1);
+                continue;
+            }
+            dropDocstring();
+            docstringCandidate = -1;
+            statementStart = true;
+            advance(1);
+            continue;
+        }
+        if (/\s/.test(ch)) {
+            advance(1);
+            continue;
+        }
+
+        const lineComment = syntax.lineComments.find((marker) => rest(marker, i));
+        if (lineComment) {
+            while (i < code.length && code[i] !== "\n") i++;
+            continue;
+        }
+
+        const block = syntax.blockComments.find(([open]) => rest(open, i));
+        if (block) {
+            const [open, close] = block;
+            let depth = 0;
+            while (i < code.length) {
+                if (rest(open, i) && (depth === 0 || syntax.nestedBlockComments)) {
+                    depth++;
+                    advance(open.length);
+                } else if (rest(close, i)) {
+                    depth--;
+                    advance(close.length);
+                    if (depth === 0) break;
+                } else {
+                    advance(1);
+                }
+            }
+            continue;
+        }
+
+        if (syntax.indentation && statementStart) {
+            indentLine();
+        }
+        const startLine = line;
+        const start = i;
+        const wasStatementStart = statementStart;
+        statementStart = false;
+
+        // 三引号字符串
+        if (syntax.tripleQuotes && (rest('"""', i) || rest("'''", i))) {
+            const quote = code.slice(i, i + 3);
+            advance(3);
+            while (i < code.length && !rest(quote, i)) {
+                advance(code[i] === "\\" ? 2 : 1);
+            }
+            advance(3);
+            tokens.push({ text: code.slice(start, i), line: startLine });
+            if (syntax.docstrings && wasStatementStart) docstringCandidate = tokens.length - 1;
+            continue;
+        }
+
+        // 字符字面量引号（Rust）：只有 'x' 或 '\n' 这样的形式才是字符，否则是生命周期标记
+        if (syntax.charLiteralQuote === ch) {
+            const literal = /^'(\\.[^']*|[^\\'])'/.exec(code.slice(i, i + 12));
+            if (literal) {
+                advance(literal[0].length);
+                tokens.push({ text: literal[0], line: startLine });
+            } else {
+                advance(1);
+                tokens.push({ text: ch, line: startLine });
+            }
+            continue;
+        }
+
+        // 普通字符串（单行）和可跨行字符串
+        const multiline = syntax.multilineQuotes?.includes(ch) ?? false;
+        if (syntax.quotes.includes(ch) || multiline) {
+            advance(1);
+            while (i < code.length && code[i] !== ch && (multiline || code[i] !== "\n")) {
+                advance(code[i] === "\\" && !multiline ? 2 : 1);
+            }
+            if (code[i] === ch) advance(1);
+            tokens.push({ text: code.slice(start, i), line: startLine });
+            if (syntax.docstrings && wasStatementStart) docstringCandidate = tokens.length - 1;
+            continue;
+        }
+
+        // 标识符、关键字、数字
+        const word = /^[\p{L}\p{N}_$]+/u.exec(code.slice(i, i + 256));
+        if (word) {
+            advance(word[0].length);
+            tokens.push({ text: word[0], line: startLine });
+            continue;
+        }
+
+        if (ch === "(" || ch === "[" || ch === "{") depth++;
+        if (ch === ")" || ch === "]" || ch === "}") depth = Math.max(0, depth - 1);
+        advance(1);
+        tokens.push({ text: ch, line: startLine });
+    }
+
+    dropDocstring();
+
+    return tokens;
+}
+
+/**
+ * 把代码切分成 token（去掉注释和空白）
+ *
+ * @param code - 源代码
+ * @param language - 语言名称（languages.ts 中注册的名称）
+ * @param fileExtension - 文件扩展名，用于判断是否是 JSX
+ * @returns token 列表；该语言没有可用的词法分析器时返回 null
+ */
+export function tokenize(code: string, language: string, fileExtension = ""): Token[] | null {
+    if (language === "typescript" || language === "javascript") {
+        const ext = fileExtension.toLowerCase();
+        return tokenizeWithTypeScript(code, ext === ".tsx" || ext === ".jsx");
+    }
+    const syntax = LEXERS[language] ?? lexerFromRegistry(language);
+    return syntax ? tokenizeGeneric(code, syntax) : null;
+}
+
+/**
+ * 用语言注册表中的注释语法生成词法配置
+ *
+ * 字符串按单引号和双引号处理；没有定义注释语法的语言无法区分注释和代码，返回 undefined
+ */
+function lexerFromRegistry(language: string): LexerSyntax | undefined {
+    const definition = findLanguage(language);
+    if (!definition?.lineComments?.length && !definition?.blockComments?.length) {
+        return undefined;
+    }
+    return {
+        lineComments: definition.lineComments ?? [],
+        blockComments: definition.blockComments ?? [],
+        quotes: ['"', "'"],
+    };
+}
+
+/**
+ * 校验模型输出是否只改动了注释和空白
+ *
+ * @param original - 原始代码
+ * @param result - 模型输出的代码
+ * @param language - 语言名称
+ * @param fileExtension - 文件扩展名
+ * @returns 校验报告
+ */
+export function verifyCodePreserved(
+    original: string,
+    result: string,
+    language: string,
+    fileExtension = ""
+): GuardReport {
+    const before = tokenize(original, language, fileExtension);
+    const after = tokenize(result, language, fileExtension);
+    if (!before || !after) {
+        return { ok: true, skipped: true, differences: [] };
+    }
+
+    const ops = diffSequences(before, after, (x, y) => x.text === y.text);
+
+    // 差异太大无法精确比较时，只报告从第一个不同的 token 开始的概要
+    if (!ops) {
+        let i = 0;
+        while (i < before.length && i < after.length && before[i].text === after[i].text) i++;
+        return {
+            ok: false,
+            skipped: false,
+            differences: [{
+                originalLine: before[i]?.line ?? before[before.length - 1]?.line ?? 1,
+                resultLine: after[i]?.line ?? after[after.length - 1]?.line ?? 1,
+                removed: before.slice(i, i + 10).map((t) => t.text),
+                added: after.slice(i, i + 10).map((t) => t.text),
+            }],
+        };
+    }
+
+    // 把相邻的删除/新增操作合并成一处差异
+    const differences: TokenDifference[] = [];
+    let current: TokenDifference | null = null;
+    for (const op of ops) {
+        if (op.type === "equal") {
+            current = null;
+            continue;
+        }
+        if (!current) {
+            current = {
+                originalLine: before[op.aIndex]?.line ?? before[before.length - 1]?.line ?? 1,
+                resultLine: after[op.bIndex]?.line ?? after[after.length - 1]?.line ?? 1,
+                removed: [],
+                added: [],
+            };
+            differences.push(current);
+        }
+        if (op.type === "delete") current.removed.push(before[op.aIndex].text);
+        else current.added.push(after[op.bIndex].text);
+    }
+
+    return {
+        ok: differences.length === 0,
+        skipped: false,
+        differences: differences.slice(0, MAX_REPORTED),
+    };
+}
+
+/**
+ * 把校验报告格式化成可读文本
+ *
+ * @param report - 校验报告
+ * @returns 多行文本，每处差异一行
+ */
+export function formatGuardReport(report: GuardReport): string {
+    const describe = (tokens: string[]) =>
+        tokens.length === 0 ? "（无）" : tokens.join(" ").slice(0, 120);
+
+    const lines = report.differences.map((diff) => {
+        if (diff.added.length === 0) {
+            return `  原文第 ${diff.originalLine} 行: 删除了 ${describe(diff.removed)}`;
+        }
+        if (diff.removed.length === 0) {
+            return `  结果第 ${diff.resultLine} 行: 新增了 ${describe(diff.added)}`;
+        }
+        return `  原文第 ${diff.originalLine} 行: ${describe(diff.removed)} → ${describe(diff.added)}`;
+    });
+
+    if (report.differences.length >= MAX_REPORTED) {
+        lines.push(`  ……（只显示前 ${MAX_REPORTED} 处）`);
+    }
+    return lines.join("\n");
+}
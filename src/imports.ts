@@ -0,0 +1,319 @@
+/**
+ * 导入上下文模块（--imports）
+ *
+ * 模型只看到当前文件时，只能按名字猜测被导入的函数和类型的作用，
+ * 例如 commenter.ts 调用 agent.ts 中的 generateComments，模型看不到它做了什么。
+ * 和 --tools 不同，这里不需要多轮请求，在发送提示词之前就把上下文准备好：
+ * 1. 找出文件中相对路径的导入（import ... from "./agent.js"，以及 export ... from "./x.js"）
+ * 2. 用 TypeScript 的模块解析找到被导入的文件（"./agent.js" 解析到 agent.ts）
+ * 3. 取出被导入的那些声明的签名和文档注释（不包括函数体和变量的值）
+ * 4. 在 token 预算之内加入提示词，超出预算的声明省略
+ *
+ * 只支持 TypeScript / JavaScript；第三方包、解析或读取失败的导入直接跳过，不影响注释的生成。
+ * 被导入的文件如果只是转发导出（export { a } from "./b.js"），不会继续追踪到 b
+ */
+
+import { readFile } from "fs/promises";
+import { dirname, extname, resolve } from "path";
+import ts from "typescript";
+import { estimateTokens } from "./chunker.js";
+import { declaredNames, hasModifier, parseSource } from "./scope.js";
+
+/**
+ * 一个被导入的模块
+ *
+ * - specifier: 导入语句中写的路径（如 "./agent.js"）
+ * - path: 解析到的文件路径
+ * - declarations: 被导入的声明，每一项是文档注释加上签名
+ * - omitted: 超出 token 预算而省略的声明数
+ */
+export interface ImportedModule {
+    specifier: string;
+    path: string;
+    declarations: string[];
+    omitted: number;
+}
+
+/**
+ * 导入上下文的默认 token 预算
+ */
+export const DEFAULT_IMPORT_TOKENS = 1500;
+
+/**
+ * 变量的值不超过这个长度（并且只有一行）时原样保留，否则用 … 代替
+ */
+const MAX_INITIALIZER_CHARS = 80;
+
+/**
+ * 没有找到 tsconfig.json 时使用的编译选项（和打包工具一样，"./a.js" 可以解析到 a.ts）
+ */
+const FALLBACK_OPTIONS: ts.CompilerOptions = {
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowJs: true,
+};
+
+/**
+ * 一个导入：路径和导入的名字（"*" 表示整个模块，如 import * as x）
+ */
+interface ImportRequest {
+    specifier: string;
+    names: Set<string>;
+}
+
+/**
+ * 按 tsconfig.json 路径缓存的编译选项（同一次运行中，同一个项目的文件只解析一次配置）
+ */
+const optionsCache = new Map<string, ts.CompilerOptions>();
+
+/**
+ * 收集文件导入的模块中相关声明的签名和文档注释
+ *
+ * 按导入语句的顺序处理，token 预算用完后，之后的声明都会省略（只记录数量）
+ *
+ * @param code - 文件内容
+ * @param filePath - 文件路径，用于解析相对路径的导入
+ * @param maxTokens - 所有声明加起来的 token 上限
+ * @returns 被导入的模块，解析失败和没有相关声明的模块不包括在内
+ */
+export async function collectImports(code: string, filePath: string, maxTokens: number): Promise<ImportedModule[]> {
+    const requests = findRelativeImports(parseSource(code, extname(filePath)));
+    const options = compilerOptionsFor(filePath);
+    const modules: ImportedModule[] = [];
+    let tokensLeft = maxTokens;
+
+    for (const request of requests) {
+        const resolved = ts.resolveModuleName(request.specifier, resolve(filePath), options, ts.sys).resolvedModule;
+        if (!resolved) {
+            continue;
+        }
+        let text: string;
+        try {
+            text = await readFile(resolved.resolvedFileName, "utf-8");
+        } catch {
+            continue;
+        }
+
+        const module: ImportedModule = {
+            specifier: request.specifier,
+            path: resolved.resolvedFileName,
+            declarations: [],
+            omitted: 0,
+        };
+        for (const declaration of exportedDeclarations(text, resolved.resolvedFileName, request.names)) {
+            const tokens = estimateTokens(declaration);
+            if (tokens > tokensLeft) {
+                // 预算用完后不再放入任何声明，避免后面较短的声明挤进来、顺序变得零散
+                tokensLeft = 0;
+                module.omitted++;
+                continue;
+            }
+            tokensLeft -= tokens;
+            module.declarations.push(declaration);
+        }
+        if (module.declarations.length > 0 || module.omitted > 0) {
+            modules.push(module);
+        }
+    }
+    return modules;
+}
+
+/**
+ * 找出文件中相对路径的导入，同一个模块的多条导入合并在一起
+ *
+ * 只有副作用的导入（import "./polyfill.js"）没有用到任何名字，不包括在内
+ */
+function findRelativeImports(source: ts.SourceFile): ImportRequest[] {
+    const requests = new Map<string, ImportRequest>();
+    const add = (specifier: ts.Expression | undefined, names: string[]) => {
+        if (!specifier || !ts.isStringLiteral(specifier) || !specifier.text.startsWith(".") || names.length === 0) {
+            return;
+        }
+        const request = requests.get(specifier.text) ?? { specifier: specifier.text, names: new Set<string>() };
+        names.forEach((name) => request.names.add(name));
+        requests.set(specifier.text, request);
+    };
+
+    for (const statement of source.statements) {
+        if (ts.isImportDeclaration(statement) && statement.importClause) {
+            const { name, namedBindings } = statement.importClause;
+            const names = name ? ["default"] : [];
+            if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                names.push("*");
+            } else if (namedBindings) {
+                names.push(...namedBindings.elements.map((e) => (e.propertyName ?? e.name).text));
+            }
+            add(statement.moduleSpecifier, names);
+        } else if (ts.isExportDeclaration(statement)) {
+            const clause = statement.exportClause;
+            add(
+                statement.moduleSpecifier,
+                clause && ts.isNamedExports(clause)
+                    ? clause.elements.map((e) => (e.propertyName ?? e.name).text)
+                    : ["*"]
+            );
+        }
+    }
+    return [...requests.values()];
+}
+
+/**
+ * 获取解析文件的导入时使用的编译选项
+ *
+ * 使用离文件最近的 tsconfig.json（支持 extends），没有时使用 FALLBACK_OPTIONS；
+ * 总是允许解析到 .js 文件，JavaScript 项目的导入也能解析
+ */
+function compilerOptionsFor(filePath: string): ts.CompilerOptions {
+    const configPath = ts.findConfigFile(dirname(resolve(filePath)), ts.sys.fileExists);
+    if (!configPath) {
+        return FALLBACK_OPTIONS;
+    }
+    let options = optionsCache.get(configPath);
+    if (!options) {
+        const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+        // 只需要编译选项，不展开 include（避免遍历整个项目目录）
+        const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+        options = config
+            ? { ...ts.parseJsonConfigFileContent(config, host, dirname(configPath)).options, allowJs: true }
+            : FALLBACK_OPTIONS;
+        optionsCache.set(configPath, options);
+    }
+    return options;
+}
+
+/**
+ * 取出模块中被导入的声明，按它们在文件中出现的顺序排列
+ *
+ * @param text - 被导入的文件的内容
+ * @param path - 被导入的文件的路径（按扩展名选择解析方式）
+ * @param names - 导入的名字，包含 "*" 时取出所有导出的声明
+ * @returns 每个声明的文档注释加签名
+ */
+function exportedDeclarations(text: string, path: string, names: Set<string>): string[] {
+    const source = parseSource(text, path.endsWith(".d.ts") ? ".ts" : extname(path));
+
+    // 顶层声明的名字 → 声明语句（函数重载时一个名字对应多条语句）
+    const locals = new Map<string, ts.Statement[]>();
+    const exports = new Map<string, ts.Statement[]>();
+    const push = (map: Map<string, ts.Statement[]>, name: string, statements: ts.Statement[]) =>
+        map.set(name, [...(map.get(name) ?? []), ...statements]);
+
+    for (const statement of source.statements) {
+        for (const name of declaredNames(statement)) {
+            push(locals, name, [statement]);
+        }
+    }
+    for (const statement of source.statements) {
+        if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+            const exported = hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? ["default"] : declaredNames(statement);
+            exported.forEach((name) => push(exports, name, [statement]));
+        } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause
+            && ts.isNamedExports(statement.exportClause)) {
+            // export { a, b as c }
+            for (const element of statement.exportClause.elements) {
+                push(exports, element.name.text, locals.get((element.propertyName ?? element.name).text) ?? []);
+            }
+        } else if (ts.isExportAssignment(statement)) {
+            // export default a / export = a
+            const expression = statement.expression;
+            push(exports, "default", ts.isIdentifier(expression) ? locals.get(expression.text) ?? [] : [statement]);
+        }
+    }
+
+    const selected = new Set<ts.Statement>();
+    for (const [name, statements] of exports) {
+        if (names.has("*") || names.has(name)) {
+            statements.forEach((statement) => selected.add(statement));
+        }
+    }
+    return [...selected]
+        .sort((a, b) => a.pos - b.pos)
+        .map((statement) => withDocComment(statement, renderStatement(statement, source), source, ""));
+}
+
+/**
+ * 生成声明的签名
+ *
+ * - 函数：去掉函数体
+ * - 类：只保留公共成员的签名和它们的文档注释
+ * - 变量：保留类型标注；函数值去掉函数体，较长的值用 … 代替
+ * - 接口、类型别名、枚举等：原样保留
+ */
+function renderStatement(statement: ts.Statement, source: ts.SourceFile): string {
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+        return sliceBefore(statement, statement.body, source) + ";";
+    }
+    if (ts.isClassDeclaration(statement)) {
+        const header = source.text.slice(statement.getStart(source), statement.members.pos).trimEnd();
+        const members = statement.members
+            .filter((member) => !isPrivateMember(member))
+            .map((member) => withDocComment(member, renderMember(member, source), source, "    "));
+        return [header, ...members, "}"].join("\n");
+    }
+    if (ts.isVariableStatement(statement)) {
+        const list = statement.declarationList;
+        const prefix = source.text.slice(statement.getStart(source), list.declarations[0].getStart(source));
+        return list.declarations.map((d) => prefix + renderVariable(d, source)).join("\n");
+    }
+    return statement.getText(source);
+}
+
+/**
+ * 生成类成员的签名（方法去掉方法体，属性去掉初始值）
+ */
+function renderMember(member: ts.ClassElement, source: ts.SourceFile): string {
+    if (ts.isFunctionLike(member) && "body" in member && member.body) {
+        return sliceBefore(member, member.body as ts.Node, source) + ";";
+    }
+    if (ts.isPropertyDeclaration(member) && member.initializer) {
+        return sliceBefore(member, member.initializer, source).replace(/\s*=$/, "") + ";";
+    }
+    return member.getText(source);
+}
+
+/**
+ * 生成一个变量声明（不含 export const 前缀）
+ */
+function renderVariable(declaration: ts.VariableDeclaration, source: ts.SourceFile): string {
+    const init = declaration.initializer;
+    if (!init) {
+        return declaration.getText(source) + ";";
+    }
+    if ((ts.isArrowFunction(init) || ts.isFunctionExpression(init)) && !declaration.type) {
+        return sliceBefore(declaration, init.body, source) + " …;";
+    }
+    const text = init.getText(source);
+    if (declaration.type || text.length > MAX_INITIALIZER_CHARS || text.includes("\n")) {
+        return sliceBefore(declaration, init, source).replace(/\s*=$/, "") + (declaration.type ? ";" : " = …;");
+    }
+    return declaration.getText(source) + ";";
+}
+
+/**
+ * 判断类成员是否是私有的（private / protected / #name），私有成员不需要放进上下文
+ */
+function isPrivateMember(member: ts.ClassElement): boolean {
+    return hasModifier(member, ts.SyntaxKind.PrivateKeyword)
+        || hasModifier(member, ts.SyntaxKind.ProtectedKeyword)
+        || (member.name !== undefined && ts.isPrivateIdentifier(member.name));
+}
+
+/**
+ * 取出从节点开头到另一个节点（函数体、初始值等）之前的文本
+ */
+function sliceBefore(node: ts.Node, end: ts.Node, source: ts.SourceFile): string {
+    return source.text.slice(node.getStart(source), end.getStart(source)).trimEnd();
+}
+
+/**
+ * 在签名前面加上节点的文档注释（紧挨着声明的最后一个 /** *\/ 注释），没有时原样返回
+ *
+ * @param indent - 签名和注释第一行的缩进（类成员使用，注释的其他行保留原来的缩进）
+ */
+function withDocComment(node: ts.Node, signature: string, source: ts.SourceFile, indent: string): string {
+    const comment = ts.getLeadingCommentRanges(source.text, node.pos)
+        ?.filter((range) => source.text.startsWith("/**", range.pos))
+        .at(-1);
+    const doc = comment ? source.text.slice(comment.pos, comment.end) + "\n" : "";
+    return indent + doc + (doc ? indent : "") + signature;
+}
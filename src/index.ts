@@ -1,61 +1,74 @@
-#!/usr/bin/env node
 /**
- * 这个 shebang 行告诉系统使用 node 来执行这个脚本
- * 当文件被直接执行时（如 ./dist/index.js），系统会找到 node 解释器
+ * 库入口文件
+ *
+ * 供其他程序导入使用（package.json 的 main）。这里只导出公开的接口，
+ * 导入时不会解析命令行、读取 .env 或输出任何内容；命令行入口在 bin.ts 中。
+ *
+ * 常用的接口：
+ * - CollieAgent / commentFiles：批量为文件添加注释（见 api.ts）
+ * - generateComments：只对一段代码生成注释，不读写文件
+ * - createProvider 和 LLMProvider：创建或自己实现 LLM Provider
+ * - 各种错误类型：用 instanceof 区分失败的原因
  */
 
-/**
- * CLI Agent 入口文件
- * 
- * 这是整个应用的入口点，负责：
- * 1. 加载环境变量配置
- * 2. 初始化 CLI 命令系统
- * 3. 解析用户输入的命令
- * 
- * 执行流程：
- * 用户运行命令 → 这个文件被加载 → 设置 CLI → 解析命令 → 执行相应操作
- */
+export { CollieAgent, commentFiles } from "./api.js";
+export type { CollieAgentEvents, CollieAgentOptions } from "./api.js";
 
-// 导入 dotenv 配置模块
-// "dotenv/config" 会自动加载项目根目录下的 .env 文件中的环境变量
-// 这样我们就可以通过 process.env.变量名 来访问环境变量
-import "dotenv/config";
+export { generateComments, getLanguageName } from "./agent.js";
+export type { GenerateOptions } from "./agent.js";
 
-// 从 cli.ts 模块导入 setupCLI 函数
-// 注意：TypeScript 编译后，.ts 文件会变成 .js，所以导入时使用 .js 扩展名
-// 这是 ES Module 的导入语法
-import { setupCLI } from "./cli.js";
+export { addCommentsToFile, addCommentsToFiles, nodeFileSystem } from "./commenter.js";
+export type { BatchOptions, CommentOptions, CommentResult, FileStatus, FileSystem, Logger } from "./commenter.js";
 
-/**
- * 检查环境变量是否已设置
- * 
- * process.env 是 Node.js 的全局对象，包含所有环境变量
- * DASHSCOPE_API_KEY 是我们需要的 API 密钥
- * 
- * 为什么要检查？
- * - 如果没有 API Key，后续的 API 调用会失败
- * - 提前检查可以给用户友好的提示，而不是等到 API 调用时才报错
- */
-if (!process.env.DASHSCOPE_API_KEY) {
-    // console.warn 输出警告信息（黄色），不会中断程序执行
-    // 使用 \n 来换行，让输出更易读
-    console.warn(
-        "警告: 未设置 DASHSCOPE_API_KEY 环境变量\n" +
-        "请设置环境变量: export DASHSCOPE_API_KEY=your_api_key\n" +
-        "或创建 .env 文件并添加: DASHSCOPE_API_KEY=your_api_key"
-    );
-}
+export { createProvider, PROVIDER_NAMES } from "./providers.js";
+export type {
+    ChatMessage,
+    ChatRequest,
+    ChatResponse,
+    LLMProvider,
+    ProviderConfig,
+    ProviderName,
+    TokenUsage,
+    ToolCall,
+    ToolDefinition,
+} from "./providers.js";
 
-/**
- * 启动 CLI 程序
- * 
- * 1. setupCLI() 返回一个 Command 对象（来自 commander 库）
- * 2. program.parse() 解析命令行参数，并执行相应的命令
- * 
- * 例如：用户输入 "npm start comment src/example.ts"
- * - parse() 会识别 "comment" 命令
- * - 提取参数 "src/example.ts"
- * - 调用对应的 action 函数
- */
-const program = setupCLI();
-program.parse();
+export { BudgetExceededError, DEFAULT_PRICES, UsageTracker } from "./usage.js";
+export type { ModelPrice, PriceTable, UsageStats } from "./usage.js";
+
+export { detectLanguage, findLanguage, languageNames, registerLanguage } from "./languages.js";
+export type { LanguageDefinition } from "./languages.js";
+
+export { ProjectTools } from "./tools.js";
+export type { ToolOptions } from "./tools.js";
+
+export { collectImports, DEFAULT_IMPORT_TOKENS } from "./imports.js";
+export type { ImportedModule } from "./imports.js";
+
+export { registerSyntaxChecker } from "./syntax.js";
+export type { SyntaxChecker, SyntaxDiagnostic } from "./syntax.js";
+
+export { ResponseCache } from "./cache.js";
+export { BackupRun, BackupStore, RestoreConflictError } from "./backups.js";
+export type { RateLimitConfig } from "./ratelimit.js";
+export type { GitDiffTarget } from "./gitdiff.js";
+export type { RefreshOptions } from "./refresh.js";
+export type { CommentMode } from "./structured.js";
+export type { DocScope } from "./scope.js";
+export type { DocStyle } from "./styles.js";
+
+export {
+    ApiError,
+    AuthError,
+    CollieError,
+    MalformedResponseError,
+    NetworkError,
+    QuotaError,
+    RateLimitError,
+    TimeoutError,
+    TruncatedResponseError,
+} from "./errors.js";
+export { CodeChangedError } from "./guard.js";
+export { SyntaxCheckError } from "./syntax.js";
+export { GitError } from "./gitdiff.js";
+export { ConfigError } from "./config.js";
@@ -0,0 +1,227 @@
+/**
+ * 交互式审阅模块
+ *
+ * 类似 `git add -p`：逐个展示模型插入的注释（差异块），让用户决定：
+ * - y: 接受这个改动
+ * - n: 拒绝这个改动
+ * - e: 在 $EDITOR 中编辑这个改动后再接受
+ * - a: 接受本文件剩余的全部改动
+ * - d: 拒绝本文件剩余的全部改动
+ *
+ * 最后只把接受的差异块应用到原文件上
+ */
+
+import { createInterface } from "readline";
+import { spawnSync } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import { applyHunks, colorizeDiff, computeHunks, DiffHunk, splitLinesKeepEnds, supportsColor } from "./diff.js";
+
+/**
+ * 展示差异块时前后附带的上下文行数
+ */
+const DISPLAY_CONTEXT = 3;
+
+/**
+ * 帮助信息
+ */
+const HELP = `y - 接受这个改动
+n - 拒绝这个改动
+e - 在编辑器中编辑这个改动
+a - 接受本文件剩余的全部改动
+d - 拒绝本文件剩余的全部改动
+? - 显示帮助`;
+
+/**
+ * 终端问答器
+ *
+ * - ask: 输出问题并等待一行输入（返回小写、去掉首尾空白的答案）
+ * - close: 关闭 readline 接口
+ */
+interface Prompter {
+    ask(question: string): Promise<string>;
+    close(): void;
+}
+
+/**
+ * 创建终端问答器
+ *
+ * 输入的每一行先放进队列再被取走，这样提问之前就已经到达的输入（例如管道输入、
+ * 提前敲下的按键）也不会丢失。输入结束（EOF）后的所有提问都按 "d" 处理，
+ * 即拒绝剩余改动，保证不会在无人确认的情况下写入。
+ *
+ * 外部编辑器通过 spawnSync 同步启动，运行期间事件循环被阻塞，
+ * readline 不会抢走编辑器的输入，所以整个审阅过程可以共用一个接口
+ */
+function createPrompter(): Prompter {
+    const rl = createInterface({ input: process.stdin, terminal: false });
+    const queue: string[] = [];
+    let waiting: ((line: string) => void) | null = null;
+    let closed = false;
+
+    rl.on("line", (line) => {
+        if (waiting) {
+            const resolve = waiting;
+            waiting = null;
+            resolve(line);
+        } else {
+            queue.push(line);
+        }
+    });
+    rl.on("close", () => {
+        closed = true;
+        waiting?.("d");
+        waiting = null;
+    });
+
+    return {
+        async ask(question: string): Promise<string> {
+            process.stdout.write(question);
+            const line = queue.length > 0
+                ? queue.shift()!
+                : closed
+                    ? "d"
+                    : await new Promise<string>((resolve) => (waiting = resolve));
+            return line.trim().toLowerCase();
+        },
+        close() {
+            rl.close();
+        },
+    };
+}
+
+/**
+ * 把差异块渲染成带上下文的 diff 文本
+ *
+ * 差异块本身不带上下文（context = 0），这里从原文件中补上前后几行，方便判断位置
+ */
+function renderHunk(hunk: DiffHunk, originalLines: string[]): string {
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const end = start + hunk.oldLines;
+    const before = originalLines.slice(Math.max(0, start - DISPLAY_CONTEXT), start);
+    const after = originalLines.slice(end, end + DISPLAY_CONTEXT);
+
+    const strip = (line: string) => line.replace(/\n$/, "");
+    const body = [
+        `@@ 原文第 ${start + 1} 行 @@`,
+        ...before.map((line) => " " + strip(line)),
+        ...hunk.lines.map(strip),
+        ...after.map((line) => " " + strip(line)),
+    ].join("\n");
+
+    return supportsColor() ? colorizeDiff(body) : body;
+}
+
+/**
+ * 在外部编辑器中编辑差异块新增的内容
+ *
+ * 编辑器取自 $VISUAL 或 $EDITOR（默认 vi）。临时文件使用原文件的扩展名，
+ * 方便编辑器启用语法高亮
+ *
+ * @param hunk - 要编辑的差异块
+ * @param fileExtension - 原文件扩展名
+ * @returns 编辑后的差异块；编辑器异常退出时返回 null
+ */
+async function editHunk(hunk: DiffHunk, fileExtension: string): Promise<DiffHunk | null> {
+    const added = hunk.lines.filter((line) => line[0] === "+").map((line) => line.slice(1));
+    const dir = await mkdtemp(join(tmpdir(), "collie-hunk-"));
+    const file = join(dir, `hunk${fileExtension}`);
+
+    try {
+        await writeFile(file, added.join(""), "utf-8");
+
+        // 编辑器变量可能带参数（如 "code --wait"），所以通过 shell 启动
+        const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+        const result = spawnSync(`${editor} "${file}"`, { stdio: "inherit", shell: true });
+        if (result.status !== 0) {
+            console.error(`编辑器退出码为 ${result.status}，已放弃这次编辑`);
+            return null;
+        }
+
+        const edited = splitLinesKeepEnds(await readFile(file, "utf-8"));
+        // 编辑后的最后一行补上换行，保证插入位置之后的代码另起一行
+        if (edited.length > 0 && !edited[edited.length - 1].endsWith("\n")) {
+            edited[edited.length - 1] += "\n";
+        }
+
+        return {
+            ...hunk,
+            newLines: edited.length,
+            lines: [
+                ...hunk.lines.filter((line) => line[0] === "-"),
+                ...edited.map((line) => "+" + line),
+            ],
+        };
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 逐个差异块交互式审阅模型生成的注释
+ *
+ * 可以作为 CommentOptions.review 使用
+ *
+ * @param filePath - 文件路径（只用于显示）
+ * @param originalCode - 原始代码
+ * @param commentedCode - 模型生成的带注释代码
+ * @returns 只应用了被接受差异块的代码
+ */
+export async function reviewHunks(
+    filePath: string,
+    originalCode: string,
+    commentedCode: string
+): Promise<string> {
+    const hunks = computeHunks(originalCode, commentedCode, 0);
+    const originalLines = splitLinesKeepEnds(originalCode);
+    const accepted: DiffHunk[] = [];
+
+    console.log(`\n审阅 ${filePath}（共 ${hunks.length} 处改动）`);
+
+    // 批量决定：接受 / 拒绝剩余全部
+    let remaining: "accept" | "reject" | null = null;
+    const prompter = createPrompter();
+
+    try {
+        for (let i = 0; i < hunks.length; i++) {
+            let hunk = hunks[i];
+
+            if (remaining === "accept") {
+                accepted.push(hunk);
+                continue;
+            }
+            if (remaining === "reject") {
+                continue;
+            }
+
+            console.log("\n" + renderHunk(hunk, originalLines));
+
+            for (;;) {
+                const answer = await prompter.ask(`(${i + 1}/${hunks.length}) 应用这个改动吗 [y,n,e,a,d,?]? `);
+                if (answer === "y") {
+                    accepted.push(hunk);
+                } else if (answer === "a") {
+                    accepted.push(hunk);
+                    remaining = "accept";
+                } else if (answer === "d") {
+                    remaining = "reject";
+                } else if (answer === "e") {
+                    const edited = await editHunk(hunk, extname(filePath));
+                    if (!edited) continue;
+                    hunk = edited;
+                    accepted.push(hunk);
+                } else if (answer !== "n") {
+                    console.log(HELP);
+                    continue;
+                }
+                break;
+            }
+        }
+    } finally {
+        prompter.close();
+    }
+
+    console.log(`已接受 ${accepted.length}/${hunks.length} 处改动`);
+    return applyHunks(originalCode, accepted);
+}
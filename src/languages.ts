@@ -0,0 +1,270 @@
+/**
+ * 编程语言注册表
+ *
+ * 以前只有一张"扩展名 → 语言名"的固定映射表，.mjs、.vue、.sh、没有扩展名的脚本等
+ * 都会被当作 "text" 发给模型。这个模块把每种语言需要的信息集中在一起：
+ * - 扩展名、特殊文件名（Gemfile、.bashrc 等）和 shebang 中的解释器，用于识别语言
+ * - 注释语法，用于代码保护校验和大文件分段
+ * - 默认的文档风格
+ *
+ * 识别顺序（detectLanguage）：
+ * 1. 文件名完全匹配（如 Gemfile）
+ * 2. 扩展名匹配；多种语言共用一个扩展名时（如 .h），按内容特征（contentPatterns）选择
+ * 3. 第一行的 shebang（如 #!/usr/bin/env python3）
+ * 4. 都不匹配时为 "text"
+ *
+ * 用户可以在配置文件的 languages 中添加新语言，或覆盖内置语言的定义
+ */
+
+import { basename, extname } from "path";
+import { DocStyle } from "./styles.js";
+
+/**
+ * 一种编程语言的定义
+ *
+ * - name: 语言名称（写进提示词，也是 --language 的取值，如 "python"）
+ * - extensions: 扩展名（带点，如 ".py"）
+ * - filenames: 特殊文件名（如 "Gemfile"）
+ * - shebangs: 匹配 shebang 中解释器名称的正则表达式（如 "python[0-9.]*"，需要完整匹配）
+ * - contentPatterns: 内容特征的正则表达式，多种语言共用一个扩展名时，匹配行数最多的语言胜出
+ * - lineComments: 单行注释的起始符（如 "#"）
+ * - blockComments: 块注释的起止符（如 ["/*", "*\/"]）
+ * - docStyle: 默认的文档风格
+ */
+export interface LanguageDefinition {
+    name: string;
+    extensions?: string[];
+    filenames?: string[];
+    shebangs?: string[];
+    contentPatterns?: string[];
+    lineComments?: string[];
+    blockComments?: Array<[string, string]>;
+    docStyle?: DocStyle;
+}
+
+/**
+ * 没有识别出语言时使用的名称
+ */
+export const UNKNOWN_LANGUAGE = "text";
+
+const C_COMMENTS = {
+    lineComments: ["//"],
+    blockComments: [["/*", "*/"]] as Array<[string, string]>,
+};
+
+/**
+ * 内置的语言定义
+ *
+ * 排在前面的优先：.h 默认按 C 处理，内容像 C++ 时才按 C++ 处理
+ */
+const BUILTIN_LANGUAGES: LanguageDefinition[] = [
+    {
+        name: "typescript",
+        extensions: [".ts", ".tsx", ".mts", ".cts"],
+        shebangs: ["ts-node", "tsx"],
+        ...C_COMMENTS,
+        docStyle: "tsdoc",
+    },
+    {
+        name: "javascript",
+        extensions: [".js", ".jsx", ".mjs", ".cjs"],
+        shebangs: ["node(js)?", "deno", "bun"],
+        ...C_COMMENTS,
+        docStyle: "jsdoc",
+    },
+    {
+        name: "python",
+        extensions: [".py", ".pyw", ".pyi"],
+        shebangs: ["python[0-9.]*", "pypy[0-9.]*"],
+        lineComments: ["#"],
+        docStyle: "google",
+    },
+    { name: "java", extensions: [".java"], ...C_COMMENTS, docStyle: "jsdoc" },
+    { name: "c", extensions: [".c", ".h"], ...C_COMMENTS, docStyle: "jsdoc" },
+    {
+        name: "cpp",
+        extensions: [".cpp", ".cc", ".cxx", ".c++", ".hpp", ".hh", ".hxx", ".h"],
+        contentPatterns: [
+            "^\\s*(class|namespace|template)\\b",
+            "^\\s*(public|private|protected)\\s*:",
+            "\\bstd::",
+            "^\\s*#include\\s*<[a-z_]+>",
+        ],
+        ...C_COMMENTS,
+        docStyle: "jsdoc",
+    },
+    { name: "csharp", extensions: [".cs"], ...C_COMMENTS },
+    { name: "go", extensions: [".go"], ...C_COMMENTS, docStyle: "godoc" },
+    { name: "rust", extensions: [".rs"], ...C_COMMENTS, docStyle: "rustdoc" },
+    {
+        name: "php",
+        extensions: [".php"],
+        shebangs: ["php"],
+        lineComments: ["//", "#"],
+        blockComments: [["/*", "*/"]],
+        docStyle: "jsdoc",
+    },
+    {
+        name: "ruby",
+        extensions: [".rb", ".rake", ".gemspec"],
+        filenames: ["Gemfile", "Rakefile"],
+        shebangs: ["ruby"],
+        lineComments: ["#"],
+        blockComments: [["=begin", "=end"]],
+    },
+    { name: "swift", extensions: [".swift"], ...C_COMMENTS, docStyle: "jsdoc" },
+    { name: "kotlin", extensions: [".kt", ".kts"], ...C_COMMENTS, docStyle: "jsdoc" },
+    { name: "scala", extensions: [".scala", ".sc"], ...C_COMMENTS, docStyle: "jsdoc" },
+    {
+        name: "shell",
+        extensions: [".sh", ".bash", ".zsh", ".ksh"],
+        filenames: [".bashrc", ".bash_profile", ".zshrc", ".profile"],
+        shebangs: ["(ba|z|k|da)?sh"],
+        lineComments: ["#"],
+    },
+    { name: "sql", extensions: [".sql"], lineComments: ["--"], blockComments: [["/*", "*/"]] },
+    {
+        name: "vue",
+        extensions: [".vue"],
+        lineComments: ["//"],
+        blockComments: [["/*", "*/"], ["<!--", "-->"]],
+        docStyle: "jsdoc",
+    },
+    {
+        name: "svelte",
+        extensions: [".svelte"],
+        lineComments: ["//"],
+        blockComments: [["/*", "*/"], ["<!--", "-->"]],
+        docStyle: "jsdoc",
+    },
+];
+
+/**
+ * 当前生效的语言定义（按优先级排列，用户添加的排在最前面）
+ */
+const languages: LanguageDefinition[] = [...BUILTIN_LANGUAGES];
+
+/**
+ * 添加一种语言，或修改已有的语言
+ *
+ * 已有同名语言时，只覆盖给出的字段（例如只改 docStyle）；
+ * 添加或修改的语言优先于其他语言，所以可以用它"抢走"内置语言的扩展名
+ *
+ * @param definition - 语言定义
+ */
+export function registerLanguage(definition: LanguageDefinition): void {
+    const index = languages.findIndex((language) => language.name === definition.name);
+    const existing = index === -1 ? undefined : languages.splice(index, 1)[0];
+    languages.unshift({ ...existing, ...definition });
+}
+
+/**
+ * 按名称查找语言定义
+ */
+export function findLanguage(name: string): LanguageDefinition | undefined {
+    return languages.find((language) => language.name === name);
+}
+
+/**
+ * 所有已注册的语言名称（用于参数校验和帮助信息）
+ */
+export function languageNames(): string[] {
+    return languages.map((language) => language.name).sort();
+}
+
+/**
+ * 按扩展名查找语言（不看文件内容）
+ *
+ * @param extension - 扩展名（如 ".ts"），不区分大小写
+ * @returns 语言名称；不认识的扩展名返回 "text"
+ */
+export function languageForExtension(extension: string): string {
+    return candidatesFor(extension)[0]?.name ?? UNKNOWN_LANGUAGE;
+}
+
+/**
+ * 识别文件的编程语言
+ *
+ * @param filePath - 文件路径
+ * @param content - 文件内容（或者开头的一部分）；不传时只看文件名和扩展名
+ * @returns 语言名称；无法识别时返回 "text"
+ */
+export function detectLanguage(filePath: string, content?: string): string {
+    const name = basename(filePath);
+    const byName = languages.find((language) => language.filenames?.includes(name));
+    if (byName) {
+        return byName.name;
+    }
+
+    const candidates = candidatesFor(extname(filePath));
+    if (candidates.length === 1 || (candidates.length > 1 && content === undefined)) {
+        return candidates[0].name;
+    }
+    if (candidates.length > 1) {
+        return sniff(candidates, content!).name;
+    }
+
+    const interpreter = content === undefined ? undefined : parseShebang(content);
+    if (interpreter) {
+        const byShebang = languages.find((language) =>
+            language.shebangs?.some((pattern) => new RegExp(`^(?:${pattern})$`).test(interpreter))
+        );
+        if (byShebang) {
+            return byShebang.name;
+        }
+    }
+
+    return UNKNOWN_LANGUAGE;
+}
+
+/**
+ * 从 shebang 中取出解释器的名称
+ *
+ * - "#!/bin/bash" → "bash"
+ * - "#!/usr/bin/env python3" → "python3"
+ * - "#!/usr/bin/env -S node --no-warnings" → "node"
+ *
+ * @param content - 文件内容
+ * @returns 解释器名称；第一行不是 shebang 时返回 undefined
+ */
+export function parseShebang(content: string): string | undefined {
+    const match = content.match(/^#!\s*(\S+)(.*)/);
+    if (!match) {
+        return undefined;
+    }
+    const command = basename(match[1]);
+    if (command !== "env") {
+        return command;
+    }
+    // env 后面的第一个不是选项、也不是变量赋值的参数才是解释器
+    const program = match[2].trim().split(/\s+/).find((arg) => arg && !arg.startsWith("-") && !arg.includes("="));
+    return program ? basename(program) : undefined;
+}
+
+/**
+ * 使用这个扩展名的所有语言（按优先级排列）
+ */
+function candidatesFor(extension: string): LanguageDefinition[] {
+    const ext = extension.toLowerCase();
+    return ext ? languages.filter((language) => language.extensions?.includes(ext)) : [];
+}
+
+/**
+ * 按内容特征在几种候选语言中选择
+ *
+ * 统计每种语言的 contentPatterns 匹配的行数，最多的胜出；都不匹配时选优先级最高的
+ */
+function sniff(candidates: LanguageDefinition[], content: string): LanguageDefinition {
+    const lines = content.split("\n");
+    let best = candidates[0];
+    let bestScore = 0;
+    for (const language of candidates) {
+        const patterns = (language.contentPatterns ?? []).map((pattern) => new RegExp(pattern));
+        const score = lines.filter((line) => patterns.some((pattern) => pattern.test(line))).length;
+        if (score > bestScore) {
+            best = language;
+            bestScore = score;
+        }
+    }
+    return best;
+}
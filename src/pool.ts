@@ -0,0 +1,36 @@
+/**
+ * 并发任务池
+ *
+ * 用固定数量的 worker 并发处理一组任务，结果按输入顺序返回
+ */
+
+/**
+ * 并发执行任务
+ *
+ * 每个 worker 不断从共享的下标中领取下一个任务，直到全部领完。
+ * 任务函数自己负责捕获错误；如果任务抛出异常，整个 runPool 会以该异常失败
+ *
+ * @param items - 任务输入
+ * @param concurrency - 最大并发数（小于 1 时按 1 处理）
+ * @param task - 处理单个输入的异步函数
+ * @returns 与 items 顺序一致的结果数组
+ */
+export async function runPool<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
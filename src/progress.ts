@@ -0,0 +1,174 @@
+/**
+ * 进度显示模块
+ *
+ * 批量处理时在终端底部显示一行实时进度：
+ *   [3/10] 完成 2 · 失败 1 · 进行中 2 │ a.ts 约 320 tokens 12s │ b.ts 等待响应 3s
+ *
+ * 使用流式接口时，每个进行中的文件会显示已收到的 token 数（估算值）和已用时间，
+ * 大文件不再长时间没有任何输出。
+ *
+ * 其他日志通过 log() 输出：先清掉进度行，打印日志，再重新画出进度行，
+ * 这样并发输出的日志不会和进度行混在一起
+ */
+
+import { basename } from "path";
+import { estimateTokens } from "./chunker.js";
+
+/**
+ * 一个正在处理的文件
+ */
+interface ActiveFile {
+    startedAt: number;
+    tokens: number;
+}
+
+/**
+ * 收到新文本时重画进度行的最小间隔（毫秒），避免频繁刷新终端
+ */
+const RENDER_INTERVAL_MS = 100;
+
+/**
+ * 批量处理的实时进度行
+ */
+export class ProgressLine {
+    private done = 0;
+    private failed = 0;
+    private readonly active = new Map<string, ActiveFile>();
+    private lastRender = 0;
+    private ticker?: NodeJS.Timeout;
+
+    /**
+     * 是否真的在终端中显示（输出不是终端时所有方法都只做计数）
+     */
+    readonly enabled: boolean;
+
+    /**
+     * @param total - 文件总数
+     * @param stream - 输出流（默认 stderr，避免干扰 stdout 上的 diff 等输出）
+     */
+    constructor(
+        private readonly total: number,
+        private readonly stream: NodeJS.WriteStream = process.stderr
+    ) {
+        // 只有输出到终端时才能用 "\r" 原地刷新
+        this.enabled = stream.isTTY === true;
+    }
+
+    /**
+     * 一个文件开始处理
+     */
+    start(filePath: string): void {
+        this.active.set(filePath, { startedAt: Date.now(), tokens: 0 });
+        // 没有新数据时也每秒刷新一次，让已用时间走起来
+        if (this.enabled && !this.ticker) {
+            this.ticker = setInterval(() => this.render(), 1000);
+            this.ticker.unref();
+        }
+        this.render();
+    }
+
+    /**
+     * 收到某个文件新生成的文本（流式接口）
+     */
+    receive(filePath: string, delta: string): void {
+        const file = this.active.get(filePath);
+        if (!file) return;
+        file.tokens += estimateTokens(delta);
+        if (Date.now() - this.lastRender >= RENDER_INTERVAL_MS) {
+            this.render();
+        }
+    }
+
+    /**
+     * 之前收到的一段文本作废（流式请求中途失败、重新生成）
+     */
+    discard(filePath: string, discarded: string): void {
+        const file = this.active.get(filePath);
+        if (!file) return;
+        file.tokens = Math.max(0, file.tokens - estimateTokens(discarded));
+    }
+
+    /**
+     * 一个文件处理结束
+     *
+     * @param filePath - 文件路径
+     * @param ok - 是否成功
+     */
+    finish(filePath: string, ok: boolean): void {
+        this.active.delete(filePath);
+        if (ok) this.done++;
+        else this.failed++;
+        this.render();
+    }
+
+    /**
+     * 输出一行日志，不打乱进度行
+     */
+    log(message: string): void {
+        this.clear();
+        console.log(message);
+        this.render();
+    }
+
+    /**
+     * 输出一行错误日志，不打乱进度行
+     */
+    error(message: string): void {
+        this.clear();
+        console.error(message);
+        this.render();
+    }
+
+    /**
+     * 处理全部结束，清除进度行
+     */
+    stop(): void {
+        if (this.ticker) {
+            clearInterval(this.ticker);
+            this.ticker = undefined;
+        }
+        this.clear();
+    }
+
+    private clear(): void {
+        if (this.enabled) {
+            this.stream.write("\r\x1b[2K");
+        }
+    }
+
+    private render(): void {
+        if (!this.enabled) return;
+        this.lastRender = Date.now();
+
+        const finished = this.done + this.failed;
+        const parts = [
+            `[${finished}/${this.total}] 完成 ${this.done} · 失败 ${this.failed} · 进行中 ${this.active.size}`,
+        ];
+        for (const [filePath, file] of this.active) {
+            const seconds = Math.floor((this.lastRender - file.startedAt) / 1000);
+            const received = file.tokens > 0 ? `约 ${file.tokens} tokens` : "等待响应";
+            parts.push(`${basename(filePath)} ${received} ${seconds}s`);
+        }
+
+        this.stream.write(`\r\x1b[2K${fitWidth(parts.join(" │ "), this.stream.columns)}`);
+    }
+}
+
+/**
+ * 按终端宽度截断一行文字
+ *
+ * 超出终端宽度会换行，"\r" 就无法回到行首；中文等全角字符按两列计算
+ */
+function fitWidth(line: string, columns: number | undefined): string {
+    if (!columns) return line;
+    let width = 0;
+    let result = "";
+    for (const ch of line) {
+        width += ch.codePointAt(0)! >= 0x2e80 ? 2 : 1;
+        if (width > columns - 2) {
+            return result + "…";
+        }
+        result += ch;
+    }
+    return result;
+}
@@ -0,0 +1,389 @@
+/**
+ * 提示词模块
+ *
+ * 集中管理发送给模型的提示词模板：
+ * - 整个文件一次处理时的提示词
+ * - 大文件分段处理时，带上下文的分段提示词
+ * - 结构化模式的 JSON 提示词
+ * - refresh 命令重写过时注释、挑选冗余注释的提示词
+ * - 可以调用只读工具时的系统提示词
+ *
+ * 整文件、分段和结构化模式的提示词都可以附带被导入模块的声明（--imports）
+ */
+
+import { ImportedModule } from "./imports.js";
+import { DocScope } from "./scope.js";
+import { DocStyle, styleRule } from "./styles.js";
+
+/**
+ * 分段处理时附带的上下文
+ *
+ * - index / total: 当前是第几段、一共几段
+ * - before: 当前段之前的若干行原始代码（帮助模型理解变量和类型的来源）
+ * - outline: 整个文件的顶层声明概要
+ */
+export interface ChunkContext {
+    index: number;
+    total: number;
+    before: string;
+    outline: string[];
+}
+
+/**
+ * 构建提示词所需的参数
+ *
+ * - language: 编程语言名称
+ * - commentLanguage: 注释使用的自然语言名称（如 "中文"、"英文"），默认中文
+ * - style: 文档注释风格，未设置时按该语言的习惯书写
+ * - scope: 注释范围，默认 "all"
+ * - inline: 是否添加函数体内的行内注释，默认 true
+ * - imports: 被导入模块的声明（--imports），作为参考放在代码之前
+ */
+export interface CommentPromptParams {
+    language: string;
+    code: string;
+    chunk?: ChunkContext;
+    strict?: boolean;
+    commentLanguage?: string;
+    style?: DocStyle;
+    scope?: DocScope;
+    inline?: boolean;
+    imports?: ImportedModule[];
+}
+
+/**
+ * 各注释范围对应的要求
+ */
+const SCOPE_REQUIREMENTS: Record<DocScope, string> = {
+    all: "为每个函数、类、方法添加注释",
+    exported:
+        "只为导出的声明（带 export 的声明，以及通过 export { ... } 或 export default 导出的声明）添加或更新文档注释，" +
+        "不要给未导出的声明添加注释",
+    public:
+        "只为导出的声明（带 export 的声明，以及通过 export { ... } 或 export default 导出的声明）" +
+        "和导出的类、接口中的公共成员（非 private / protected）添加或更新文档注释，不要给其他声明添加注释",
+};
+
+/**
+ * 行内注释的要求
+ */
+const INLINE_REQUIREMENT = "为关键逻辑和复杂代码段添加行内注释";
+const NO_INLINE_REQUIREMENT = "不要添加行内注释，函数体内部保持原样";
+
+/**
+ * 注释要求（整文件和分段共用）
+ */
+const REQUIREMENTS = [
+    "注释要清晰易懂，说明代码的作用和意图",
+    "保持代码的原有格式和结构",
+    "已经有注释的地方保留原注释，不要再重复添加意思相同的注释",
+    "只返回添加了注释的完整代码，不要添加额外的说明文字",
+];
+
+/**
+ * 分段处理时追加的要求
+ */
+const CHUNK_REQUIREMENT = "只返回这个片段本身，不要补全、重复或改写片段之外的代码";
+
+/**
+ * 严格模式追加的要求
+ * 
+ * 上一次输出被代码保护校验拒绝后重试时使用，
+ * 明确禁止任何对代码本身的修改
+ */
+const STRICT_RULES = `
+严格要求（上一次的输出修改了代码，被拒绝）：
+- 只允许新增注释，不允许修改、删除、重排任何一行代码
+- 不要重命名变量、函数或参数，不要修改字符串、数字和运算符
+- 不要"修复"或"优化"代码，即使你认为代码有问题
+- 不要删除原有的代码行，也不要新增代码行`;
+
+/**
+ * 构建添加注释的提示词
+ *
+ * 传入 chunk 时生成分段提示词：明确告诉模型这只是文件的一部分，
+ * 只能返回这一段，不要补全或重复其他部分；
+ * 传入 style 时追加该风格的格式要求；scope / inline 决定给哪些声明写注释、是否写行内注释；
+ * strict 为 true 时追加严格要求
+ *
+ * @param params - 语言、代码、注释语言和风格、注释范围、可选的分段上下文和严格模式
+ * @returns 发送给模型的提示词
+ */
+export function buildCommentPrompt(params: CommentPromptParams): string {
+    const { language, code, chunk } = params;
+    const commentLanguage = params.commentLanguage ?? "中文";
+
+    const items = [
+        SCOPE_REQUIREMENTS[params.scope ?? "all"],
+        params.inline === false ? NO_INLINE_REQUIREMENT : INLINE_REQUIREMENT,
+        ...REQUIREMENTS,
+        `注释使用${commentLanguage}书写`,
+        ...(params.style ? [styleRule(params.style)] : []),
+        ...(chunk ? [CHUNK_REQUIREMENT] : []),
+    ];
+    const numbered = items.map((item, i) => `${i + 1}. ${item}`).join("\n");
+    const requirements = params.strict ? numbered + STRICT_RULES : numbered;
+    const imports = importsSection(params.imports, language);
+
+    if (!chunk) {
+        return `请为以下${language}代码添加详细的${commentLanguage}注释。要求：
+${requirements}
+
+${imports}代码：
+\`\`\`${language}
+${code}
+\`\`\`
+
+请直接返回添加了注释的代码：`;
+    }
+
+    const outline = chunk.outline.length > 0
+        ? `文件的顶层结构概要（仅供参考）：\n${chunk.outline.map((line) => `- ${line}`).join("\n")}\n\n`
+        : "";
+    const before = chunk.before
+        ? `当前片段之前的代码（仅供参考，不要返回）：\n\`\`\`${language}\n${chunk.before}\n\`\`\`\n\n`
+        : "";
+
+    return `下面是一个${language}文件的第 ${chunk.index + 1}/${chunk.total} 个片段。请为这个片段添加详细的${commentLanguage}注释。要求：
+${requirements}
+
+${imports}${outline}${before}需要添加注释的片段：
+\`\`\`${language}
+${code}
+\`\`\`
+
+请直接返回添加了注释的片段：`;
+}
+
+/**
+ * 生成被导入模块的声明部分（没有时为空字符串）
+ *
+ * 每个模块一个代码块，标明导入路径；超出 token 预算而省略的声明只给出数量
+ *
+ * @param imports - 被导入的模块
+ * @param language - 代码块的语言标记
+ * @returns 以空行结尾的提示词片段
+ */
+function importsSection(imports: ImportedModule[] | undefined, language: string): string {
+    if (!imports || imports.length === 0) {
+        return "";
+    }
+    const modules = imports.map((module) => {
+        const block = module.declarations.length > 0
+            ? `\n\`\`\`${language}\n${module.declarations.join("\n\n")}\n\`\`\``
+            : "";
+        const omitted = module.omitted > 0 ? `\n（超出长度上限，省略了 ${module.omitted} 个声明）` : "";
+        return `"${module.specifier}":${block}${omitted}`;
+    });
+    return `被导入的模块中相关声明的签名和文档注释（仅供参考，不要返回）：\n${modules.join("\n\n")}\n\n`;
+}
+
+/**
+ * 结构化模式中需要注释的一个声明
+ *
+ * - id: 声明的唯一标识，模型按它返回注释
+ * - kind: 声明种类（function、class、method 等）
+ * - signature: 声明的第一行
+ */
+export interface StructuredTarget {
+    id: string;
+    kind: string;
+    signature: string;
+}
+
+/**
+ * 构建结构化模式提示词所需的参数
+ */
+export interface StructuredPromptParams {
+    language: string;
+    code: string;
+    targets: StructuredTarget[];
+    commentLanguage?: string;
+    style?: DocStyle;
+    imports?: ImportedModule[];
+}
+
+/**
+ * 构建结构化模式的提示词
+ *
+ * 模型不再返回整个文件，而是返回一个 JSON 对象：键是声明 id，值是文档注释的正文。
+ * 注释由程序插入到正确的位置，模型完全接触不到源代码文本
+ *
+ * @param params - 语言、代码、需要注释的声明、注释语言和风格
+ * @returns 发送给模型的提示词
+ */
+export function buildStructuredPrompt(params: StructuredPromptParams): string {
+    const { language, code, targets } = params;
+    const commentLanguage = params.commentLanguage ?? "中文";
+
+    const items = [
+        "为下面列出的每个声明写一段文档注释，说明它的作用和意图",
+        `注释使用${commentLanguage}书写`,
+        ...(params.style ? [styleRule(params.style)] : []),
+        "只写注释正文：不要包含 /**、*/ 或每行开头的 *，换行用 \\n 表示",
+        "只返回一个 JSON 对象，键是声明的 id，值是注释正文；不要返回代码，不要添加额外的说明文字",
+    ];
+    const requirements = items.map((item, i) => `${i + 1}. ${item}`).join("\n");
+    const list = targets.map((t) => `- ${t.id}（${t.kind}）: ${t.signature}`).join("\n");
+
+    return `请为以下${language}代码中的声明编写${commentLanguage}文档注释。要求：
+${requirements}
+
+${importsSection(params.imports, language)}代码：
+\`\`\`${language}
+${code}
+\`\`\`
+
+需要注释的声明：
+${list}
+
+返回格式示例：
+{"${targets[0]?.id ?? "id"}": "第一行说明\\n@param ..."}`;
+}
+
+/**
+ * refresh 中需要重写的一个文档注释
+ *
+ * - id: 注释的唯一标识，模型按它返回新注释
+ * - signature: 声明当前的签名
+ * - oldDoc: 原来的注释
+ * - reasons: 与签名不一致的地方
+ */
+export interface RefreshTarget {
+    id: string;
+    signature: string;
+    oldDoc: string;
+    reasons: string[];
+}
+
+/**
+ * 构建 refresh 提示词所需的参数
+ */
+export interface RefreshPromptParams {
+    language: string;
+    code: string;
+    items: RefreshTarget[];
+    commentLanguage?: string;
+    style?: DocStyle;
+}
+
+/**
+ * 构建重写过时文档注释的提示词
+ *
+ * 和结构化模式一样，模型只返回 JSON：键是注释 id，值是新的注释正文
+ *
+ * @param params - 语言、代码、需要重写的注释、注释语言和风格
+ * @returns 发送给模型的提示词
+ */
+export function buildRefreshPrompt(params: RefreshPromptParams): string {
+    const { language, code, items } = params;
+    const commentLanguage = params.commentLanguage ?? "中文";
+
+    const requirements = [
+        "下面列出的文档注释与声明当前的签名不一致，请按当前签名重写它们",
+        "保留原注释中仍然正确的说明，只修正过时的部分",
+        `注释使用${commentLanguage}书写`,
+        ...(params.style ? [styleRule(params.style)] : []),
+        "只写注释正文：不要包含 /**、*/ 或每行开头的 *，换行用 \\n 表示",
+        "只返回一个 JSON 对象，键是注释的 id，值是新的注释正文；不要返回代码，不要添加额外的说明文字",
+    ].map((item, i) => `${i + 1}. ${item}`).join("\n");
+
+    const list = items.map((item) => `### ${item.id}
+签名: ${item.signature}
+问题:
+${item.reasons.map((reason) => `- ${reason}`).join("\n")}
+原注释:
+${item.oldDoc}`).join("\n\n");
+
+    return `请更新以下${language}代码中过时的${commentLanguage}文档注释。要求：
+${requirements}
+
+代码：
+\`\`\`${language}
+${code}
+\`\`\`
+
+需要重写的注释：
+${list}
+
+返回格式示例：
+{"${items[0]?.id ?? "id"}": "第一行说明\\n@param ..."}`;
+}
+
+/**
+ * --prune-obvious 中的一个候选注释
+ *
+ * - id: 注释的唯一标识
+ * - text: 注释文本
+ * - context: 注释所说明的那行代码
+ */
+export interface PruneCandidate {
+    id: string;
+    text: string;
+    context: string;
+}
+
+/**
+ * 构建删除冗余注释提示词所需的参数
+ */
+export interface PrunePromptParams {
+    language: string;
+    comments: PruneCandidate[];
+}
+
+/**
+ * 构建挑选冗余注释的提示词
+ *
+ * 模型只返回要删除的注释 id 列表，删除由程序完成
+ *
+ * @param params - 语言和候选注释
+ * @returns 发送给模型的提示词
+ */
+export function buildPrunePrompt(params: PrunePromptParams): string {
+    const { language, comments } = params;
+    const list = comments
+        .map((c) => `- ${c.id}: ${c.text.replace(/\s*\n\s*/g, " ")}\n  代码: ${c.context}`)
+        .join("\n");
+
+    return `下面是${language}代码中的一些注释和它们所说明的代码。请找出只是在复述代码的冗余注释。要求：
+1. 冗余注释指不看注释也能从代码直接读出的内容，例如 "// 设置 i 为 0" 之于 "i = 0"
+2. 说明意图、原因、边界情况、注意事项的注释都要保留
+3. 拿不准时保留
+4. 只返回一个 JSON 对象，格式为 {"remove": [要删除的注释 id]}，不要添加额外的说明文字
+
+注释：
+${list}`;
+}
+
+/**
+ * 构建工具说明提示词所需的参数
+ *
+ * - filePath: 正在处理的文件（相对于项目根目录的路径），模型据此解析相对路径的导入
+ * - maxIterations: 最多可以调用几轮工具
+ */
+export interface ToolsPromptParams {
+    filePath: string;
+    maxIterations: number;
+}
+
+/**
+ * 构建可以调用只读工具时的系统提示词
+ *
+ * 告诉模型工具的用途和边界：只用来了解被导入的函数和类型，
+ * 信息足够之后按用户消息的要求直接给出结果
+ *
+ * @param params - 文件路径和工具调用轮数上限
+ * @returns 系统提示词
+ */
+export function buildToolsPrompt(params: ToolsPromptParams): string {
+    return `你正在为项目中的文件 ${params.filePath} 编写注释，可以调用只读工具查看项目中的其他文件。
+1. 代码使用了从其他文件导入的函数、类型或常量，而你不确定它们的作用时，先用工具查看它们的定义，再据此编写注释
+2. 路径都相对于项目根目录；相对路径的导入要按 ${params.filePath} 所在的目录解析
+3. 只查看编写注释真正需要的内容，最多调用 ${params.maxIterations} 轮工具
+4. 信息足够之后不要再调用工具，直接按用户消息的要求返回结果`;
+}
+
+/**
+ * 工具调用达到上限后追加的提示词（之后的请求不再提供工具）
+ */
+export const TOOLS_EXHAUSTED_PROMPT = "工具调用已达到上限，请根据已有的信息，按最初的要求直接返回结果。";
@@ -0,0 +1,1020 @@
+/**
+ * LLM 提供方（Provider）模块
+ *
+ * 这个模块把"调用哪个大模型服务"从业务逻辑里抽离出来：
+ * 1. 定义统一的 LLMProvider 接口（输入对话消息，输出文本）
+ * 2. 为每个服务实现各自的请求格式、认证方式和响应解析
+ * 3. 根据 CLI 参数和环境变量创建对应的 Provider
+ *
+ * 目前支持：
+ * - dashscope: 阿里云 DashScope 原生接口
+ * - openai:    OpenAI 兼容的 chat completions 接口（vLLM、LM Studio、内部网关等）
+ * - ollama:    本地 Ollama 服务
+ */
+
+import {
+    ApiError,
+    AuthError,
+    MalformedResponseError,
+    NetworkError,
+    QuotaError,
+    RateLimitError,
+    TimeoutError,
+} from "./errors.js";
+
+/**
+ * 支持的 Provider 名称
+ */
+export type ProviderName = "dashscope" | "openai" | "ollama";
+
+/**
+ * 所有 Provider 名称的列表，用于参数校验和帮助信息
+ */
+export const PROVIDER_NAMES: ProviderName[] = ["dashscope", "openai", "ollama"];
+
+/**
+ * 模型请求调用的一个工具
+ *
+ * - id: 调用的标识，返回结果时原样带上（Ollama 不返回 id，由程序按顺序生成）
+ * - name: 工具名称
+ * - arguments: JSON 格式的参数
+ */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: string;
+}
+
+/**
+ * 提供给模型的工具
+ *
+ * - name: 工具名称
+ * - description: 工具的作用（模型据此决定是否调用）
+ * - parameters: 参数的 JSON Schema
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+/**
+ * 对话消息
+ *
+ * 三种服务都使用 role + content 的消息格式，所以可以共用一个类型。
+ * 工具调用时还会用到：
+ * - toolCalls: 模型请求调用的工具（role 为 "assistant"）
+ * - toolCallId / toolName: 这条消息是哪一次工具调用的结果（role 为 "tool"）
+ */
+export interface ChatMessage {
+    role: "system" | "user" | "assistant" | "tool";
+    content: string;
+    toolCalls?: ToolCall[];
+    toolCallId?: string;
+    toolName?: string;
+}
+
+/**
+ * 发送给 Provider 的请求
+ *
+ * 采样参数都是可选的，未设置时由 Provider 使用自己的默认值。
+ * 传入 onDelta 时使用流式接口，每收到一段新生成的文本就回调一次；
+ * 最终结果仍然通过 complete() 的返回值一次性给出。
+ * 流式响应中途失败、重新请求之前（见 retry.ts）调用 onDeltaReset，传入这次请求已经通过 onDelta 给出的文本，
+ * 这些文本作废，接下来的 onDelta 从头开始。
+ * 传入 tools 时模型可以请求调用这些工具（见 tools.ts），这时不使用流式接口，onDelta 不会被调用
+ */
+export interface ChatRequest {
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    onDelta?: (delta: string) => void;
+    onDeltaReset?: (discarded: string) => void;
+    tools?: ToolDefinition[];
+}
+
+/**
+ * token 用量
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Provider 返回的统一结果
+ *
+ * - content: 模型生成的文本
+ * - finishReason: 结束原因（如 "stop"、"length"），用于判断输出是否被截断
+ * - usage: token 用量（服务没有返回时为 undefined）
+ * - cached: 是否来自本地缓存（见 cache.ts），命中缓存时没有实际消耗 token
+ * - toolCalls: 模型请求调用的工具（请求中带了 tools 时才可能有）
+ * - commit: 把响应写入本地缓存；只有 CachedProvider 返回的新响应才有，
+ *   调用方确认输出可用（通过了代码保护校验、语法检查和解析）之后再调用（见 cache.ts）
+ */
+export interface ChatResponse {
+    content: string;
+    finishReason?: string;
+    usage?: TokenUsage;
+    cached?: boolean;
+    toolCalls?: ToolCall[];
+    commit?: () => Promise<void>;
+}
+
+/**
+ * LLM Provider 接口
+ *
+ * 每个 Provider 负责自己的 URL、认证和响应格式，
+ * 调用方只需要关心 complete() 的输入和输出。
+ * isCached 是可选的：请求会直接由本地缓存返回（不发起网络请求）时为 true，
+ * CachedProvider 实现了它，用量统计据此让命中缓存的请求不占用费用上限
+ */
+export interface LLMProvider {
+    readonly name: ProviderName;
+    readonly model: string;
+    complete(request: ChatRequest): Promise<ChatResponse>;
+    isCached?(request: ChatRequest): Promise<boolean>;
+}
+
+/**
+ * 创建 Provider 所需的配置
+ *
+ * 除了 provider 以外都是可选的，未设置时从环境变量或默认值中读取
+ */
+export interface ProviderConfig {
+    provider?: ProviderName;
+    model?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    timeoutMs?: number;
+}
+
+/**
+ * 默认的单次请求超时时间（毫秒）
+ *
+ * 大文件的一段输出可能需要一两分钟，所以默认值比较宽松
+ */
+export const DEFAULT_TIMEOUT_MS = 120_000;
+
+/**
+ * 各 Provider 的默认模型和默认地址
+ */
+const DEFAULTS: Record<ProviderName, { model: string; baseUrl: string }> = {
+    dashscope: {
+        model: "qwen-plus",
+        baseUrl: "https://dashscope.aliyuncs.com/api/v1",
+    },
+    openai: {
+        model: "gpt-4o-mini",
+        baseUrl: "https://api.openai.com/v1",
+    },
+    ollama: {
+        model: "qwen2.5-coder",
+        baseUrl: "http://localhost:11434",
+    },
+};
+
+/**
+ * Provider 的默认模型（没有配置 model 时使用，config show 也用它显示实际生效的模型）
+ */
+export function defaultModel(provider: ProviderName): string {
+    return DEFAULTS[provider].model;
+}
+
+/**
+ * 是否开启调试模式（DEBUG=1 或 DEBUG=true）
+ */
+export function isDebug(): boolean {
+    return process.env.DEBUG === "1" || process.env.DEBUG === "true";
+}
+
+/**
+ * 去掉 URL 末尾的斜杠，避免拼接出 "//chat/completions"
+ */
+function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+/**
+ * 解析 Retry-After 响应头
+ *
+ * 可以是秒数（"30"），也可以是 HTTP 日期（"Wed, 21 Oct 2015 07:28:00 GMT"）
+ *
+ * @returns 建议等待的毫秒数；没有或无法解析时返回 undefined
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 额度耗尽时响应体里常见的错误码
+ *
+ * - insufficient_quota: OpenAI（以 429 返回）
+ * - Arrearage: DashScope 账户欠费（以 400 返回）
+ */
+const QUOTA_ERROR_CODES = ["insufficient_quota", "Arrearage"];
+
+/**
+ * 根据状态码和响应体创建对应的错误
+ */
+function httpError(response: Response, errorText: string): ApiError {
+    const { status } = response;
+    const message = `API 请求失败: ${status} ${response.statusText}\n${errorText}`;
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+
+    if (status === 401 || status === 403) {
+        return new AuthError(message, status);
+    }
+    if (status === 402 || QUOTA_ERROR_CODES.some((code) => errorText.includes(code))) {
+        return new QuotaError(message, status);
+    }
+    if (status === 429) {
+        return new RateLimitError(message, status, retryAfterMs);
+    }
+    return new ApiError(message, status, retryAfterMs);
+}
+
+/**
+ * 发送 JSON POST 请求并返回解析后的响应体
+ *
+ * 所有 Provider 共用这一段逻辑：
+ * - 超过 timeoutMs 仍未收到完整响应时，通过 AbortController 取消请求并抛出 TimeoutError
+ * - 非 2xx 状态码按类型抛出 AuthError / QuotaError / RateLimitError / ApiError
+ * - 连接失败抛出 NetworkError，响应体不是 JSON 时抛出 MalformedResponseError
+ * - 调试模式下打印完整响应
+ */
+async function postJson(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...headers,
+                },
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new TimeoutError(`API 请求超时（${timeoutMs / 1000} 秒）: ${url}`);
+            }
+            // fetch 的网络错误把真正的原因放在 cause 里（如 ECONNREFUSED）
+            const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+            throw new NetworkError(
+                `无法连接到 ${url}: ${cause instanceof Error ? cause.message : String(cause)}`
+            );
+        }
+
+        // 读取响应体同样可能超时，所以计时器要等响应体读完才清除
+        let text: string;
+        try {
+            text = await response.text();
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new TimeoutError(`API 请求超时（${timeoutMs / 1000} 秒）: ${url}`);
+            }
+            throw new NetworkError(
+                `读取响应失败: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        if (!response.ok) {
+            throw httpError(response, text);
+        }
+
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new MalformedResponseError(
+                `API 返回的不是合法的 JSON: ${text.substring(0, 500)}`
+            );
+        }
+
+        if (isDebug()) {
+            console.log("API 响应:", JSON.stringify(data, null, 2));
+        }
+
+        return data;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * 发送 JSON POST 请求，并逐行读取流式响应
+ *
+ * 与 postJson 的区别：
+ * - 超时按空闲时间计算：每收到一块数据就重新计时，输出很长也不会因为总时长超时
+ * - 响应体按行交给 onLine（SSE 的 "data: ..." 行，或 Ollama 的 NDJSON 行），
+ *   结束时再补一个空行，让 SSE 解析器处理最后一个事件
+ * - 读取中途连接断开时抛出 NetworkError，调用方已经收到的内容都不能使用
+ */
+async function postStream(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+    onLine: (line: string) => void
+): Promise<void> {
+    const controller = new AbortController();
+    let timer = setTimeout(() => controller.abort(), timeoutMs);
+    const timeoutError = () =>
+        new TimeoutError(`API 请求超时（${timeoutMs / 1000} 秒内没有收到数据）: ${url}`);
+
+    try {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...headers,
+                },
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw timeoutError();
+            }
+            const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+            throw new NetworkError(
+                `无法连接到 ${url}: ${cause instanceof Error ? cause.message : String(cause)}`
+            );
+        }
+
+        if (!response.ok) {
+            throw httpError(response, await response.text().catch(() => ""));
+        }
+        if (!response.body) {
+            throw new MalformedResponseError("API 没有返回响应体");
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        const emit = (line: string) => {
+            if (isDebug()) {
+                console.log("API 流式响应:", line);
+            }
+            onLine(line.replace(/\r$/, ""));
+        };
+
+        for (;;) {
+            let chunk: Awaited<ReturnType<typeof reader.read>>;
+            try {
+                chunk = await reader.read();
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    throw timeoutError();
+                }
+                throw new NetworkError(
+                    `流式响应中断: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+            if (chunk.done) break;
+
+            clearTimeout(timer);
+            timer = setTimeout(() => controller.abort(), timeoutMs);
+
+            buffer += decoder.decode(chunk.value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop()!;
+            lines.forEach(emit);
+        }
+
+        buffer += decoder.decode();
+        if (buffer) emit(buffer);
+        onLine("");
+    } finally {
+        clearTimeout(timer);
+        // 解析出错提前退出时，取消还没读完的响应
+        controller.abort();
+    }
+}
+
+/**
+ * 创建 SSE（Server-Sent Events）行解析器
+ *
+ * SSE 的一个事件由若干 "字段: 值" 行组成，以空行结束；
+ * 这里只关心 event 和 data 两个字段，多行 data 用换行连接
+ *
+ * @param onEvent - 每解析出一个事件回调一次
+ * @returns 逐行调用的解析函数
+ */
+function sseParser(onEvent: (data: string, event: string) => void): (line: string) => void {
+    let event = "message";
+    let data: string[] = [];
+
+    return (line: string) => {
+        if (line === "") {
+            if (data.length > 0) {
+                onEvent(data.join("\n"), event);
+            }
+            event = "message";
+            data = [];
+            return;
+        }
+        // 以冒号开头的是注释（常用作心跳）
+        if (line.startsWith(":")) return;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "data") data.push(value);
+        else if (field === "event") event = value;
+    };
+}
+
+/**
+ * 解析流式响应中的一段 JSON
+ */
+function parseStreamJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new MalformedResponseError(`流式响应中的数据不是合法的 JSON: ${text.substring(0, 500)}`);
+    }
+}
+
+/**
+ * 流式响应中途返回的错误
+ *
+ * 这时 HTTP 状态码已经是 200，没有真正的状态码可用：
+ * 额度耗尽按 QuotaError 处理，其他按服务端错误（500，可以重试）处理
+ */
+function streamError(provider: ProviderName, detail: string): ApiError {
+    const message = `${provider} 流式响应中返回错误: ${detail}`;
+    if (QUOTA_ERROR_CODES.some((code) => detail.includes(code))) {
+        return new QuotaError(message, 402);
+    }
+    return new ApiError(message, 500);
+}
+
+/**
+ * 流式响应没有正常结束（没有收到结束标记）
+ *
+ * 按网络错误处理，可以重试；已经收到的内容全部丢弃
+ */
+function incompleteStream(provider: ProviderName): NetworkError {
+    return new NetworkError(`${provider} 的流式响应在结束前中断，已丢弃收到的内容`);
+}
+
+/**
+ * 响应格式无法识别时抛出的错误
+ *
+ * 只截取前 500 个字符作为预览，避免把整段代码打印到终端
+ */
+function unrecognizedResponse(provider: ProviderName, data: unknown): MalformedResponseError {
+    const responseStr = JSON.stringify(data, null, 2);
+    return new MalformedResponseError(
+        `${provider} 返回的数据格式不正确。\n` +
+        `请设置 DEBUG=1 查看完整响应，或检查 API 文档。\n` +
+        `响应结构预览: ${responseStr.substring(0, 500)}`
+    );
+}
+
+/**
+ * 转换成 OpenAI 格式的工具定义（三种服务都使用这个格式）
+ */
+function wireTools(tools: ToolDefinition[] | undefined): unknown[] | undefined {
+    return tools?.map((tool) => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+}
+
+/**
+ * 转换成 OpenAI 格式的对话消息
+ *
+ * 普通消息只保留 role 和 content，与没有工具调用时发送的内容完全相同；
+ * 工具调用的结果在 DashScope 中还需要带上工具名称（name）
+ *
+ * @param messages - 对话消息
+ * @param withToolName - 工具结果是否带上 name 字段
+ */
+function wireMessages(messages: ChatMessage[], withToolName = false): unknown[] {
+    return messages.map((message) => {
+        if (message.role === "tool") {
+            return {
+                role: "tool",
+                content: message.content,
+                tool_call_id: message.toolCallId,
+                ...(withToolName ? { name: message.toolName } : {}),
+            };
+        }
+        if (message.toolCalls?.length) {
+            return {
+                role: message.role,
+                content: message.content,
+                tool_calls: message.toolCalls.map((call) => ({
+                    id: call.id,
+                    type: "function",
+                    function: { name: call.name, arguments: call.arguments },
+                })),
+            };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+/**
+ * 转换成 Ollama 格式的对话消息
+ *
+ * 与 OpenAI 格式的区别：工具调用的 arguments 是对象而不是 JSON 字符串，
+ * 工具结果用 tool_name 而不是 tool_call_id 对应调用
+ */
+function ollamaMessages(messages: ChatMessage[]): unknown[] {
+    return messages.map((message) => {
+        if (message.role === "tool") {
+            return { role: "tool", content: message.content, tool_name: message.toolName };
+        }
+        if (message.toolCalls?.length) {
+            return {
+                role: message.role,
+                content: message.content,
+                tool_calls: message.toolCalls.map((call) => ({
+                    function: { name: call.name, arguments: parseArguments(call.arguments) },
+                })),
+            };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+/**
+ * 解析 JSON 格式的工具参数（无法解析时按没有参数处理）
+ */
+function parseArguments(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * 解析响应中的 tool_calls
+ *
+ * OpenAI 和 DashScope 的 arguments 是 JSON 字符串，Ollama 是对象；
+ * 没有 id 时按顺序生成
+ *
+ * @returns 工具调用列表；没有工具调用时返回 undefined
+ */
+function parseToolCalls(raw: unknown): ToolCall[] | undefined {
+    if (!Array.isArray(raw) || raw.length === 0) {
+        return undefined;
+    }
+    return raw.map((call: any, i) => {
+        const args = call?.function?.arguments;
+        return {
+            id: typeof call?.id === "string" && call.id ? call.id : `call_${i}`,
+            name: String(call?.function?.name ?? ""),
+            arguments: typeof args === "string" ? args : JSON.stringify(args ?? {}),
+        };
+    });
+}
+
+/**
+ * 阿里云 DashScope 原生接口
+ *
+ * 请求格式: { model, input: { messages }, parameters: {...} }
+ * 响应格式: { output: { choices: [{ message, finish_reason }] }, usage: { input_tokens, output_tokens } }
+ *
+ * 使用 result_format: "message" 时返回 choices；
+ * 旧版 text 格式返回 output.text，这里同样兼容
+ */
+export class DashScopeProvider implements LLMProvider {
+    readonly name = "dashscope" as const;
+    readonly model: string;
+    private readonly baseUrl: string;
+    private readonly apiKey: string;
+    private readonly timeoutMs?: number;
+
+    constructor(config: ProviderConfig = {}) {
+        const apiKey = config.apiKey ?? process.env.DASHSCOPE_API_KEY;
+        if (!apiKey) {
+            throw new Error(
+                "未找到 DASHSCOPE_API_KEY 环境变量，请先设置 API Key"
+            );
+        }
+        this.apiKey = apiKey;
+        this.timeoutMs = config.timeoutMs;
+        this.model = config.model ?? DEFAULTS.dashscope.model;
+        this.baseUrl = trimTrailingSlash(
+            config.baseUrl ?? process.env.DASHSCOPE_BASE_URL ?? DEFAULTS.dashscope.baseUrl
+        );
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        if (request.onDelta && !request.tools) {
+            return this.stream(request, request.onDelta);
+        }
+
+        const data = await postJson(
+            `${this.baseUrl}/services/aigc/text-generation/generation`,
+            { Authorization: `Bearer ${this.apiKey}` },
+            {
+                model: this.model,
+                input: { messages: wireMessages(request.messages, true) },
+                parameters: {
+                    result_format: "message",
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                    tools: wireTools(request.tools),
+                },
+            },
+            this.timeoutMs
+        );
+
+        const choice = data.output?.choices?.[0];
+        const toolCalls = parseToolCalls(choice?.message?.tool_calls);
+        // 只请求调用工具时 content 可能是空字符串或 null
+        const content: string | undefined = choice?.message?.content ?? data.output?.text ?? (toolCalls ? "" : undefined);
+        if (typeof content !== "string") {
+            throw unrecognizedResponse(this.name, data);
+        }
+
+        return {
+            content,
+            toolCalls,
+            finishReason: choice?.finish_reason ?? data.output?.finish_reason,
+            usage: data.usage
+                ? {
+                    inputTokens: data.usage.input_tokens ?? 0,
+                    outputTokens: data.usage.output_tokens ?? 0,
+                }
+                : undefined,
+        };
+    }
+
+    /**
+     * 流式调用（X-DashScope-SSE: enable）
+     *
+     * incremental_output 为 true 时每个事件只包含新增的文本；
+     * 生成过程中 finish_reason 是字符串 "null"，结束时才是 "stop" 或 "length"。
+     * usage 在每个事件里都是累计值，取最后一个即可
+     */
+    private async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+        let content = "";
+        let finishReason: string | undefined;
+        let usage: TokenUsage | undefined;
+
+        await postStream(
+            `${this.baseUrl}/services/aigc/text-generation/generation`,
+            { Authorization: `Bearer ${this.apiKey}`, "X-DashScope-SSE": "enable" },
+            {
+                model: this.model,
+                input: { messages: wireMessages(request.messages, true) },
+                parameters: {
+                    result_format: "message",
+                    incremental_output: true,
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                },
+            },
+            this.timeoutMs,
+            sseParser((text, event) => {
+                const data = parseStreamJson(text);
+                if (event === "error" || (data.code && !data.output)) {
+                    throw streamError(this.name, `${data.code ?? ""} ${data.message ?? text}`.trim());
+                }
+
+                const choice = data.output?.choices?.[0];
+                const delta = choice?.message?.content ?? data.output?.text;
+                if (typeof delta === "string" && delta) {
+                    content += delta;
+                    onDelta(delta);
+                }
+                const reason = choice?.finish_reason ?? data.output?.finish_reason;
+                if (reason && reason !== "null") {
+                    finishReason = reason;
+                }
+                if (data.usage) {
+                    usage = {
+                        inputTokens: data.usage.input_tokens ?? 0,
+                        outputTokens: data.usage.output_tokens ?? 0,
+                    };
+                }
+            })
+        );
+
+        if (!finishReason) {
+            throw incompleteStream(this.name);
+        }
+        return { content, finishReason, usage };
+    }
+}
+
+/**
+ * OpenAI 兼容的 chat completions 接口
+ *
+ * 请求格式: { model, messages, temperature, max_tokens }
+ * 响应格式: { choices: [{ message, finish_reason }], usage: { prompt_tokens, completion_tokens } }
+ *
+ * vLLM、LM Studio 以及大多数代理/网关都实现了这个协议，
+ * 本地服务通常不需要 API Key，所以 apiKey 是可选的
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name = "openai" as const;
+    readonly model: string;
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly timeoutMs?: number;
+
+    constructor(config: ProviderConfig = {}) {
+        this.apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+        this.timeoutMs = config.timeoutMs;
+        this.model = config.model ?? DEFAULTS.openai.model;
+        this.baseUrl = trimTrailingSlash(
+            config.baseUrl ?? process.env.OPENAI_BASE_URL ?? DEFAULTS.openai.baseUrl
+        );
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const headers: Record<string, string> = {};
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+
+        if (request.onDelta && !request.tools) {
+            return this.stream(request, headers, request.onDelta);
+        }
+
+        const data = await postJson(`${this.baseUrl}/chat/completions`, headers, {
+            model: this.model,
+            messages: wireMessages(request.messages),
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            tools: wireTools(request.tools),
+        }, this.timeoutMs);
+
+        const choice = data.choices?.[0];
+        const toolCalls = parseToolCalls(choice?.message?.tool_calls);
+        // 只请求调用工具时 content 是 null
+        const content: string | undefined = choice?.message?.content ?? choice?.text ?? (toolCalls ? "" : undefined);
+        if (typeof content !== "string") {
+            throw unrecognizedResponse(this.name, data);
+        }
+
+        return {
+            content,
+            toolCalls,
+            finishReason: choice.finish_reason ?? undefined,
+            usage: data.usage
+                ? {
+                    inputTokens: data.usage.prompt_tokens ?? 0,
+                    outputTokens: data.usage.completion_tokens ?? 0,
+                }
+                : undefined,
+        };
+    }
+
+    /**
+     * 流式调用（stream: true）
+     *
+     * 每个 SSE 事件是一个 chunk：choices[0].delta.content 是新增的文本，
+     * 最后一个带 finish_reason 的 chunk 之后是 "data: [DONE]"。
+     * stream_options.include_usage 让服务在结束前额外发送一个带 usage 的 chunk
+     */
+    private async stream(
+        request: ChatRequest,
+        headers: Record<string, string>,
+        onDelta: (delta: string) => void
+    ): Promise<ChatResponse> {
+        let content = "";
+        let finishReason: string | undefined;
+        let usage: TokenUsage | undefined;
+        let done = false;
+
+        await postStream(`${this.baseUrl}/chat/completions`, headers, {
+            model: this.model,
+            messages: wireMessages(request.messages),
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+            stream_options: { include_usage: true },
+        }, this.timeoutMs, sseParser((text) => {
+            if (text.trim() === "[DONE]") {
+                done = true;
+                return;
+            }
+            const data = parseStreamJson(text);
+            if (data.error) {
+                throw streamError(this.name, JSON.stringify(data.error));
+            }
+
+            const choice = data.choices?.[0];
+            const delta = choice?.delta?.content ?? choice?.text;
+            if (typeof delta === "string" && delta) {
+                content += delta;
+                onDelta(delta);
+            }
+            if (choice?.finish_reason) {
+                finishReason = choice.finish_reason;
+            }
+            if (data.usage) {
+                usage = {
+                    inputTokens: data.usage.prompt_tokens ?? 0,
+                    outputTokens: data.usage.completion_tokens ?? 0,
+                };
+            }
+        }));
+
+        // 有的服务不发送 [DONE]，收到 finish_reason 也算正常结束
+        if (!done && !finishReason) {
+            throw incompleteStream(this.name);
+        }
+        return { content, finishReason, usage };
+    }
+}
+
+/**
+ * Ollama 本地服务（/api/chat）
+ *
+ * 请求格式: { model, messages, stream: false, options: { temperature, num_predict } }
+ * 响应格式: { message: { content }, done_reason, prompt_eval_count, eval_count }
+ *
+ * Ollama 默认不需要认证；如果前面有反向代理，可以通过 apiKey 传入 Bearer token
+ */
+export class OllamaProvider implements LLMProvider {
+    readonly name = "ollama" as const;
+    readonly model: string;
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly timeoutMs?: number;
+
+    constructor(config: ProviderConfig = {}) {
+        this.apiKey = config.apiKey ?? process.env.OLLAMA_API_KEY;
+        this.timeoutMs = config.timeoutMs;
+        this.model = config.model ?? DEFAULTS.ollama.model;
+        this.baseUrl = trimTrailingSlash(
+            config.baseUrl ?? process.env.OLLAMA_HOST ?? DEFAULTS.ollama.baseUrl
+        );
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const headers: Record<string, string> = {};
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+
+        if (request.onDelta && !request.tools) {
+            return this.stream(request, headers, request.onDelta);
+        }
+
+        const data = await postJson(`${this.baseUrl}/api/chat`, headers, {
+            model: this.model,
+            messages: ollamaMessages(request.messages),
+            stream: false,
+            tools: wireTools(request.tools),
+            options: {
+                temperature: request.temperature,
+                num_predict: request.maxTokens,
+            },
+        }, this.timeoutMs);
+
+        const content: string | undefined = data.message?.content;
+        if (typeof content !== "string") {
+            throw unrecognizedResponse(this.name, data);
+        }
+
+        return {
+            content,
+            toolCalls: parseToolCalls(data.message?.tool_calls),
+            // Ollama 用 "length" 表示达到 num_predict 上限，与 OpenAI 一致
+            finishReason: data.done_reason,
+            usage:
+                data.prompt_eval_count !== undefined || data.eval_count !== undefined
+                    ? {
+                        inputTokens: data.prompt_eval_count ?? 0,
+                        outputTokens: data.eval_count ?? 0,
+                    }
+                    : undefined,
+        };
+    }
+
+    /**
+     * 流式调用（stream: true）
+     *
+     * Ollama 不使用 SSE，而是每行一个 JSON（NDJSON）：
+     * message.content 是新增的文本，最后一行 done 为 true，并带有 done_reason 和 token 计数
+     */
+    private async stream(
+        request: ChatRequest,
+        headers: Record<string, string>,
+        onDelta: (delta: string) => void
+    ): Promise<ChatResponse> {
+        let content = "";
+        let final: any;
+
+        await postStream(`${this.baseUrl}/api/chat`, headers, {
+            model: this.model,
+            messages: ollamaMessages(request.messages),
+            stream: true,
+            options: {
+                temperature: request.temperature,
+                num_predict: request.maxTokens,
+            },
+        }, this.timeoutMs, (line) => {
+            if (!line.trim()) return;
+            const data = parseStreamJson(line);
+            if (data.error) {
+                throw streamError(this.name, String(data.error));
+            }
+
+            const delta = data.message?.content;
+            if (typeof delta === "string" && delta) {
+                content += delta;
+                onDelta(delta);
+            }
+            if (data.done) {
+                final = data;
+            }
+        });
+
+        if (!final) {
+            throw incompleteStream(this.name);
+        }
+        return {
+            content,
+            finishReason: final.done_reason,
+            usage:
+                final.prompt_eval_count !== undefined || final.eval_count !== undefined
+                    ? {
+                        inputTokens: final.prompt_eval_count ?? 0,
+                        outputTokens: final.eval_count ?? 0,
+                    }
+                    : undefined,
+        };
+    }
+}
+
+/**
+ * 校验并规范化 Provider 名称
+ *
+ * @param value - 用户输入的名称（来自 CLI 参数或环境变量）
+ * @returns 合法的 ProviderName
+ */
+export function parseProviderName(value: string): ProviderName {
+    const name = value.trim().toLowerCase();
+    if (!PROVIDER_NAMES.includes(name as ProviderName)) {
+        throw new Error(
+            `不支持的 provider: ${value}（可选值: ${PROVIDER_NAMES.join(", ")}）`
+        );
+    }
+    return name as ProviderName;
+}
+
+/**
+ * 根据配置创建 Provider
+ *
+ * 优先级：显式传入的配置 > 通用环境变量（COLLIE_*）> 各 Provider 自己的环境变量 > 默认值
+ *
+ * 通用环境变量：
+ * - COLLIE_PROVIDER: provider 名称（默认 dashscope）
+ * - COLLIE_MODEL:    模型名称
+ * - COLLIE_BASE_URL: 服务地址
+ * - COLLIE_API_KEY:  API Key
+ *
+ * @param config - CLI 传入的配置
+ * @returns 对应的 LLMProvider 实例
+ */
+export function createProvider(config: ProviderConfig = {}): LLMProvider {
+    const provider =
+        config.provider ?? parseProviderName(process.env.COLLIE_PROVIDER || "dashscope");
+
+    const resolved: ProviderConfig = {
+        provider,
+        model: config.model ?? (process.env.COLLIE_MODEL || undefined),
+        baseUrl: config.baseUrl ?? (process.env.COLLIE_BASE_URL || undefined),
+        apiKey: config.apiKey ?? (process.env.COLLIE_API_KEY || undefined),
+        timeoutMs: config.timeoutMs,
+    };
+
+    switch (provider) {
+        case "dashscope":
+            return new DashScopeProvider(resolved);
+        case "openai":
+            return new OpenAIProvider(resolved);
+        case "ollama":
+            return new OllamaProvider(resolved);
+    }
+}
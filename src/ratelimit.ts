@@ -0,0 +1,142 @@
+/**
+ * 限流模块
+ *
+ * 并发处理多个文件时，所有请求共用同一个配额（每分钟请求数 RPM、每分钟 token 数 TPM）。
+ * 这个模块提供：
+ * 1. RateLimiter：基于 60 秒滑动窗口的限流器
+ * 2. RateLimitedProvider：给任意 LLMProvider 加上限流的包装器
+ *
+ * 所有 worker 共用同一个 Provider 实例，也就自然共用同一个限流器
+ */
+
+import { ChatRequest, ChatResponse, LLMProvider } from "./providers.js";
+import { estimateTokens } from "./chunker.js";
+
+/**
+ * 限流配置
+ *
+ * - requestsPerMinute: 每分钟最多发起的请求数
+ * - tokensPerMinute: 每分钟最多消耗的 token 数（输入 + 输出）
+ *
+ * 未设置的项不限制
+ */
+export interface RateLimitConfig {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+}
+
+/**
+ * 滑动窗口中的一条记录
+ */
+interface WindowEntry {
+    time: number;
+    tokens: number;
+}
+
+/**
+ * 滑动窗口长度（毫秒）
+ */
+const WINDOW_MS = 60_000;
+
+/**
+ * 等待指定毫秒数
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 基于 60 秒滑动窗口的限流器
+ *
+ * acquire() 按调用顺序排队（先到先得），在窗口内的请求数和 token 数都有余量时放行。
+ * 请求开始前只能估算 token 数，拿到实际用量后通过 acquire 返回的函数修正记录
+ */
+export class RateLimiter {
+    private readonly entries: WindowEntry[] = [];
+    // 排队用的 Promise 链，保证 acquire 按调用顺序放行
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly config: RateLimitConfig) {}
+
+    /**
+     * 等待直到可以发起一个请求
+     *
+     * @param estimatedTokens - 预计消耗的 token 数
+     * @returns 修正函数：传入实际消耗的 token 数，更新窗口中的记录
+     */
+    acquire(estimatedTokens: number): Promise<(actualTokens: number) => void> {
+        const entry: WindowEntry = { time: 0, tokens: estimatedTokens };
+
+        const turn = this.queue.then(async () => {
+            for (;;) {
+                const wait = this.waitTime(estimatedTokens);
+                if (wait <= 0) break;
+                await sleep(wait);
+            }
+            entry.time = Date.now();
+            this.entries.push(entry);
+        });
+        this.queue = turn;
+
+        return turn.then(() => (actualTokens: number) => {
+            entry.tokens = actualTokens;
+        });
+    }
+
+    /**
+     * 计算还需要等待多久才能放行（毫秒，0 表示可以立即放行）
+     */
+    private waitTime(tokens: number): number {
+        const now = Date.now();
+        while (this.entries.length > 0 && now - this.entries[0].time >= WINDOW_MS) {
+            this.entries.shift();
+        }
+
+        const { requestsPerMinute, tokensPerMinute } = this.config;
+        const usedTokens = this.entries.reduce((sum, e) => sum + e.tokens, 0);
+        const requestsFull = requestsPerMinute !== undefined && this.entries.length >= requestsPerMinute;
+        // 单个请求就超过 TPM 时，只要窗口为空就放行，否则会永远等待
+        const tokensFull =
+            tokensPerMinute !== undefined &&
+            this.entries.length > 0 &&
+            usedTokens + tokens > tokensPerMinute;
+
+        if (!requestsFull && !tokensFull) {
+            return 0;
+        }
+        // 等到最早的一条记录移出窗口再检查
+        return this.entries[0].time + WINDOW_MS - now + 1;
+    }
+}
+
+/**
+ * 带限流的 Provider 包装器
+ *
+ * 每次请求前按"输入 token + max_tokens"估算用量并排队，
+ * 响应返回 usage 时用实际用量修正
+ */
+export class RateLimitedProvider implements LLMProvider {
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly limiter: RateLimiter
+    ) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const inputTokens = estimateTokens(request.messages.map((m) => m.content).join("\n"));
+        const settle = await this.limiter.acquire(inputTokens + (request.maxTokens ?? inputTokens));
+
+        const response = await this.inner.complete(request);
+        if (response.usage) {
+            settle(response.usage.inputTokens + response.usage.outputTokens);
+        }
+        return response;
+    }
+}
@@ -0,0 +1,402 @@
+/**
+ * 注释刷新模块（refresh 命令）
+ *
+ * 代码改了，注释却没跟着改：参数被重命名或删除、返回类型变了，
+ * 文档注释里的 @param / @returns 就成了错误信息。这个模块负责：
+ * 1. 用 TypeScript 编译器 API 找出和签名不一致的文档注释
+ * 2. 只让模型重写这些注释（JSON 形式返回，由程序替换）
+ * 3. 可选（--prune-obvious）：让模型挑出只是复述代码的注释并删除
+ *
+ * 已经正确的注释保持不动，也不会新增注释。目前只支持 TypeScript / JavaScript
+ */
+
+import ts from "typescript";
+import { MalformedResponseError, TruncatedResponseError } from "./errors.js";
+import { buildPrunePrompt, buildRefreshPrompt } from "./prompts.js";
+import { LLMProvider } from "./providers.js";
+import { parseSource } from "./scope.js";
+import { formatDocBlock, parseDocMap } from "./structured.js";
+import { DocStyle } from "./styles.js";
+
+/**
+ * refresh 的选项
+ *
+ * - pruneObvious: 是否删除只是复述代码的注释
+ */
+export interface RefreshOptions {
+    pruneObvious?: boolean;
+}
+
+/**
+ * 执行刷新所需的参数（onDelta 为流式回调，onDeltaReset 在流式请求重试之前回调）
+ */
+export interface RefreshRunOptions extends RefreshOptions {
+    provider: LLMProvider;
+    language: string;
+    temperature: number;
+    maxTokens: number;
+    commentLanguage: string;
+    style?: DocStyle;
+    onDelta?: (delta: string) => void;
+    onDeltaReset?: (discarded: string) => void;
+}
+
+/**
+ * 一个与签名不一致的文档注释
+ *
+ * - id: 发给模型的标识
+ * - start / end: 注释所占整行的字符范围（含行尾换行符）
+ * - indent: 注释的缩进
+ * - signature: 声明的签名（不含函数体）
+ * - oldDoc: 原来的注释文本
+ * - reasons: 不一致的原因
+ */
+export interface StaleDoc {
+    id: string;
+    start: number;
+    end: number;
+    indent: string;
+    signature: string;
+    oldDoc: string;
+    reasons: string[];
+}
+
+/**
+ * 一个可以删除的普通注释（不含 /** *\/ 文档注释）
+ *
+ * - start / end: 删除的字符范围
+ * - text: 注释文本
+ * - context: 注释所说明的那行代码
+ */
+export interface CommentCandidate {
+    id: string;
+    start: number;
+    end: number;
+    text: string;
+    context: string;
+}
+
+/**
+ * 一处文本替换
+ */
+interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * 不能删除的指令性注释（@ts-ignore、eslint-disable、/// <reference> 等）
+ */
+const DIRECTIVE_COMMENT = /^(\/\/\/?|\/\*)\s*(@ts-|eslint|prettier-ignore|istanbul|c8 |<reference|#region|#endregion|!)/;
+
+/**
+ * 去掉类型文本中的空白，便于比较
+ */
+function normalizeType(text: string): string {
+    return text.replace(/\s+/g, "");
+}
+
+/**
+ * 计算 pos 所在行的行首位置
+ */
+function lineStartOf(code: string, pos: number): number {
+    return code.lastIndexOf("\n", pos - 1) + 1;
+}
+
+/**
+ * 计算 pos 所在行的行尾位置（包含换行符）
+ */
+function lineEndOf(code: string, pos: number): number {
+    const newline = code.indexOf("\n", pos);
+    return newline === -1 ? code.length : newline + 1;
+}
+
+/**
+ * 检查一个函数的文档注释与签名是否一致
+ *
+ * @returns 不一致的原因；一致时返回空数组
+ */
+function checkSignature(node: ts.SignatureDeclaration, doc: ts.JSDoc, source: ts.SourceFile): string[] {
+    const reasons: string[] = [];
+    const tags: readonly ts.JSDocTag[] = doc.tags ?? [];
+
+    const declared = new Map<string, ts.ParameterDeclaration>();
+    let hasPattern = false;
+    for (const param of node.parameters) {
+        if (ts.isIdentifier(param.name)) {
+            if (param.name.text !== "this") declared.set(param.name.text, param);
+        } else {
+            hasPattern = true;
+        }
+    }
+
+    const paramTags = tags.filter(
+        (tag): tag is ts.JSDocParameterTag => ts.isJSDocParameterTag(tag) && ts.isIdentifier(tag.name)
+    );
+    const documented = new Set(paramTags.map((tag) => (tag.name as ts.Identifier).text));
+
+    for (const tag of paramTags) {
+        const name = (tag.name as ts.Identifier).text;
+        const param = declared.get(name);
+        if (!param) {
+            // 解构参数在注释里可以用任意名字，无法判断
+            if (!hasPattern) {
+                reasons.push(`@param ${name} 对应的参数已不存在（可能被重命名或删除）`);
+            }
+            continue;
+        }
+        if (tag.typeExpression && param.type) {
+            const docType = tag.typeExpression.type.getText(source);
+            const actual = param.type.getText(source);
+            if (normalizeType(docType) !== normalizeType(actual)) {
+                reasons.push(`参数 ${name} 的类型已从 ${docType} 变为 ${actual}`);
+            }
+        }
+    }
+
+    if (paramTags.length > 0) {
+        for (const name of declared.keys()) {
+            if (!documented.has(name)) {
+                reasons.push(`缺少参数 ${name} 的 @param 说明`);
+            }
+        }
+    }
+
+    const returnTag = tags.find((tag): tag is ts.JSDocReturnTag => ts.isJSDocReturnTag(tag));
+    if (returnTag) {
+        if (ts.isConstructorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+            reasons.push("构造函数和 setter 不应有 @returns");
+        } else if (node.type) {
+            const actual = node.type.getText(source);
+            if (/^(void|Promise<void>)$/.test(normalizeType(actual))) {
+                reasons.push(`函数已没有返回值（返回类型为 ${actual}）`);
+            } else if (returnTag.typeExpression) {
+                const docType = returnTag.typeExpression.type.getText(source);
+                if (normalizeType(docType) !== normalizeType(actual)) {
+                    reasons.push(`返回类型已从 ${docType} 变为 ${actual}`);
+                }
+            }
+        }
+    }
+
+    return reasons;
+}
+
+/**
+ * 找出与签名不一致的文档注释
+ *
+ * @param code - 源代码
+ * @param ext - 文件扩展名
+ * @returns 需要重写的注释（按出现顺序）
+ */
+export function findStaleDocs(code: string, ext: string): StaleDoc[] {
+    const source = parseSource(code, ext);
+    const stale: StaleDoc[] = [];
+
+    const visit = (node: ts.Node) => {
+        if (ts.isFunctionLike(node) && node.kind !== ts.SyntaxKind.JSDocFunctionType) {
+            const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+            const doc = docs[docs.length - 1];
+            const reasons = doc ? checkSignature(node, doc, source) : [];
+
+            if (doc && reasons.length > 0) {
+                const docStart = doc.getStart(source);
+                const start = lineStartOf(code, docStart);
+                const end = lineEndOf(code, doc.getEnd());
+                const body = "body" in node ? (node.body as ts.Node | undefined) : undefined;
+                const signatureEnd = body ? body.getStart(source) : node.getEnd();
+
+                // 只处理独占整行的注释块（前后都没有代码），和代码写在同一行的注释不动，
+                // 否则替换整行时会把同一行的代码一起删掉
+                if (code.slice(start, docStart).trim() === "" && code.slice(doc.getEnd(), end).trim() === "") {
+                    stale.push({
+                        id: `s${stale.length + 1}`,
+                        start,
+                        end,
+                        indent: code.slice(start, docStart),
+                        // 从注释所属的语句开始截取，箭头函数也能带上变量名
+                        signature: code.slice(doc.parent.getStart(source), signatureEnd).replace(/\s+/g, " ").trim(),
+                        oldDoc: code.slice(docStart, doc.getEnd()),
+                        reasons,
+                    });
+                }
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return stale;
+}
+
+/**
+ * 找出可以删除的普通注释
+ *
+ * 遍历语法树中每个 token 前后的注释，排除文档注释和指令性注释；
+ * 只考虑独占整行的注释和行尾注释，夹在代码中间的注释不动
+ *
+ * @param code - 源代码
+ * @param ext - 文件扩展名
+ * @returns 候选注释（按出现顺序）
+ */
+export function findPrunableComments(code: string, ext: string): CommentCandidate[] {
+    const source = parseSource(code, ext);
+    const ranges = new Map<number, ts.CommentRange>();
+
+    const collect = (list: ts.CommentRange[] | undefined) => {
+        for (const range of list ?? []) ranges.set(range.pos, range);
+    };
+    const visit = (node: ts.Node) => {
+        collect(ts.getLeadingCommentRanges(code, node.getFullStart()));
+        collect(ts.getTrailingCommentRanges(code, node.getEnd()));
+        for (const child of node.getChildren(source)) visit(child);
+    };
+    visit(source);
+
+    const candidates: CommentCandidate[] = [];
+    for (const range of [...ranges.values()].sort((a, b) => a.pos - b.pos)) {
+        const text = code.slice(range.pos, range.end);
+        if (text.startsWith("/**") || DIRECTIVE_COMMENT.test(text)) {
+            continue;
+        }
+
+        const lineStart = lineStartOf(code, range.pos);
+        const lineEnd = lineEndOf(code, range.end);
+        const before = code.slice(lineStart, range.pos);
+        const after = code.slice(range.end, lineEnd);
+        if (after.trim() !== "") {
+            continue;
+        }
+
+        if (before.trim() === "") {
+            // 独占整行：删除整行，说明的是下一行非空代码
+            const rest = code.slice(lineEnd).split("\n").find((line) => line.trim() !== "") ?? "";
+            candidates.push({
+                id: `c${candidates.length + 1}`,
+                start: lineStart,
+                end: lineEnd,
+                text,
+                context: rest.trim(),
+            });
+        } else {
+            // 行尾注释：连同前面的空白一起删除，保留换行
+            const codePart = before.trimEnd();
+            candidates.push({
+                id: `c${candidates.length + 1}`,
+                start: lineStart + codePart.length,
+                end: range.end,
+                text,
+                context: codePart.trim(),
+            });
+        }
+    }
+    return candidates;
+}
+
+/**
+ * 按从后往前的顺序应用文本替换，避免前面的位置失效
+ */
+function applyEdits(code: string, edits: TextEdit[]): string {
+    let result = code;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+}
+
+/**
+ * 发送请求并检查输出是否被截断
+ */
+async function ask(options: RefreshRunOptions, prompt: string): Promise<string> {
+    const response = await options.provider.complete({
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        onDelta: options.onDelta,
+        onDeltaReset: options.onDeltaReset,
+    });
+    if (response.finishReason === "length") {
+        throw new TruncatedResponseError(
+            `模型输出在 max_tokens（${options.maxTokens}）处被截断，已放弃写入。请调大 --max-tokens 后重试`
+        );
+    }
+    return response.content;
+}
+
+/**
+ * 从模型响应中解析要删除的注释 id 列表（{"remove": ["c1", ...]}）
+ */
+function parseRemoveList(content: string): string[] {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    try {
+        const data = JSON.parse(content.slice(start, end + 1));
+        if (Array.isArray(data?.remove)) {
+            return data.remove.filter((id: unknown): id is string => typeof id === "string");
+        }
+    } catch {
+        // 下面统一报错
+    }
+    throw new MalformedResponseError(`模型没有返回合法的删除列表: ${content.substring(0, 200)}`);
+}
+
+/**
+ * 刷新代码中的注释
+ *
+ * 1. 重写与签名不一致的文档注释
+ * 2. 开启 pruneObvious 时，删除模型认为只是复述代码的注释
+ *
+ * 没有需要处理的注释时不会调用模型，直接返回原代码
+ *
+ * @param code - 源代码
+ * @param ext - 文件扩展名
+ * @param options - Provider、采样参数、注释语言、风格和 pruneObvious
+ * @returns 刷新后的代码
+ */
+export async function refreshComments(
+    code: string,
+    ext: string,
+    options: RefreshRunOptions
+): Promise<string> {
+    const edits: TextEdit[] = [];
+    const eol = code.includes("\r\n") ? "\r\n" : "\n";
+
+    const stale = findStaleDocs(code, ext);
+    if (stale.length > 0) {
+        const docs = parseDocMap(await ask(options, buildRefreshPrompt({
+            language: options.language,
+            code,
+            items: stale,
+            commentLanguage: options.commentLanguage,
+            style: options.style,
+        })));
+
+        for (const item of stale) {
+            const text = docs[item.id];
+            const block = text === undefined ? [] : formatDocBlock(text, item.indent);
+            if (block.length > 0) {
+                edits.push({ start: item.start, end: item.end, text: block.join(eol) + eol });
+            }
+        }
+    }
+
+    if (options.pruneObvious) {
+        // 和要重写的文档注释有重叠的注释不参与删除，避免两处修改互相覆盖
+        const candidates = findPrunableComments(code, ext)
+            .filter((c) => !stale.some((item) => c.start < item.end && item.start < c.end));
+        if (candidates.length > 0) {
+            const remove = new Set(parseRemoveList(await ask(options, buildPrunePrompt({
+                language: options.language,
+                comments: candidates,
+            }))));
+            for (const candidate of candidates) {
+                if (remove.has(candidate.id)) {
+                    edits.push({ start: candidate.start, end: candidate.end, text: "" });
+                }
+            }
+        }
+    }
+
+    return applyEdits(code, edits);
+}
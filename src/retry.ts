@@ -0,0 +1,146 @@
+/**
+ * 重试模块
+ *
+ * 429（请求过多）、5xx（服务端错误）、超时和网络错误通常是暂时性的，
+ * 稍等片刻再试往往就能成功。这个模块提供：
+ * 1. isRetryable：判断一个错误是否值得重试
+ * 2. backoffDelay：带随机抖动的指数退避时间，优先使用服务端的 Retry-After
+ * 3. RetryingProvider：给任意 LLMProvider 加上自动重试的包装器
+ *
+ * 认证失败、额度耗尽、响应格式错误等重试也不会成功，直接抛出
+ */
+
+import { ApiError, AuthError, NetworkError, QuotaError, TimeoutError } from "./errors.js";
+import { ChatRequest, ChatResponse, LLMProvider } from "./providers.js";
+
+/**
+ * 重试配置
+ *
+ * - retries: 最多重试的次数（不含第一次请求），0 表示不重试
+ * - baseDelayMs: 第一次重试前的基准等待时间，之后每次翻倍
+ * - maxDelayMs: 单次等待时间的上限
+ * - onRetry: 每次重试前调用，用于输出日志
+ */
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * 默认最多重试 3 次
+ */
+export const DEFAULT_RETRIES = 3;
+
+/**
+ * 等待指定毫秒数
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 判断错误是否值得重试
+ *
+ * - 超时、网络错误：可以重试
+ * - 认证失败、额度耗尽：不重试
+ * - 其他 HTTP 错误：只有 429 和 5xx 重试
+ * - 其他错误（响应格式错误、输出被截断等）：不重试
+ */
+export function isRetryable(error: unknown): boolean {
+    if (error instanceof TimeoutError || error instanceof NetworkError) {
+        return true;
+    }
+    if (error instanceof AuthError || error instanceof QuotaError) {
+        return false;
+    }
+    if (error instanceof ApiError) {
+        return error.status === 429 || error.status >= 500;
+    }
+    return false;
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间（毫秒）
+ *
+ * 服务端给出 Retry-After 时按它等待（不超过 maxDelayMs）；
+ * 否则使用 "full jitter" 指数退避：在 [0, base * 2^(attempt-1)] 中随机取值，
+ * 避免多个并发任务在同一时刻一起重试
+ *
+ * @param attempt - 第几次重试（从 1 开始）
+ * @param error - 上一次请求的错误
+ */
+export function backoffDelay(
+    attempt: number,
+    error: unknown,
+    baseDelayMs: number,
+    maxDelayMs: number
+): number {
+    if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, maxDelayMs);
+    }
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * 带自动重试的 Provider 包装器
+ *
+ * 应该套在限流器外面（RetryingProvider(RateLimitedProvider(...))），
+ * 这样每一次重试也会计入 RPM / TPM 配额。
+ * 流式请求中途失败时，重试前用 onDeltaReset 通知调用方已经输出的文本作废
+ */
+export class RetryingProvider implements LLMProvider {
+    private readonly retries: number;
+    private readonly baseDelayMs: number;
+    private readonly maxDelayMs: number;
+    private readonly onRetry?: RetryOptions["onRetry"];
+
+    constructor(
+        private readonly inner: LLMProvider,
+        options: RetryOptions = {}
+    ) {
+        this.retries = options.retries ?? DEFAULT_RETRIES;
+        this.baseDelayMs = options.baseDelayMs ?? 1000;
+        this.maxDelayMs = options.maxDelayMs ?? 60_000;
+        this.onRetry = options.onRetry;
+    }
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const { onDelta } = request;
+        for (let attempt = 1; ; attempt++) {
+            // 记录这次尝试已经给出的流式文本，重试前通知调用方作废，避免同样的内容输出两次
+            let streamed = "";
+            try {
+                return await this.inner.complete(onDelta
+                    ? {
+                        ...request,
+                        onDelta: (delta) => {
+                            streamed += delta;
+                            onDelta(delta);
+                        },
+                    }
+                    : request);
+            } catch (error) {
+                if (attempt > this.retries || !isRetryable(error)) {
+                    throw error;
+                }
+                const delay = backoffDelay(attempt, error, this.baseDelayMs, this.maxDelayMs);
+                this.onRetry?.(error as Error, attempt, delay);
+                if (streamed) {
+                    request.onDeltaReset?.(streamed);
+                }
+                await sleep(delay);
+            }
+        }
+    }
+}
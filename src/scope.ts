@@ -0,0 +1,316 @@
+/**
+ * 注释范围模块
+ *
+ * 库代码审阅时，通常只需要给对外暴露的 API 写文档注释，
+ * 函数体里"更新内部状态值"这类行内注释反而是噪音。这个模块负责：
+ * 1. 定义注释范围（--scope exported | public | all）
+ * 2. 用 TypeScript 编译器 API 找出范围内的声明（包括通过 export { ... } 导出的声明），
+ *    结构化模式（structured.ts）也用它列出需要注释的声明
+ * 3. 把模型的改动按差异块过滤：只保留范围内声明的文档注释，
+ *    以及（允许行内注释时）范围内声明内部的行内注释
+ *
+ * 提示词里同样会说明范围，这里的过滤是最后一道保险：
+ * 模型多加的注释会被丢掉，而不是写进文件
+ */
+
+import ts from "typescript";
+import { applyHunks, computeHunks, DiffHunk } from "./diff.js";
+
+/**
+ * 注释范围
+ *
+ * - exported: 只为导出的顶层声明写文档注释
+ * - public:   导出的声明，加上导出的类和接口中的公共成员
+ * - all:      所有函数、类、方法（默认）
+ */
+export type DocScope = "exported" | "public" | "all";
+
+/**
+ * 所有注释范围的列表，用于参数校验和帮助信息
+ */
+export const DOC_SCOPES: DocScope[] = ["exported", "public", "all"];
+
+/**
+ * 过滤选项
+ *
+ * - scope: 注释范围
+ * - inline: 是否允许函数体内的行内注释
+ */
+export interface ScopeOptions {
+    scope: DocScope;
+    inline: boolean;
+}
+
+/**
+ * 一个可以写文档注释的声明
+ *
+ * 行号都从 0 开始：
+ * - name: 声明的名字，类和接口成员带上所属类型（如 "Calculator.add"）
+ * - kind: 声明种类（function、class、method 等）
+ * - docStart: 文档注释可以出现的第一行（上一条语句之后的下一行）
+ * - declLine: 声明本身的第一行（文档注释必须在这一行之前）
+ * - endLine: 声明的最后一行
+ * - signature: 声明的第一行文本（去掉首尾空白），用于提示词
+ * - indent: 声明所在行的缩进
+ * - hasDoc: 声明前是否已经有 /** *\/ 文档注释
+ */
+export interface Declaration {
+    name: string;
+    kind: string;
+    docStart: number;
+    declLine: number;
+    endLine: number;
+    signature: string;
+    indent: string;
+    hasDoc: boolean;
+}
+
+/**
+ * 校验并规范化注释范围
+ *
+ * @param value - 用户输入的范围（来自 CLI 参数、环境变量或配置文件）
+ * @returns 合法的 DocScope
+ */
+export function parseDocScope(value: string): DocScope {
+    const scope = value.trim().toLowerCase();
+    if (!DOC_SCOPES.includes(scope as DocScope)) {
+        throw new Error(`不支持的注释范围: ${value}（可选值: ${DOC_SCOPES.join(", ")}）`);
+    }
+    return scope as DocScope;
+}
+
+/**
+ * 判断节点是否带有某个修饰符（imports.ts 也用它判断 export）
+ */
+export function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some((m) => m.kind === kind) ?? false);
+}
+
+/**
+ * 获取顶层语句声明的名字
+ *
+ * 变量语句可能一次声明多个变量（const a = 1, b = 2），所以返回数组。
+ * imports.ts 也用它查找被导入的名字
+ */
+export function declaredNames(statement: ts.Statement): string[] {
+    if (ts.isVariableStatement(statement)) {
+        return statement.declarationList.declarations
+            .map((d) => d.name)
+            .filter(ts.isIdentifier)
+            .map((name) => name.text);
+    }
+    if (
+        (ts.isFunctionDeclaration(statement) ||
+            ts.isClassDeclaration(statement) ||
+            ts.isInterfaceDeclaration(statement) ||
+            ts.isTypeAliasDeclaration(statement) ||
+            ts.isEnumDeclaration(statement)) &&
+        statement.name
+    ) {
+        return [statement.name.text];
+    }
+    return [];
+}
+
+/**
+ * 收集通过 export { a, b as c } 和 export default a 导出的本地名字
+ */
+function collectExportedNames(source: ts.SourceFile): Set<string> {
+    const names = new Set<string>();
+    for (const statement of source.statements) {
+        if (
+            ts.isExportDeclaration(statement) &&
+            !statement.moduleSpecifier &&
+            statement.exportClause &&
+            ts.isNamedExports(statement.exportClause)
+        ) {
+            for (const element of statement.exportClause.elements) {
+                names.add((element.propertyName ?? element.name).text);
+            }
+        } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+            names.add(statement.expression.text);
+        }
+    }
+    return names;
+}
+
+/**
+ * 判断类成员是否是公共成员（没有 private / protected，也不是 #私有字段）
+ */
+function isPublicMember(member: ts.ClassElement | ts.TypeElement): boolean {
+    if (member.name && ts.isPrivateIdentifier(member.name)) {
+        return false;
+    }
+    return !hasModifier(member, ts.SyntaxKind.PrivateKeyword) &&
+        !hasModifier(member, ts.SyntaxKind.ProtectedKeyword);
+}
+
+/**
+ * 获取声明种类的名称
+ */
+function kindName(node: ts.Node): string {
+    switch (node.kind) {
+        case ts.SyntaxKind.FunctionDeclaration: return "function";
+        case ts.SyntaxKind.ClassDeclaration: return "class";
+        case ts.SyntaxKind.InterfaceDeclaration: return "interface";
+        case ts.SyntaxKind.TypeAliasDeclaration: return "type";
+        case ts.SyntaxKind.EnumDeclaration: return "enum";
+        case ts.SyntaxKind.VariableStatement: return "variable";
+        case ts.SyntaxKind.Constructor: return "constructor";
+        case ts.SyntaxKind.MethodDeclaration:
+        case ts.SyntaxKind.MethodSignature: return "method";
+        case ts.SyntaxKind.GetAccessor: return "getter";
+        case ts.SyntaxKind.SetAccessor: return "setter";
+        default: return "property";
+    }
+}
+
+/**
+ * 获取类或接口成员的名字
+ */
+function memberName(member: ts.ClassElement | ts.TypeElement, source: ts.SourceFile): string {
+    if (ts.isConstructorDeclaration(member)) return "constructor";
+    if (ts.isCallSignatureDeclaration(member)) return "(call)";
+    if (ts.isConstructSignatureDeclaration(member)) return "(new)";
+    if (ts.isIndexSignatureDeclaration(member) || ts.isClassStaticBlockDeclaration(member)) return "[index]";
+    return member.name ? member.name.getText(source) : "(anonymous)";
+}
+
+/**
+ * 按文件扩展名解析源代码（refresh.ts 也用它解析）
+ */
+export function parseSource(code: string, ext: string): ts.SourceFile {
+    const lower = ext.toLowerCase();
+    const kind = lower === ".tsx" ? ts.ScriptKind.TSX
+        : lower === ".jsx" ? ts.ScriptKind.JSX
+            : lower === ".js" || lower === ".mjs" || lower === ".cjs" ? ts.ScriptKind.JS
+                : ts.ScriptKind.TS;
+    return ts.createSourceFile("input" + lower, code, ts.ScriptTarget.Latest, true, kind);
+}
+
+/**
+ * 找出范围内可以写文档注释的声明
+ *
+ * 只包括顶层声明和顶层类、接口的成员，不深入函数体内部
+ *
+ * @param code - 原始代码
+ * @param ext - 文件扩展名
+ * @param scope - 注释范围
+ * @returns 按出现顺序排列的声明
+ */
+export function findDeclarations(code: string, ext: string, scope: DocScope): Declaration[] {
+    const source = parseSource(code, ext);
+    const lines = code.split("\n");
+    const lineOf = (pos: number) => source.getLineAndCharacterOfPosition(pos).line;
+    const exportedNames = collectExportedNames(source);
+    const declarations: Declaration[] = [];
+
+    const add = (node: ts.Node, name: string) => {
+        const fullStart = node.getFullStart();
+        const declLine = lineOf(node.getStart(source));
+        const text = lines[declLine] ?? "";
+        const comments = ts.getLeadingCommentRanges(code, fullStart) ?? [];
+        declarations.push({
+            name,
+            kind: kindName(node),
+            docStart: fullStart === 0 ? 0 : lineOf(fullStart) + 1,
+            declLine,
+            endLine: lineOf(node.getEnd()),
+            signature: text.trim(),
+            indent: text.match(/^\s*/)![0],
+            hasDoc: comments.some((c) => code.startsWith("/**", c.pos) && !code.startsWith("/**/", c.pos)),
+        });
+    };
+
+    for (const statement of source.statements) {
+        const names = declaredNames(statement);
+        if (names.length === 0) {
+            continue;
+        }
+
+        const exported =
+            hasModifier(statement, ts.SyntaxKind.ExportKeyword) ||
+            names.some((name) => exportedNames.has(name));
+        if (scope !== "all" && !exported) {
+            continue;
+        }
+        add(statement, names.join(", "));
+
+        // public / all 还包括类和接口的成员
+        if (scope === "exported") {
+            continue;
+        }
+        const members: readonly (ts.ClassElement | ts.TypeElement)[] =
+            ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)
+                ? statement.members
+                : [];
+        for (const member of members) {
+            if (ts.isSemicolonClassElement(member)) continue;
+            if (scope === "public" && !isPublicMember(member)) continue;
+            add(member, `${names[0]}.${memberName(member, source)}`);
+        }
+    }
+
+    return declarations;
+}
+
+/**
+ * 是否支持按范围过滤（目前只支持 TypeScript / JavaScript）
+ */
+export function supportsScopeFilter(ext: string): boolean {
+    return [".ts", ".tsx", ".js", ".jsx", ".mts", ".cts", ".mjs", ".cjs"].includes(ext.toLowerCase());
+}
+
+/**
+ * 按注释范围过滤模型的改动
+ *
+ * 对原始代码和带注释代码做逐行差异，逐个差异块判断：
+ * - 文档注释：差异块完全落在某个声明的上方（上一条语句和声明之间），声明在范围内时保留
+ * - 行内注释：其他差异块，只有允许行内注释、且位于范围内声明内部时才保留
+ *
+ * 被保留的差异块重新应用到原始代码上，得到过滤后的结果
+ *
+ * @param originalCode - 原始代码
+ * @param commentedCode - 模型生成的带注释代码（已通过代码保护校验）
+ * @param ext - 文件扩展名
+ * @param options - 注释范围和是否允许行内注释
+ * @returns 过滤后的代码；不支持该语言时返回 null
+ */
+export function restrictToScope(
+    originalCode: string,
+    commentedCode: string,
+    ext: string,
+    options: ScopeOptions
+): string | null {
+    if (options.scope === "all" && options.inline) {
+        return commentedCode;
+    }
+    if (!supportsScopeFilter(ext)) {
+        return null;
+    }
+
+    const targets = findDeclarations(originalCode, ext, options.scope);
+    // 所有声明（不论范围），用来识别范围外成员的文档注释，它们不算行内注释
+    const allTargets = options.scope === "all"
+        ? targets
+        : findDeclarations(originalCode, ext, "all");
+    const hunks = computeHunks(originalCode, commentedCode, 0);
+
+    const kept = hunks.filter((hunk: DiffHunk) => {
+        // 差异块在原文中覆盖的行 [start, end)；纯插入时 start === end，表示插在 start 行之前
+        const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+        const end = start + hunk.oldLines;
+        const isDocFor = (t: Declaration) => start >= t.docStart && end <= t.declLine;
+
+        if (targets.some(isDocFor)) {
+            return true;
+        }
+        if (allTargets.some(isDocFor)) {
+            return false;
+        }
+        return options.inline &&
+            targets.some((t) => start >= t.declLine && end <= t.endLine + 1);
+    });
+
+    return applyHunks(originalCode, kept);
+}
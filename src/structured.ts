@@ -0,0 +1,273 @@
+/**
+ * 结构化注释模块（--mode structured）
+ *
+ * 默认模式让模型返回整个文件，再从代码块中提取代码，
+ * 模型一旦改动、截断或漏掉代码，文件就会被破坏。结构化模式换了一种做法：
+ * 1. 用 TypeScript 编译器 API 列出需要注释的声明（复用 scope.ts 的 findDeclarations）
+ * 2. 让模型只返回 JSON：{ 声明 id: 注释正文 }
+ * 3. 由程序把注释按声明的缩进插入到声明上方
+ *
+ * 模型完全接触不到源代码文本，输出也只有注释本身，长度大大减少。
+ * 目前只支持 TypeScript / JavaScript
+ */
+
+import { MalformedResponseError, TruncatedResponseError } from "./errors.js";
+import { buildStructuredPrompt, StructuredTarget } from "./prompts.js";
+import { LineRange } from "./gitdiff.js";
+import { ImportedModule } from "./imports.js";
+import { LLMProvider } from "./providers.js";
+import { Declaration, DocScope, findDeclarations, supportsScopeFilter } from "./scope.js";
+import { DocStyle } from "./styles.js";
+
+/**
+ * 注释生成模式
+ *
+ * - rewrite:    模型返回整个带注释的文件（默认，支持所有语言）
+ * - structured: 模型只返回 JSON 形式的文档注释，由程序插入（仅 TypeScript / JavaScript）
+ */
+export type CommentMode = "rewrite" | "structured";
+
+/**
+ * 所有生成模式的列表，用于参数校验和帮助信息
+ */
+export const COMMENT_MODES: CommentMode[] = ["rewrite", "structured"];
+
+/**
+ * 校验并规范化生成模式
+ *
+ * @param value - 用户输入的模式（来自 CLI 参数、环境变量或配置文件）
+ * @returns 合法的 CommentMode
+ */
+export function parseCommentMode(value: string): CommentMode {
+    const mode = value.trim().toLowerCase();
+    if (!COMMENT_MODES.includes(mode as CommentMode)) {
+        throw new Error(`不支持的生成模式: ${value}（可选值: ${COMMENT_MODES.join(", ")}）`);
+    }
+    return mode as CommentMode;
+}
+
+/**
+ * 结构化模式的参数
+ *
+ * - language: 编程语言名称（用于提示词）
+ * - commentLanguage: 注释使用的自然语言名称
+ * - style: 文档注释风格
+ * - scope: 注释范围，决定列出哪些声明
+ * - regions: 只列出位于这些行范围内的声明（--since / --staged）
+ * - imports: 被导入模块的声明（--imports），作为参考加入提示词
+ * - onDelta: 流式回调，模型每生成一段文本就调用一次
+ * - onDeltaReset: 流式请求重试之前回调，之前收到的文本作废
+ */
+export interface StructuredOptions {
+    provider: LLMProvider;
+    language: string;
+    temperature: number;
+    maxTokens: number;
+    commentLanguage: string;
+    style?: DocStyle;
+    scope: DocScope;
+    regions?: LineRange[];
+    imports?: ImportedModule[];
+    onDelta?: (delta: string) => void;
+    onDeltaReset?: (discarded: string) => void;
+}
+
+/**
+ * 一条待插入的文档注释
+ */
+interface DocInsertion {
+    declaration: Declaration;
+    text: string;
+}
+
+/**
+ * 是否支持结构化模式（与范围过滤一样，只支持 TypeScript / JavaScript）
+ */
+export function supportsStructuredMode(ext: string): boolean {
+    return supportsScopeFilter(ext);
+}
+
+/**
+ * 为声明分配唯一 id
+ *
+ * 一般直接使用声明的名字；重名时（如函数重载）加上 #2、#3 后缀
+ */
+function assignIds(declarations: Declaration[]): Map<string, Declaration> {
+    const ids = new Map<string, Declaration>();
+    for (const declaration of declarations) {
+        let id = declaration.name;
+        for (let n = 2; ids.has(id); n++) {
+            id = `${declaration.name}#${n}`;
+        }
+        ids.set(id, declaration);
+    }
+    return ids;
+}
+
+/**
+ * 从模型响应中解析 { id: 注释正文 } 映射
+ *
+ * 模型有时会把 JSON 放进 ```json 代码块，或在前后加说明文字，
+ * 所以取第一个 "{" 到最后一个 "}" 之间的内容解析
+ *
+ * @throws MalformedResponseError - 找不到合法的 JSON 对象时抛出
+ */
+export function parseDocMap(content: string): Record<string, string> {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end < start) {
+        throw new MalformedResponseError(`模型没有返回 JSON 对象: ${content.substring(0, 200)}`);
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(content.slice(start, end + 1));
+    } catch (error) {
+        throw new MalformedResponseError(
+            `模型返回的 JSON 无法解析: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new MalformedResponseError("模型返回的 JSON 不是一个对象");
+    }
+
+    const docs: Record<string, string> = {};
+    for (const [id, value] of Object.entries(data)) {
+        if (typeof value === "string") {
+            docs[id] = value;
+        }
+    }
+    return docs;
+}
+
+/**
+ * 把注释正文格式化成文档注释块
+ *
+ * - 去掉模型可能多带的 /**、*\/ 和行首的 *
+ * - 正文中的 *\/ 转义成 *\\/，避免提前结束注释
+ * - 单行短注释写成一行，其他写成多行块
+ *
+ * @param text - 注释正文
+ * @param indent - 声明的缩进
+ * @returns 注释块的各行（不含换行符）；正文为空时返回空数组
+ */
+export function formatDocBlock(text: string, indent: string): string[] {
+    const body = text
+        .replace(/^\s*\/\*\*?/, "")
+        .replace(/\*\/\s*$/, "")
+        .split(/\r?\n/)
+        .map((line) => line.replace(/^\s*\* ?/, "").trimEnd().replace(/\*\//g, "*\\/"));
+
+    while (body.length > 0 && body[0].trim() === "") body.shift();
+    while (body.length > 0 && body[body.length - 1].trim() === "") body.pop();
+    if (body.length === 0) {
+        return [];
+    }
+
+    if (body.length === 1 && indent.length + body[0].length <= 100) {
+        return [`${indent}/** ${body[0].trim()} */`];
+    }
+    return [
+        `${indent}/**`,
+        ...body.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+        `${indent} */`,
+    ];
+}
+
+/**
+ * 把文档注释插入到各自的声明上方
+ *
+ * 从后往前插入，前面声明的行号就不会因为插入而变化
+ *
+ * @param code - 原始代码
+ * @param insertions - 声明和对应的注释正文
+ * @returns 插入注释后的代码
+ */
+export function insertDocComments(code: string, insertions: DocInsertion[]): string {
+    const lines = code.split("\n");
+    // 保持原文件的换行风格（CRLF 文件中每一行都以 \r 结尾）
+    const eol = code.includes("\r\n") ? "\r" : "";
+
+    const sorted = [...insertions].sort((a, b) => b.declaration.declLine - a.declaration.declLine);
+    for (const { declaration, text } of sorted) {
+        const block = formatDocBlock(text, declaration.indent).map((line) => line + eol);
+        lines.splice(declaration.declLine, 0, ...block);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * 用结构化模式为代码生成文档注释
+ *
+ * 已经有文档注释的声明不会列给模型，避免重复添加；
+ * 和前一个声明写在同一行的声明也不会列出（注释无法插在它自己的上方）
+ *
+ * @param code - 原始代码
+ * @param ext - 文件扩展名
+ * @param options - Provider、采样参数、注释语言、风格和范围
+ * @returns 插入注释后的代码
+ * @throws TruncatedResponseError - 输出被截断
+ * @throws MalformedResponseError - 模型没有返回合法的 JSON
+ */
+export async function generateStructuredComments(
+    code: string,
+    ext: string,
+    options: StructuredOptions
+): Promise<string> {
+    // 注释插在声明所在行的上方，所以和前一个声明在同一行的声明（例如写在一行里的类的成员）
+    // 没有自己的位置，插入的注释会跑到前一个声明的上方，这些声明不列给模型
+    const all = findDeclarations(code, ext, options.scope);
+    const declarations = all.filter((d, index) =>
+        !d.hasDoc &&
+        (index === 0 || all[index - 1].declLine !== d.declLine) &&
+        (!options.regions || options.regions.some((r) => d.declLine >= r.start && d.declLine < r.end))
+    );
+    if (declarations.length === 0) {
+        return code;
+    }
+
+    const ids = assignIds(declarations);
+    const targets: StructuredTarget[] = [...ids].map(([id, declaration]) => ({
+        id,
+        kind: declaration.kind,
+        signature: declaration.signature,
+    }));
+
+    const response = await options.provider.complete({
+        messages: [
+            {
+                role: "user",
+                content: buildStructuredPrompt({
+                    language: options.language,
+                    code,
+                    targets,
+                    commentLanguage: options.commentLanguage,
+                    style: options.style,
+                    imports: options.imports,
+                }),
+            },
+        ],
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        onDelta: options.onDelta,
+        onDeltaReset: options.onDeltaReset,
+    });
+
+    if (response.finishReason === "length") {
+        throw new TruncatedResponseError(
+            `模型输出在 max_tokens（${options.maxTokens}）处被截断，已放弃写入。请调大 --max-tokens 后重试`
+        );
+    }
+
+    const docs = parseDocMap(response.content);
+    const insertions: DocInsertion[] = [];
+    for (const [id, text] of Object.entries(docs)) {
+        const declaration = ids.get(id);
+        // 模型编造的 id 直接忽略
+        if (declaration) {
+            insertions.push({ declaration, text });
+        }
+    }
+
+    return insertDocComments(code, insertions);
+}
@@ -0,0 +1,119 @@
+/**
+ * 注释语言与文档风格模块
+ *
+ * 不同项目对注释的要求不同：开源项目通常需要英文注释，
+ * 不同语言生态也有各自的文档注释约定（JSDoc、Python docstring、godoc 等）。
+ * 这个模块负责：
+ * 1. 把 --lang 的语言代码转换成提示词中使用的语言名称
+ * 2. 定义支持的文档风格，以及每种风格写进提示词的具体要求
+ * 3. 为每种编程语言选择默认的文档风格
+ */
+
+import { findLanguage } from "./languages.js";
+
+/**
+ * 支持的文档注释风格
+ *
+ * - jsdoc:   JavaScript 的 JSDoc（也适用于 Java、Kotlin、PHP、C/C++ 等 /** *\/ 风格）
+ * - tsdoc:   TypeScript 的 TSDoc
+ * - google:  Python 的 Google 风格 docstring
+ * - numpy:   Python 的 NumPy 风格 docstring
+ * - godoc:   Go 的 godoc 约定
+ * - rustdoc: Rust 的 /// 文档注释
+ */
+export type DocStyle = "jsdoc" | "tsdoc" | "google" | "numpy" | "godoc" | "rustdoc";
+
+/**
+ * 所有文档风格的列表，用于参数校验和帮助信息
+ */
+export const DOC_STYLES: DocStyle[] = ["jsdoc", "tsdoc", "google", "numpy", "godoc", "rustdoc"];
+
+/**
+ * 默认的注释语言
+ */
+export const DEFAULT_COMMENT_LANG = "zh";
+
+/**
+ * 常用语言代码对应的语言名称
+ *
+ * 不在表中的代码会原样放进提示词（例如 "pt-BR"），模型通常也能理解
+ */
+const LANGUAGE_NAMES: Record<string, string> = {
+    zh: "中文",
+    "zh-cn": "简体中文",
+    "zh-tw": "繁体中文",
+    en: "英文",
+    ja: "日文",
+    ko: "韩文",
+    de: "德文",
+    fr: "法文",
+    es: "西班牙文",
+    ru: "俄文",
+};
+
+/**
+ * 每种风格写进提示词的要求
+ */
+const STYLE_RULES: Record<DocStyle, string> = {
+    jsdoc:
+        "文档注释使用 JSDoc 格式（/** ... */，写在声明之前），" +
+        "包含 @param {类型} 参数名 说明、@returns {类型} 说明，可能抛出异常时加 @throws",
+    tsdoc:
+        "文档注释使用 TSDoc 格式（/** ... */，写在声明之前），" +
+        "包含 @param 参数名 - 说明、@returns 说明，可能抛出异常时加 @throws；类型已写在签名中，不要在注释里重复类型",
+    google:
+        "文档注释使用 Google 风格的 docstring（三引号字符串，写在 def / class 的下一行），" +
+        "按需包含 Args:、Returns:、Raises: 小节，每个参数一行，格式为 \"参数名 (类型): 说明\"",
+    numpy:
+        "文档注释使用 NumPy 风格的 docstring（三引号字符串，写在 def / class 的下一行），" +
+        "按需包含 Parameters、Returns、Raises 小节，小节标题下一行用连字符（----------）作下划线",
+    godoc:
+        "文档注释遵循 godoc 约定：在声明前用 // 注释，第一句以被声明的名字开头（例如 \"// Sum returns ...\"），" +
+        "使用完整的句子，不要使用 @param 之类的标签",
+    rustdoc:
+        "文档注释使用 rustdoc 格式（/// 写在声明之前，内容为 Markdown），" +
+        "按需包含 # Arguments、# Returns、# Errors、# Panics 小节",
+};
+
+/**
+ * 校验并规范化文档风格名称
+ *
+ * @param value - 用户输入的风格（来自 CLI 参数、环境变量或配置文件）
+ * @returns 合法的 DocStyle
+ */
+export function parseDocStyle(value: string): DocStyle {
+    const style = value.trim().toLowerCase();
+    if (!DOC_STYLES.includes(style as DocStyle)) {
+        throw new Error(`不支持的注释风格: ${value}（可选值: ${DOC_STYLES.join(", ")}）`);
+    }
+    return style as DocStyle;
+}
+
+/**
+ * 获取编程语言的默认文档风格
+ *
+ * 来自语言注册表中的 docStyle；没有对应风格的语言（如 ruby）按该语言自己的习惯书写
+ *
+ * @param language - 语言名称（languages.ts 中注册的名称）
+ * @returns 默认风格；没有合适的风格时返回 undefined
+ */
+export function defaultStyleFor(language: string): DocStyle | undefined {
+    return findLanguage(language)?.docStyle;
+}
+
+/**
+ * 把语言代码转换成提示词中使用的语言名称
+ *
+ * @param code - 语言代码（如 "en"、"zh"），不区分大小写
+ * @returns 语言名称（如 "英文"）
+ */
+export function commentLanguageName(code: string): string {
+    return LANGUAGE_NAMES[code.trim().toLowerCase()] ?? code.trim();
+}
+
+/**
+ * 获取文档风格的提示词要求
+ */
+export function styleRule(style: DocStyle): string {
+    return STYLE_RULES[style];
+}
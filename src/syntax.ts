@@ -0,0 +1,224 @@
+/**
+ * 语法检查模块
+ *
+ * 代码保护校验只比较去掉注释后的 token，发现不了注释本身写坏的情况：
+ * 没有闭合的 /*、放错位置的 Python docstring 等都会让文件无法解析。
+ * 这个模块在写回文件之前做一次语法检查：
+ * 1. 分别解析原始代码和带注释的代码，收集语法错误
+ * 2. 比较两边的错误，只有加注释之后新出现的错误才算失败
+ *    （原始代码本来就有的错误不影响写入）
+ *
+ * 内置的检查器：
+ * - TypeScript / JavaScript：TypeScript 编译器的语法诊断（不做类型检查）
+ * - Python：本地的 python3（ast.parse），找不到 python3 时跳过
+ *
+ * 其他语言可以通过 registerSyntaxChecker 注册自己的检查器
+ */
+
+import { execFile } from "child_process";
+import ts from "typescript";
+import { promisify } from "util";
+import { CollieError } from "./errors.js";
+import { findLanguage } from "./languages.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 一个语法错误
+ *
+ * - line / column: 位置（从 1 开始）
+ * - message: 错误信息
+ */
+export interface SyntaxDiagnostic {
+    line: number;
+    column: number;
+    message: string;
+}
+
+/**
+ * 语法检查器
+ *
+ * @param code - 源代码
+ * @param fileExtension - 文件扩展名（如 ".tsx"）
+ * @returns 语法错误列表；没有可用的解析器（例如没有安装 python3）时返回 null
+ */
+export type SyntaxChecker = (code: string, fileExtension: string) => Promise<SyntaxDiagnostic[] | null>;
+
+/**
+ * 检查结果
+ *
+ * - skipped: 该语言没有可用的检查器，未做检查
+ * - introduced: 加注释之后新出现的语法错误
+ */
+export interface SyntaxReport {
+    skipped: boolean;
+    introduced: SyntaxDiagnostic[];
+}
+
+/**
+ * 加注释之后文件无法解析时抛出
+ *
+ * 携带新出现的语法错误，便于 CLI 展示
+ */
+export class SyntaxCheckError extends CollieError {
+    constructor(message: string, readonly diagnostics: SyntaxDiagnostic[]) {
+        super(message);
+    }
+}
+
+/**
+ * 报告中最多列出的错误数量
+ */
+const MAX_REPORTED = 10;
+
+/**
+ * 外部解析器的超时时间（毫秒）
+ */
+const EXTERNAL_TIMEOUT_MS = 10_000;
+
+/**
+ * 用 TypeScript 编译器检查语法
+ *
+ * transpileModule 只做语法分析和转换，不读取其他文件、不做类型检查，
+ * 返回的诊断就是语法错误；文件名的扩展名决定是否按 JSX 解析
+ */
+const checkWithTypeScript: SyntaxChecker = async (code, fileExtension) => {
+    const { diagnostics = [] } = ts.transpileModule(code, {
+        fileName: `file${fileExtension || ".ts"}`,
+        reportDiagnostics: true,
+        compilerOptions: {
+            allowJs: true,
+            jsx: ts.JsxEmit.Preserve,
+            noResolve: true,
+        },
+    });
+
+    return diagnostics
+        .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+        .map((diagnostic) => {
+            const position = diagnostic.file && diagnostic.start !== undefined
+                ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+                : { line: 0, character: 0 };
+            return {
+                line: position.line + 1,
+                column: position.character + 1,
+                message: ts.flattenDiagnosticMessageText(diagnostic.messageText, " "),
+            };
+        });
+};
+
+/**
+ * Python 检查脚本：从标准输入读取代码，输出 JSON 格式的错误列表
+ *
+ * ast.parse 遇到第一个错误就停止，所以最多只有一个错误
+ */
+const PYTHON_SCRIPT = `
+import ast, json, sys
+try:
+    ast.parse(sys.stdin.read())
+    print("[]")
+except SyntaxError as e:
+    print(json.dumps([{"line": e.lineno or 1, "column": e.offset or 1, "message": e.msg}]))
+`;
+
+/**
+ * 用本地的 python3 检查语法
+ */
+const checkWithPython: SyntaxChecker = async (code) => {
+    try {
+        const running = execFileAsync("python3", ["-c", PYTHON_SCRIPT], { timeout: EXTERNAL_TIMEOUT_MS });
+        // python3 启动失败或提前退出时，写入 stdin 会出现 EPIPE；
+        // 没有监听 error 事件的话这个错误会让整个进程退出，错误本身由下面的 await 报告
+        running.child.stdin?.on("error", () => undefined);
+        running.child.stdin?.end(code);
+        const { stdout } = await running;
+        return JSON.parse(stdout) as SyntaxDiagnostic[];
+    } catch {
+        // 没有安装 python3、超时或输出无法解析时，按"无法检查"处理
+        return null;
+    }
+};
+
+/**
+ * 语言名称（languages.ts 中注册的名称）→ 检查器
+ */
+const CHECKERS = new Map<string, SyntaxChecker>([
+    ["typescript", checkWithTypeScript],
+    ["javascript", checkWithTypeScript],
+    ["python", checkWithPython],
+]);
+
+/**
+ * 注册（或替换）一种语言的语法检查器
+ *
+ * 例如用本地的 gofmt、rustc --parse-only 等工具检查其他语言
+ *
+ * @param language - 语言名称（languages.ts 中注册的名称，如 "go"）
+ * @param checker - 检查器
+ */
+export function registerSyntaxChecker(language: string, checker: SyntaxChecker): void {
+    CHECKERS.set(language, checker);
+}
+
+/**
+ * 检查加注释之后是否引入了新的语法错误
+ *
+ * 加注释会让行号错位，所以按错误信息比较：
+ * 带注释的代码中某种错误的数量比原始代码多，多出来的就是新引入的错误
+ *
+ * 文件的扩展名不属于这种语言时（没有扩展名的脚本、--language 指定的语言），
+ * 按这种语言的第一个扩展名解析
+ *
+ * @param original - 原始代码
+ * @param result - 带注释的代码
+ * @param language - 语言名称
+ * @param fileExtension - 文件扩展名
+ * @returns 检查结果
+ */
+export async function checkSyntax(
+    original: string,
+    result: string,
+    language: string,
+    fileExtension = ""
+): Promise<SyntaxReport> {
+    const checker = CHECKERS.get(language);
+    if (!checker) {
+        return { skipped: true, introduced: [] };
+    }
+
+    const extensions = findLanguage(language)?.extensions ?? [];
+    const ext = extensions.includes(fileExtension.toLowerCase()) ? fileExtension : extensions[0] ?? fileExtension;
+    const before = await checker(original, ext);
+    const after = before ? await checker(result, ext) : null;
+    if (!before || !after) {
+        return { skipped: true, introduced: [] };
+    }
+
+    const existing = new Map<string, number>();
+    for (const diagnostic of before) {
+        existing.set(diagnostic.message, (existing.get(diagnostic.message) ?? 0) + 1);
+    }
+    const introduced = after.filter((diagnostic) => {
+        const count = existing.get(diagnostic.message) ?? 0;
+        existing.set(diagnostic.message, count - 1);
+        return count <= 0;
+    });
+
+    return { skipped: false, introduced };
+}
+
+/**
+ * 把语法错误格式化成可读文本
+ *
+ * @param diagnostics - 语法错误
+ * @returns 多行文本，每个错误一行
+ */
+export function formatSyntaxDiagnostics(diagnostics: SyntaxDiagnostic[]): string {
+    const lines = diagnostics
+        .slice(0, MAX_REPORTED)
+        .map((d) => `  第 ${d.line} 行第 ${d.column} 列: ${d.message}`);
+    if (diagnostics.length > MAX_REPORTED) {
+        lines.push(`  ……还有 ${diagnostics.length - MAX_REPORTED} 个错误`);
+    }
+    return lines.join("\n");
+}
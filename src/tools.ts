@@ -0,0 +1,567 @@
+/**
+ * 只读工具模块（--tools）
+ *
+ * 默认每个文件只发送一次提示词，模型看不到被导入的函数和类型，只能按名字猜测它们的作用。
+ * 这个模块让模型在给出结果之前可以调用几个只读工具，查看项目中的其他文件：
+ * - read_file: 读取文件（可以只读取其中几行）
+ * - list_directory: 列出目录中的文件和子目录
+ * - find_definition: 按名称查找函数、类、类型等声明
+ * - read_package_json: 读取最近的 package.json（依赖、入口、模块类型等）
+ *
+ * 安全限制：
+ * - 所有路径都限制在项目根目录之内，符号链接按它指向的真实位置判断
+ * - 不能访问隐藏的文件和目录（.env、.git 等），避免把密钥发给模型
+ * - 工具调用的轮数和工具输出的总 token 数都有上限，达到上限后要求模型直接给出结果
+ *
+ * 用法：ProjectTools.attach() 给 Provider 套上工具调用循环，
+ * 之后每次 complete() 都会在模型请求工具时执行工具、把结果发回，直到模型给出最终结果
+ */
+
+import { readdir, readFile, realpath, stat } from "fs/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { estimateTokens } from "./chunker.js";
+import { CollieError, MalformedResponseError } from "./errors.js";
+import { expandInputs } from "./files.js";
+import { buildToolsPrompt, TOOLS_EXHAUSTED_PROMPT } from "./prompts.js";
+import { ChatMessage, ChatRequest, ChatResponse, LLMProvider, ToolCall, ToolDefinition } from "./providers.js";
+
+/**
+ * ProjectTools 的选项
+ *
+ * - root: 项目根目录，工具只能访问其中的文件（默认当前目录）
+ * - maxIterations: 每次请求最多调用几轮工具（默认 5）
+ * - maxTokens: 每次请求中工具输出的 token 总数上限（默认 8000）
+ */
+export interface ToolOptions {
+    root?: string;
+    maxIterations?: number;
+    maxTokens?: number;
+}
+
+/**
+ * 套上工具调用循环时的选项
+ *
+ * - filePath: 正在处理的文件，写进系统提示词，让模型能够解析相对路径的导入
+ * - onToolCall: 每次执行工具之前回调（用于日志和事件）
+ */
+export interface AttachOptions {
+    filePath: string;
+    onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * 默认的工具调用轮数上限
+ */
+export const DEFAULT_TOOL_ITERATIONS = 5;
+
+/**
+ * 默认的工具输出 token 上限
+ */
+export const DEFAULT_TOOL_TOKENS = 8000;
+
+/**
+ * 单次工具输出的最大字符数，超出部分截断
+ */
+const MAX_RESULT_CHARS = 12_000;
+
+/**
+ * 可以读取的最大文件大小（字节）
+ */
+const MAX_FILE_BYTES = 1_000_000;
+
+/**
+ * list_directory 最多列出的条目数
+ */
+const MAX_LIST_ENTRIES = 200;
+
+/**
+ * find_definition 最多返回的定义数
+ */
+const MAX_DEFINITIONS = 5;
+
+/**
+ * find_definition 每个定义展示的行数（从声明所在行开始）
+ */
+const DEFINITION_LINES = 30;
+
+/**
+ * find_definition 向上查找文档注释的最大行数
+ */
+const DOC_LOOKBACK_LINES = 20;
+
+/**
+ * 工具参数错误、路径越界等，作为工具结果返回给模型，不会中断处理
+ */
+class ToolError extends CollieError {}
+
+/**
+ * 提供给模型的工具
+ */
+const TOOL_DEFINITIONS: ToolDefinition[] = [
+    {
+        name: "read_file",
+        description: "读取项目中的文件。可以用 startLine / endLine 只读取其中几行（从 1 开始，包含两端）",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "相对于项目根目录的文件路径" },
+                startLine: { type: "integer", description: "起始行号" },
+                endLine: { type: "integer", description: "结束行号" },
+            },
+            required: ["path"],
+        },
+    },
+    {
+        name: "list_directory",
+        description: "列出项目中某个目录下的文件和子目录（子目录以 / 结尾）",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "相对于项目根目录的目录路径，默认为项目根目录" },
+            },
+        },
+    },
+    {
+        name: "find_definition",
+        description: "按名称查找函数、类、接口、类型、常量等声明，返回所在文件、行号和声明的代码（包括上方的文档注释）",
+        parameters: {
+            type: "object",
+            properties: {
+                symbol: { type: "string", description: "要查找的名称，如 parseConfig" },
+                path: { type: "string", description: "只在这个目录或文件中查找，默认为整个项目" },
+            },
+            required: ["symbol"],
+        },
+    },
+    {
+        name: "read_package_json",
+        description: "读取离指定路径最近的 package.json（了解依赖、入口和模块类型）",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "从这个文件或目录开始向上查找，默认为项目根目录" },
+            },
+        },
+    },
+];
+
+/**
+ * 声明前面可以出现的修饰符
+ */
+const DECLARATION_MODIFIERS =
+    "(?:(?:export|default|declare|abstract|async|public|private|protected|static|readonly|unsafe|pub(?:\\([^)]*\\))?)\\s+)*";
+
+/**
+ * 声明关键字（TypeScript / JavaScript、Python、Rust、Go 等），以及 Go 的方法接收者 func (r *T)
+ */
+const DECLARATION_KEYWORDS =
+    "(?:function\\*?|class|interface|type|enum|const|let|var|namespace|def|fn|struct|trait|func)\\s+|func\\s*\\([^)]*\\)\\s*";
+
+/**
+ * 项目中的只读工具
+ *
+ * 一个实例可以给多个文件使用；find_definition 用到的文件列表在实例中缓存
+ */
+export class ProjectTools {
+    readonly root: string;
+    readonly maxIterations: number;
+    readonly maxTokens: number;
+
+    /**
+     * 提供给模型的工具定义
+     */
+    readonly definitions: ToolDefinition[] = TOOL_DEFINITIONS;
+
+    private realRoot?: Promise<string>;
+    private readonly sourceFiles = new Map<string, Promise<string[]>>();
+
+    constructor(options: ToolOptions = {}) {
+        this.root = resolve(options.root ?? process.cwd());
+        this.maxIterations = options.maxIterations ?? DEFAULT_TOOL_ITERATIONS;
+        this.maxTokens = options.maxTokens ?? DEFAULT_TOOL_TOKENS;
+    }
+
+    /**
+     * 给 Provider 套上工具调用循环
+     *
+     * 应该套在最外层（用量统计之外），这样循环中的每一次请求都会被统计、限流和缓存
+     *
+     * @param inner - 实际发送请求的 Provider
+     * @param options - 正在处理的文件和回调
+     * @returns 带工具调用循环的 Provider
+     */
+    attach(inner: LLMProvider, options: AttachOptions): LLMProvider {
+        return new ToolLoopProvider(inner, this, options);
+    }
+
+    /**
+     * 执行一次工具调用
+     *
+     * 参数错误、文件不存在、路径越界等都作为 "错误: ..." 文本返回给模型，由模型决定下一步，
+     * 不会中断文件的处理
+     *
+     * @param call - 模型请求的工具调用
+     * @returns 工具输出
+     */
+    async run(call: ToolCall): Promise<string> {
+        try {
+            const args = parseArguments(call.arguments);
+            switch (call.name) {
+                case "read_file":
+                    return await this.readFile(
+                        stringArg(args, "path")!,
+                        integerArg(args, "startLine"),
+                        integerArg(args, "endLine")
+                    );
+                case "list_directory":
+                    return await this.listDirectory(stringArg(args, "path", false) ?? ".");
+                case "find_definition":
+                    return await this.findDefinition(stringArg(args, "symbol")!, stringArg(args, "path", false) ?? ".");
+                case "read_package_json":
+                    return await this.readPackageJson(stringArg(args, "path", false) ?? ".");
+                default:
+                    throw new ToolError(`没有名为 ${call.name} 的工具`);
+            }
+        } catch (error) {
+            return `错误: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+
+    private async readFile(path: string, startLine?: number, endLine?: number): Promise<string> {
+        const file = await this.resolvePath(path);
+        const info = await stat(file);
+        if (info.isDirectory()) {
+            throw new ToolError(`${path} 是目录，请使用 list_directory`);
+        }
+        if (info.size > MAX_FILE_BYTES) {
+            throw new ToolError(`${path} 太大（${info.size} 字节），请用 find_definition 查找需要的部分`);
+        }
+
+        const buffer = await readFile(file);
+        if (buffer.includes(0)) {
+            throw new ToolError(`${path} 是二进制文件`);
+        }
+        const lines = buffer.toString("utf-8").split("\n");
+        const start = Math.max(1, startLine ?? 1);
+        const end = Math.min(lines.length, endLine ?? lines.length);
+        if (start > end) {
+            throw new ToolError(`行号超出范围（${path} 共 ${lines.length} 行）`);
+        }
+
+        return truncate(
+            `${await this.display(file)}（第 ${start}-${end} 行，共 ${lines.length} 行）:\n` +
+            lines.slice(start - 1, end).join("\n"),
+            "可以用 startLine / endLine 读取后面的部分"
+        );
+    }
+
+    private async listDirectory(path: string): Promise<string> {
+        const dir = await this.resolvePath(path);
+        if (!(await stat(dir)).isDirectory()) {
+            throw new ToolError(`${path} 不是目录`);
+        }
+
+        const entries = (await readdir(dir, { withFileTypes: true }))
+            .filter((entry) => !entry.name.startsWith("."))
+            .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+            // 子目录排在前面
+            .sort((a, b) => Number(!a.endsWith("/")) - Number(!b.endsWith("/")) || a.localeCompare(b));
+
+        const lines = entries.slice(0, MAX_LIST_ENTRIES);
+        if (entries.length > MAX_LIST_ENTRIES) {
+            lines.push(`……还有 ${entries.length - MAX_LIST_ENTRIES} 项`);
+        }
+        return `${await this.display(dir)}/:\n${lines.length > 0 ? lines.join("\n") : "（空目录）"}`;
+    }
+
+    /**
+     * 按名称查找声明
+     *
+     * 在项目的源代码文件中（遵循 .gitignore，跳过二进制文件和未知语言的文件）
+     * 按常见的声明关键字逐行匹配，不做完整的语法分析
+     */
+    private async findDefinition(symbol: string, path: string): Promise<string> {
+        if (!/^[A-Za-z_$][\w$]*$/.test(symbol)) {
+            throw new ToolError(`不是合法的名称: ${symbol}`);
+        }
+        const name = symbol.replace(/\$/g, "\\$");
+        const pattern = new RegExp(`^\\s*${DECLARATION_MODIFIERS}(?:${DECLARATION_KEYWORDS})${name}(?![\\w$])`);
+
+        const found: string[] = [];
+        for (const candidate of await this.listSourceFiles(await this.resolvePath(path))) {
+            // 目录中的文件也可能是符号链接，同样经过 resolvePath：指向项目之外或隐藏文件的都跳过
+            const file = await this.resolvePath(candidate).catch(() => undefined);
+            if (!file || (await stat(file)).size > MAX_FILE_BYTES) continue;
+            const lines = (await readFile(file, "utf-8")).split("\n");
+            for (let i = 0; i < lines.length && found.length < MAX_DEFINITIONS; i++) {
+                if (!pattern.test(lines[i])) continue;
+                const start = docCommentStart(lines, i);
+                const snippet = lines.slice(start, Math.min(lines.length, i + DEFINITION_LINES)).join("\n");
+                found.push(`${await this.display(file)} 第 ${i + 1} 行:\n${snippet}`);
+            }
+            if (found.length >= MAX_DEFINITIONS) break;
+        }
+
+        if (found.length === 0) {
+            return `没有找到 ${symbol} 的声明`;
+        }
+        return truncate(found.join("\n\n"));
+    }
+
+    /**
+     * 从 path 开始向上查找 package.json（不超出项目根目录）
+     */
+    private async readPackageJson(path: string): Promise<string> {
+        const root = await this.rootPath();
+        const start = await this.resolvePath(path);
+        let dir = (await stat(start)).isDirectory() ? start : dirname(start);
+
+        for (;;) {
+            // 和其他工具一样经过 resolvePath：不存在的、指向项目之外的 package.json 都跳过
+            const file = await this.resolvePath(join(dir, "package.json")).catch(() => undefined);
+            const text = file && await readFile(file, "utf-8").catch(() => undefined);
+            if (file && text !== undefined) {
+                return truncate(`${await this.display(file)}:\n${text}`);
+            }
+            if (dir === root) break;
+            dir = dirname(dir);
+        }
+        throw new ToolError(`从 ${path} 向上没有找到 package.json`);
+    }
+
+    /**
+     * 把模型给出的路径解析成项目中的真实路径
+     *
+     * @throws ToolError - 路径在项目之外、是隐藏文件、不存在，或者是指向项目之外或隐藏文件的符号链接
+     */
+    private async resolvePath(path: string): Promise<string> {
+        const root = await this.rootPath();
+        const target = resolve(root, path);
+        if (!isInside(root, target)) {
+            throw new ToolError(`只能访问项目目录之内的文件: ${path}`);
+        }
+        if (isHidden(root, target)) {
+            throw new ToolError(`不能访问隐藏的文件或目录: ${path}`);
+        }
+
+        let real: string;
+        try {
+            real = await realpath(target);
+        } catch {
+            throw new ToolError(`文件不存在: ${path}`);
+        }
+        if (!isInside(root, real)) {
+            throw new ToolError(`${path} 是指向项目目录之外的符号链接`);
+        }
+        // 符号链接可能指向隐藏文件（例如 config -> .env），所以按真实路径再检查一次
+        if (isHidden(root, real)) {
+            throw new ToolError(`${path} 是指向隐藏的文件或目录的符号链接`);
+        }
+        return real;
+    }
+
+    /**
+     * 项目根目录的真实路径（根目录本身可能是符号链接）
+     */
+    private rootPath(): Promise<string> {
+        this.realRoot ??= realpath(this.root);
+        return this.realRoot;
+    }
+
+    /**
+     * 展示给模型的路径（相对于项目根目录，使用 /）
+     */
+    private async display(file: string): Promise<string> {
+        return relative(await this.rootPath(), file).split(sep).join("/") || ".";
+    }
+
+    /**
+     * 列出目录（或单个文件）中的源代码文件，结果按目录缓存
+     */
+    private async listSourceFiles(base: string): Promise<string[]> {
+        const root = await this.rootPath();
+        let files = this.sourceFiles.get(base);
+        if (!files) {
+            files = expandInputs([base], { cwd: root }).then((paths) =>
+                paths
+                    .map((file) => resolve(root, file))
+                    .filter((file) => !isHidden(root, file))
+            );
+            this.sourceFiles.set(base, files);
+        }
+        return files;
+    }
+}
+
+/**
+ * 带工具调用循环的 Provider 包装器
+ *
+ * 每次 complete()：
+ * 1. 在对话前面加上说明工具用法的系统提示词，连同工具定义一起发送
+ * 2. 模型请求调用工具时，执行工具并把结果作为 tool 消息发回，再次请求
+ * 3. 模型不再调用工具时，它的回答就是最终结果
+ *
+ * 达到轮数上限或工具输出的 token 上限后，最后一次请求不再提供工具，并要求模型直接给出结果。
+ * 提供工具的请求不使用流式接口，最终结果通过 onDelta 一次性回调
+ */
+class ToolLoopProvider implements LLMProvider {
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly tools: ProjectTools,
+        private readonly options: AttachOptions
+    ) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        const { onDelta, ...rest } = request;
+        const messages: ChatMessage[] = [
+            {
+                role: "system",
+                content: buildToolsPrompt({
+                    filePath: this.options.filePath,
+                    maxIterations: this.tools.maxIterations,
+                }),
+            },
+            ...request.messages,
+        ];
+        let tokensLeft = this.tools.maxTokens;
+
+        for (let iteration = 0; ; iteration++) {
+            const offerTools = iteration < this.tools.maxIterations && tokensLeft > 0;
+            const response = await this.inner.complete({
+                ...rest,
+                messages,
+                tools: offerTools ? this.tools.definitions : undefined,
+                // 不提供工具的最后一次请求可以使用流式接口
+                onDelta: offerTools ? undefined : onDelta,
+            });
+
+            // 被截断的响应原样返回，由调用方按截断处理
+            if (!response.toolCalls?.length || response.finishReason === "length") {
+                if (offerTools && response.content) {
+                    onDelta?.(response.content);
+                }
+                return response;
+            }
+            if (!offerTools) {
+                throw new MalformedResponseError("工具调用已达到上限，模型仍在请求调用工具");
+            }
+
+            // 请求调用工具的响应不需要调用方校验，直接写入缓存，重新运行时不必重新请求这一轮
+            await response.commit?.();
+            messages.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+            for (const call of response.toolCalls) {
+                this.options.onToolCall?.(call);
+                let result = await this.tools.run(call);
+                const tokens = estimateTokens(result);
+                if (tokens > tokensLeft) {
+                    result = `错误: 工具输出已达到上限（${this.tools.maxTokens} tokens），请根据已有的信息完成任务`;
+                    tokensLeft = 0;
+                } else {
+                    tokensLeft -= tokens;
+                }
+                messages.push({ role: "tool", content: result, toolCallId: call.id, toolName: call.name });
+            }
+
+            if (iteration + 1 >= this.tools.maxIterations || tokensLeft <= 0) {
+                messages.push({ role: "user", content: TOOLS_EXHAUSTED_PROMPT });
+            }
+        }
+    }
+}
+
+/**
+ * 路径是否在目录之内（包括目录本身）
+ */
+function isInside(dir: string, target: string): boolean {
+    const rel = relative(dir, target);
+    return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * 路径相对于目录是否经过隐藏的文件或目录（以 . 开头）
+ */
+function isHidden(dir: string, target: string): boolean {
+    return relative(dir, target).split(sep).some((part) => part.startsWith("."));
+}
+
+/**
+ * 从声明所在的行向上，找到紧挨着的文档注释和装饰器的第一行
+ */
+function docCommentStart(lines: string[], index: number): number {
+    let start = index;
+    while (start > 0 && index - start < DOC_LOOKBACK_LINES) {
+        const line = lines[start - 1].trim();
+        if (!/^(\/\*\*?|\*|\/\/|#|@)/.test(line)) break;
+        start--;
+    }
+    return start;
+}
+
+/**
+ * 截断过长的工具输出
+ *
+ * @param text - 工具输出
+ * @param hint - 截断时附加的提示（如何读取剩下的部分）
+ */
+function truncate(text: string, hint?: string): string {
+    if (text.length <= MAX_RESULT_CHARS) {
+        return text;
+    }
+    return `${text.slice(0, MAX_RESULT_CHARS)}\n……（内容过长，已截断${hint ? `，${hint}` : ""}）`;
+}
+
+/**
+ * 解析工具参数（JSON 对象）
+ */
+function parseArguments(text: string): Record<string, unknown> {
+    let args: unknown;
+    try {
+        args = JSON.parse(text || "{}");
+    } catch {
+        throw new ToolError(`参数不是合法的 JSON: ${text}`);
+    }
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+        throw new ToolError(`参数需要是 JSON 对象: ${text}`);
+    }
+    return args as Record<string, unknown>;
+}
+
+/**
+ * 读取字符串参数
+ *
+ * @param required - 是否必填（默认 true）
+ */
+function stringArg(args: Record<string, unknown>, key: string, required = true): string | undefined {
+    const value = args[key];
+    if (value === undefined || value === null || value === "") {
+        if (required) throw new ToolError(`缺少参数 ${key}`);
+        return undefined;
+    }
+    if (typeof value !== "string") {
+        throw new ToolError(`参数 ${key} 需要是字符串`);
+    }
+    return value;
+}
+
+/**
+ * 读取可选的整数参数（模型有时会把数字写成字符串）
+ */
+function integerArg(args: Record<string, unknown>, key: string): number | undefined {
+    const value = args[key];
+    if (value === undefined || value === null || value === "") {
+        return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number)) {
+        throw new ToolError(`参数 ${key} 需要是整数`);
+    }
+    return number;
+}
@@ -0,0 +1,291 @@
+/**
+ * 用量与费用统计模块
+ *
+ * 每次请求的响应里都带有 token 用量（usage），以前除了限流以外都被丢掉了。
+ * 这个模块负责：
+ * 1. 价格表：每个模型每百万输入 / 输出 token 的价格，可以在配置文件的 prices 中覆盖
+ * 2. UsageTracker：按文件和按整次运行累计请求数、token 数和估算费用
+ * 3. 费用上限（--max-cost）：每次请求前按"输入 token + max_tokens"预估费用，
+ *    可能超出上限时不再发起请求，整批处理随之停止
+ *
+ * 命中本地缓存的请求不消耗 token，只计入 cachedRequests，也不占用费用上限
+ */
+
+import { estimateTokens } from "./chunker.js";
+import { CollieError } from "./errors.js";
+import { ChatRequest, ChatResponse, LLMProvider, ProviderName, TokenUsage } from "./providers.js";
+
+/**
+ * 一个模型的价格（美元 / 百万 token）
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * 价格表：模型名称 → 价格
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * 内置价格表（美元 / 百万 token）
+ *
+ * 只是估算用的参考价格，各服务的实际价格以账单为准；
+ * 价格变化或使用其他模型时，在配置文件的 prices 中覆盖即可
+ */
+export const DEFAULT_PRICES: PriceTable = {
+    "qwen-turbo": { input: 0.05, output: 0.2 },
+    "qwen-plus": { input: 0.4, output: 1.2 },
+    "qwen-max": { input: 1.6, output: 6.4 },
+    "qwen-coder-plus": { input: 1, output: 5 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+};
+
+/**
+ * 用量统计
+ *
+ * - requests: 实际发给服务的请求数
+ * - cachedRequests: 命中本地缓存的请求数（不消耗 token）
+ * - inputTokens / outputTokens: 输入 / 输出 token 数
+ * - estimated: 是否有请求的用量是本地估算的（服务没有返回 usage）
+ * - cost: 估算费用（美元）；没有模型价格时为 undefined
+ */
+export interface UsageStats {
+    requests: number;
+    cachedRequests: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimated: boolean;
+    cost?: number;
+}
+
+/**
+ * 超出费用上限（--max-cost）
+ *
+ * 在发起请求之前抛出，所以不会产生这次请求的费用
+ */
+export class BudgetExceededError extends CollieError {}
+
+/**
+ * 查找模型的价格
+ *
+ * 先按模型名精确匹配，再按最长前缀匹配（"gpt-4o-mini-2024-07-18" 使用 "gpt-4o-mini" 的价格）；
+ * Ollama 在本地运行，费用为 0
+ *
+ * @param provider - provider 名称
+ * @param model - 模型名称
+ * @param prices - 配置文件中的价格，覆盖内置价格
+ * @returns 模型价格；找不到时返回 undefined
+ */
+export function findPrice(provider: ProviderName, model: string, prices: PriceTable = {}): ModelPrice | undefined {
+    const table = { ...DEFAULT_PRICES, ...prices };
+    if (table[model]) {
+        return table[model];
+    }
+    const prefix = Object.keys(table)
+        .filter((name) => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    if (prefix) {
+        return table[prefix];
+    }
+    return provider === "ollama" ? { input: 0, output: 0 } : undefined;
+}
+
+/**
+ * 按价格计算一次用量的费用（美元）
+ */
+export function costOf(usage: TokenUsage, price: ModelPrice): number {
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 创建一份空的用量统计
+ */
+export function emptyUsage(price?: ModelPrice): UsageStats {
+    return {
+        requests: 0,
+        cachedRequests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        estimated: false,
+        cost: price ? 0 : undefined,
+    };
+}
+
+/**
+ * 把用量格式化成一行文字，例如 "3 次请求 · 输入 1200 / 输出 800 tokens · 约 $0.0015"
+ */
+export function formatUsage(usage: UsageStats): string {
+    const parts = [`${usage.requests} 次请求`];
+    if (usage.cachedRequests > 0) {
+        parts.push(`缓存命中 ${usage.cachedRequests} 次`);
+    }
+    parts.push(`输入 ${usage.inputTokens} / 输出 ${usage.outputTokens} tokens${usage.estimated ? "（部分为估算）" : ""}`);
+    parts.push(usage.cost === undefined ? "费用未知" : `约 ${formatCost(usage.cost)}`);
+    return parts.join(" · ");
+}
+
+/**
+ * 格式化费用（美元），金额很小时多保留几位小数
+ */
+export function formatCost(cost: number): string {
+    if (cost > 0 && cost < 0.0001) {
+        return "<$0.0001";
+    }
+    return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * 一次运行的用量统计
+ *
+ * 所有文件共用一个实例：每个文件的 Provider 通过 meter() 包装，
+ * 请求结束后同时累计到这个文件和整次运行上
+ */
+export class UsageTracker {
+    readonly total: UsageStats;
+    private readonly files = new Map<string, UsageStats>();
+    // 已发出、还没有返回的请求的预估费用（并发时一起计入上限）
+    private reserved = 0;
+    private exceeded = false;
+
+    /**
+     * @param price - 模型价格；未知时不计算费用，也不能设置上限
+     * @param maxCost - 费用上限（美元）
+     * @throws CollieError - 设置了上限但没有模型价格时抛出
+     */
+    constructor(
+        readonly price?: ModelPrice,
+        readonly maxCost?: number
+    ) {
+        if (maxCost !== undefined && !price) {
+            throw new CollieError("不知道当前模型的价格，无法使用 --max-cost（可以在配置文件的 prices 中添加）");
+        }
+        this.total = emptyUsage(price);
+    }
+
+    /**
+     * 是否已经因为费用上限拒绝过请求（之后的文件不再处理）
+     */
+    get stopped(): boolean {
+        return this.exceeded;
+    }
+
+    /**
+     * 获取一个文件的用量统计（还没有请求时返回空的统计）
+     */
+    forFile(filePath: string): UsageStats {
+        let usage = this.files.get(filePath);
+        if (!usage) {
+            usage = emptyUsage(this.price);
+            this.files.set(filePath, usage);
+        }
+        return usage;
+    }
+
+    /**
+     * 给 Provider 套上用量统计，请求计入 filePath 这个文件
+     */
+    meter(inner: LLMProvider, filePath: string): LLMProvider {
+        return new MeteredProvider(inner, this, this.forFile(filePath));
+    }
+
+    /**
+     * 发起请求前占用预估费用
+     *
+     * @param estimate - 这次请求的最大预估费用
+     * @returns 释放函数，请求结束（成功或失败）后调用
+     * @throws BudgetExceededError - 已花费 + 进行中 + 这次的预估超过上限时抛出
+     */
+    reserve(estimate: number): () => void {
+        if (this.maxCost !== undefined) {
+            const committed = (this.total.cost ?? 0) + this.reserved;
+            if (this.exceeded || committed + estimate > this.maxCost) {
+                this.exceeded = true;
+                throw new BudgetExceededError(
+                    `已花费 ${formatCost(this.total.cost ?? 0)}，下一次请求最多需要 ${formatCost(estimate)}，` +
+                    `会超出费用上限 ${formatCost(this.maxCost)}，已停止处理`
+                );
+            }
+        }
+        this.reserved += estimate;
+        return () => {
+            this.reserved -= estimate;
+        };
+    }
+
+    /**
+     * 记录一次请求的用量
+     *
+     * 服务没有返回 usage 时按请求和响应的文本估算
+     */
+    record(file: UsageStats, request: ChatRequest, response: ChatResponse): void {
+        if (response.cached) {
+            file.cachedRequests++;
+            this.total.cachedRequests++;
+            return;
+        }
+
+        const estimated = !response.usage;
+        const usage = response.usage ?? {
+            inputTokens: estimateTokens(request.messages.map((m) => m.content).join("\n")),
+            outputTokens: estimateTokens(response.content),
+        };
+        const cost = this.price ? costOf(usage, this.price) : undefined;
+
+        for (const stats of [file, this.total]) {
+            stats.requests++;
+            stats.inputTokens += usage.inputTokens;
+            stats.outputTokens += usage.outputTokens;
+            stats.estimated ||= estimated;
+            if (cost !== undefined) stats.cost = (stats.cost ?? 0) + cost;
+        }
+    }
+}
+
+/**
+ * 带用量统计的 Provider 包装器
+ *
+ * 套在最外层（缓存之外），这样命中缓存的请求也能被统计到；
+ * 有费用上限时，请求前按"输入 token + max_tokens"预估最多需要的费用
+ */
+class MeteredProvider implements LLMProvider {
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly tracker: UsageTracker,
+        private readonly file: UsageStats
+    ) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+        let estimate = 0;
+        if (this.tracker.price) {
+            const inputTokens = estimateTokens(request.messages.map((m) => m.content).join("\n"));
+            estimate = costOf(
+                { inputTokens, outputTokens: request.maxTokens ?? inputTokens },
+                this.tracker.price
+            );
+        }
+
+        // 命中本地缓存的请求不花钱，不占用费用上限（否则缓存充足时也会因为上限停止）
+        const hit = this.tracker.maxCost !== undefined && (await this.inner.isCached?.(request)) === true;
+        const release = hit ? () => undefined : this.tracker.reserve(estimate);
+        try {
+            const response = await this.inner.complete(request);
+            this.tracker.record(this.file, request, response);
+            return response;
+        } finally {
+            release();
+        }
+    }
+}
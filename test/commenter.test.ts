@@ -0,0 +1,306 @@
+/**
+ * 文件处理流程的测试
+ *
+ * 把 src/example.ts 等示例文件复制到临时目录，让 Provider 指向本地模拟服务，
+ * 检查写回、备份、撤销、dry-run、代码保护校验、语法检查和批量处理的结果
+ */
+
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { copyFile, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { BackupRun, BackupStore } from "../src/backups.js";
+import { CachedProvider, ResponseCache } from "../src/cache.js";
+import { addCommentsToFile, addCommentsToFiles, FileSystem } from "../src/commenter.js";
+import { UsageTracker } from "../src/usage.js";
+import { silentLogger, useTestProject } from "./helpers.js";
+import { addDocComments } from "./mock-server.js";
+
+const FIXTURES = ["example.ts", "example2.ts"];
+
+const env = useTestProject("collie-test-", async (dir) => {
+    for (const name of FIXTURES) {
+        await copyFile(join("src", name), join(dir, name));
+    }
+});
+
+/**
+ * 指向临时目录的备份位置
+ */
+function backupRoot(): string {
+    return join(env.dir, ".collie", "backups");
+}
+
+describe("addCommentsToFile", () => {
+    it("写回带注释的代码，并备份原始内容", async () => {
+        const file = join(env.dir, "example2.ts");
+        const original = await readFile(file, "utf-8");
+        const run = new BackupRun(backupRoot());
+
+        const result = await addCommentsToFile(file, {
+            provider: env.mock.provider("dashscope"),
+            backupRun: run,
+            logger: silentLogger,
+        });
+
+        assert.equal(result.status, "written");
+        assert.equal(await readFile(file, "utf-8"), addDocComments(original));
+        assert.equal(run.size, 1);
+
+        const [manifest] = await new BackupStore(backupRoot()).list();
+        assert.equal(manifest.id, run.id);
+        assert.equal(await readFile(join(run.dir, manifest.files[0].backup), "utf-8"), original);
+    });
+
+    it("restore 恢复原始内容", async () => {
+        const file = join(env.dir, "example2.ts");
+        const original = await readFile(file, "utf-8");
+
+        await addCommentsToFile(file, {
+            provider: env.mock.provider("openai"),
+            backupRun: new BackupRun(backupRoot()),
+            logger: silentLogger,
+        });
+        assert.notEqual(await readFile(file, "utf-8"), original);
+
+        const store = new BackupStore(backupRoot());
+        const report = await store.restore(await store.load());
+        assert.equal(report.restored.length, 1);
+        assert.equal(await readFile(file, "utf-8"), original);
+    });
+
+    it("backup 为 false 时不创建备份", async () => {
+        const file = join(env.dir, "example2.ts");
+        const run = new BackupRun(backupRoot());
+
+        const result = await addCommentsToFile(file, {
+            provider: env.mock.provider("openai"),
+            backup: false,
+            backupRun: run,
+            logger: silentLogger,
+        });
+
+        assert.equal(result.status, "written");
+        assert.equal(run.size, 0);
+    });
+
+    it("dry-run 不修改文件，也不创建备份", async () => {
+        const file = join(env.dir, "example.ts");
+        const original = await readFile(file, "utf-8");
+        const run = new BackupRun(backupRoot());
+
+        const result = await addCommentsToFile(file, {
+            provider: env.mock.provider("openai"),
+            backupRun: run,
+            dryRun: true,
+            logger: silentLogger,
+        });
+
+        assert.equal(result.status, "dry-run");
+        assert.equal(result.commentedCode, addDocComments(original));
+        assert.equal(await readFile(file, "utf-8"), original);
+        assert.equal(run.size, 0);
+    });
+
+    it("模型改动了代码时拒绝写入", async () => {
+        const file = join(env.dir, "example2.ts");
+        const original = await readFile(file, "utf-8");
+        env.mock.setHandler((request) => ({
+            content: "```typescript\n" + request.code.replace("a + b", "a - b") + "\n```",
+        }));
+
+        await assert.rejects(
+            addCommentsToFile(file, {
+                provider: env.mock.provider("openai"),
+                backupRun: new BackupRun(backupRoot()),
+                logger: silentLogger,
+            }),
+            { name: "CodeChangedError" }
+        );
+        assert.equal(await readFile(file, "utf-8"), original);
+    });
+
+    it("guardRetries 时使用严格提示词重试", async () => {
+        const file = join(env.dir, "example2.ts");
+        env.mock.reply({ content: "```typescript\nfunction broken() {}\n```" });
+
+        const result = await addCommentsToFile(file, {
+            provider: env.mock.provider("openai"),
+            backupRun: new BackupRun(backupRoot()),
+            guardRetries: 1,
+            logger: silentLogger,
+        });
+
+        assert.equal(result.status, "written");
+        assert.equal(env.mock.requests.length, 2);
+        assert.notEqual(env.mock.requests[0].prompt, env.mock.requests[1].prompt);
+    });
+
+    it("加注释之后无法解析时拒绝写入", async () => {
+        const file = join(env.dir, "example2.ts");
+        const original = await readFile(file, "utf-8");
+        env.mock.setHandler((request) => ({
+            content: "```typescript\n" + request.code.replace("function calculateProduct", "/* 乘积\nfunction calculateProduct") + "\n```",
+        }));
+
+        await assert.rejects(
+            addCommentsToFile(file, {
+                provider: env.mock.provider("openai"),
+                backupRun: new BackupRun(backupRoot()),
+                logger: silentLogger,
+                // 没有闭合的注释也会让代码保护校验失败，这里只看语法检查
+                verify: false,
+            }),
+            { name: "SyntaxCheckError" }
+        );
+        assert.equal(await readFile(file, "utf-8"), original);
+    });
+
+    it("审阅后的代码同样要通过校验才写入", async () => {
+        const file = join(env.dir, "example2.ts");
+        const original = await readFile(file, "utf-8");
+
+        await assert.rejects(
+            addCommentsToFile(file, {
+                provider: env.mock.provider("openai"),
+                backup: false,
+                logger: silentLogger,
+                review: async (_, code) => code.replace("a + b", "a - b"),
+            }),
+            { name: "CodeChangedError" }
+        );
+        await assert.rejects(
+            addCommentsToFile(file, {
+                provider: env.mock.provider("openai"),
+                backup: false,
+                logger: silentLogger,
+                verify: false,
+                review: async (_, code) => code.replace("function calculateProduct", "/* 乘积\nfunction calculateProduct"),
+            }),
+            { name: "SyntaxCheckError" }
+        );
+        assert.equal(await readFile(file, "utf-8"), original);
+    });
+
+    it("被拒绝的输出不写入缓存，重新运行时重新请求", async () => {
+        const file = join(env.dir, "example2.ts");
+        const cache = new ResponseCache(join(env.dir, "cache"));
+        const provider = new CachedProvider(env.mock.provider("openai"), cache);
+        env.mock.setHandler((request) => ({
+            content: "```typescript\n" + request.code.replace("a + b", "a - b") + "\n```",
+        }));
+
+        await assert.rejects(
+            addCommentsToFile(file, { provider, backup: false, logger: silentLogger }),
+            { name: "CodeChangedError" }
+        );
+        assert.equal((await cache.stats()).entries, 0);
+
+        env.mock.reset();
+        const result = await addCommentsToFile(file, { provider, backup: false, logger: silentLogger });
+        assert.equal(result.status, "written");
+        assert.equal(env.mock.requests.length, 1);
+        assert.equal((await cache.stats()).entries, 1);
+    });
+
+    it("命中缓存的请求不占用费用上限", async () => {
+        const file = join(env.dir, "example2.ts");
+        const original = await readFile(file, "utf-8");
+        const provider = new CachedProvider(env.mock.provider("openai"), new ResponseCache(join(env.dir, "cache")));
+        await addCommentsToFile(file, { provider, backup: false, logger: silentLogger });
+        await writeFile(file, original, "utf-8");
+
+        // 上限小到任何一次真正的请求都会超出
+        const usage = new UsageTracker({ input: 1, output: 1 }, 1e-9);
+        const result = await addCommentsToFile(file, { provider, usage, backup: false, logger: silentLogger });
+
+        assert.equal(result.status, "written");
+        assert.equal(usage.total.cachedRequests, 1);
+        assert.equal(usage.stopped, false);
+        assert.equal(env.mock.requests.length, 1);
+    });
+
+    it("输出被截断时不写入", async () => {
+        const file = join(env.dir, "example.ts");
+        const original = await readFile(file, "utf-8");
+        env.mock.reply({ finishReason: "length" });
+
+        await assert.rejects(
+            addCommentsToFile(file, {
+                provider: env.mock.provider("dashscope"),
+                backupRun: new BackupRun(backupRoot()),
+                logger: silentLogger,
+            }),
+            { name: "TruncatedResponseError" }
+        );
+        assert.equal(await readFile(file, "utf-8"), original);
+    });
+});
+
+describe("addCommentsToFiles", () => {
+    it("按输入顺序返回结果，失败的文件不影响其他文件", async () => {
+        await writeFile(join(env.dir, "empty.ts"), "  \n", "utf-8");
+        const files = [join(env.dir, "example.ts"), join(env.dir, "empty.ts"), join(env.dir, "example2.ts")];
+        const run = new BackupRun(backupRoot());
+        const done: string[] = [];
+
+        const results = await addCommentsToFiles(files, {
+            provider: env.mock.provider("dashscope"),
+            backupRun: run,
+            concurrency: 2,
+            logger: silentLogger,
+            onFileDone: (result) => done.push(result.filePath),
+        });
+
+        assert.deepEqual(results.map((r) => r.filePath), files);
+        assert.deepEqual(results.map((r) => r.status), ["written", "failed", "written"]);
+        assert.equal(results[1].errorKind, "Error");
+        assert.deepEqual([...done].sort(), [...files].sort());
+
+        // 同一批文件的备份在同一次运行里
+        assert.equal(run.size, 2);
+        assert.equal((await new BackupStore(backupRoot()).list()).length, 1);
+    });
+
+    it("请求失败时记录错误类型", async () => {
+        env.mock.setHandler(() => ({ status: 401 }));
+        const onFileError: string[] = [];
+
+        const results = await addCommentsToFiles([join(env.dir, "example2.ts")], {
+            provider: env.mock.provider("openai"),
+            backupRun: new BackupRun(backupRoot()),
+            logger: silentLogger,
+            onFileError: (_, error) => onFileError.push(error.name),
+        });
+
+        assert.equal(results[0].status, "failed");
+        assert.equal(results[0].errorKind, "AuthError");
+        assert.deepEqual(onFileError, ["AuthError"]);
+    });
+    it("传入自己的 fs 时默认不在磁盘上创建备份", async () => {
+        const files = new Map([["memory/a.ts", await readFile(join("src", "example2.ts"), "utf-8")]]);
+        const fs: FileSystem = {
+            exists: async (path) => files.has(path),
+            readFile: async (path) => files.get(path) ?? "",
+            writeFile: async (path, content) => {
+                files.set(path, content);
+            },
+        };
+
+        const cwd = process.cwd();
+        process.chdir(env.dir);
+        try {
+            const results = await addCommentsToFiles(["memory/a.ts"], {
+                provider: env.mock.provider("openai"),
+                fs,
+                logger: silentLogger,
+            });
+            assert.equal(results[0].status, "written");
+        } finally {
+            process.chdir(cwd);
+        }
+
+        assert.equal(existsSync(join(env.dir, ".collie")), false);
+    });
+});
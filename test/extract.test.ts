@@ -0,0 +1,49 @@
+/**
+ * extractCodeFromResponse 的测试
+ *
+ * 模型返回的文本形状各不相同：带语言标记的代码块、不带语言的代码块、
+ * 代码块前后有说明文字、直接返回代码、输出被截断……
+ * 这里把已经遇到过的形状都固定下来，避免以后修改正则时回归
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractCodeFromResponse } from "../src/agent.js";
+import { TruncatedResponseError } from "../src/errors.js";
+
+describe("extractCodeFromResponse", () => {
+    it("提取指定语言的代码块", () => {
+        const content = "```typescript\nconst a = 1;\n```";
+        assert.equal(extractCodeFromResponse(content, "typescript"), "const a = 1;");
+    });
+
+    it("语言标记不区分大小写", () => {
+        const content = "```TypeScript\nconst a = 1;\n```";
+        assert.equal(extractCodeFromResponse(content, "typescript"), "const a = 1;");
+    });
+
+    it("忽略代码块前后的说明文字", () => {
+        const content = "下面是添加注释后的代码：\n\n```python\n# 说明\nx = 1\n```\n\n希望对你有帮助。";
+        assert.equal(extractCodeFromResponse(content, "python"), "# 说明\nx = 1");
+    });
+
+    it("语言不匹配时使用第一个代码块", () => {
+        const content = "```ts\nlet b = 2;\n```\n\n```ts\nlet c = 3;\n```";
+        assert.equal(extractCodeFromResponse(content, "typescript"), "let b = 2;");
+    });
+
+    it("没有代码块时原样返回，只去掉首尾空行", () => {
+        const content = "\n\nfunction f() {}\n\n";
+        assert.equal(extractCodeFromResponse(content, "javascript"), "function f() {}");
+    });
+
+    it("保留第一行的缩进", () => {
+        const content = "```typescript\n\n    // 说明\n    return x;\n```";
+        assert.equal(extractCodeFromResponse(content, "typescript"), "    // 说明\n    return x;");
+    });
+
+    it("代码块没有闭合时抛出 TruncatedResponseError", () => {
+        const content = "```typescript\nfunction f() {\n    return";
+        assert.throws(() => extractCodeFromResponse(content, "typescript"), TruncatedResponseError);
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * 代码保护校验的测试
+ *
+ * 只改动注释、空白和文档字符串时通过；改动代码（包括 Python 的缩进）时被拒绝
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { verifyCodePreserved } from "../src/guard.js";
+
+const PYTHON = `def total(items):
+    result = 0
+    for x in items:
+        result += x
+        log(x)
+    return result
+`;
+
+describe("verifyCodePreserved", () => {
+    it("Python 中添加注释和文档字符串不算改动", () => {
+        const result = `def total(items):
+    """计算总和"""
+    result = 0
+    # 逐个累加
+    for x in items:
+        result += x
+        log(x)
+    return result
+`;
+        assert.equal(verifyCodePreserved(PYTHON, result, "python").ok, true);
+    });
+
+    it("Python 中把一行移出循环体（取消缩进）被拒绝", () => {
+        const result = `def total(items):
+    """计算总和"""
+    result = 0
+    for x in items:
+        result += x
+    log(x)
+    return result
+`;
+        const report = verifyCodePreserved(PYTHON, result, "python");
+        assert.equal(report.ok, false);
+        assert.deepEqual(report.differences[0].added, ["<DEDENT>"]);
+    });
+
+    it("括号内和反斜杠续行的缩进不影响结果", () => {
+        const original = "x = f(1,\n      2)\ny = 1 + \\\n    2\n";
+        const result = "x = f(1,\n  2)\ny = 1 + \\\n        2\n";
+        assert.equal(verifyCodePreserved(original, result, "python").ok, true);
+    });
+
+    it("TypeScript 中改动运算符被拒绝", () => {
+        const report = verifyCodePreserved("const a = b + c;", "/** 和 */\nconst a = b - c;", "typescript", ".ts");
+        assert.equal(report.ok, false);
+        assert.deepEqual(report.differences[0], { originalLine: 1, resultLine: 2, removed: ["+"], added: ["-"] });
+    });
+});
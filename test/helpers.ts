@@ -0,0 +1,93 @@
+/**
+ * 测试共用的辅助函数和示例代码
+ *
+ * - useMockServer: 在整个测试文件中共用一个模拟服务，每个测试之前清空它的状态
+ * - useTestProject: 在此基础上，每个测试使用一个新的临时目录，测试结束后删除
+ * - silentLogger: 不输出任何内容的日志，避免测试输出被处理过程的日志淹没
+ * - SLUGIFY: 带文档注释的示例函数，用作被导入、被查找的模块
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach } from "node:test";
+import { Logger } from "../src/commenter.js";
+import { MockLLMServer } from "./mock-server.js";
+
+/**
+ * 使用模拟服务的测试上下文（在 before 钩子中才启动，所以不要在测试之外读取其中的字段）
+ */
+export interface MockContext {
+    mock: MockLLMServer;
+}
+
+/**
+ * 使用模拟服务和临时目录的测试上下文
+ */
+export interface TestProject extends MockContext {
+    dir: string;
+}
+
+/**
+ * 不输出任何内容的日志
+ */
+export const silentLogger: Logger = {
+    log: () => undefined,
+    error: () => undefined,
+};
+
+/**
+ * 带文档注释的示例函数
+ */
+export const SLUGIFY = `/**
+ * 把文本转换成 URL 中使用的短横线形式
+ */
+export function slugify(text: string): string {
+    return text.toLowerCase().replace(/\\s+/g, "-");
+}`;
+
+/**
+ * 注册启动、关闭和重置模拟服务的钩子
+ *
+ * 需要在测试文件的顶层调用
+ */
+export function useMockServer(): MockContext {
+    const context = {} as MockContext;
+
+    before(async () => {
+        context.mock = await MockLLMServer.start();
+    });
+
+    after(async () => {
+        await context.mock.close();
+    });
+
+    beforeEach(() => {
+        context.mock.reset();
+    });
+
+    return context;
+}
+
+/**
+ * 注册模拟服务和临时目录的钩子
+ *
+ * 需要在测试文件的顶层调用
+ *
+ * @param prefix - 临时目录名的前缀
+ * @param setup - 每个测试之前在临时目录中准备文件
+ */
+export function useTestProject(prefix: string, setup?: (dir: string) => Promise<void>): TestProject {
+    const context = useMockServer() as TestProject;
+
+    beforeEach(async () => {
+        context.dir = await mkdtemp(join(tmpdir(), prefix));
+        await setup?.(context.dir);
+    });
+
+    afterEach(async () => {
+        await rm(context.dir, { recursive: true, force: true });
+    });
+
+    return context;
+}
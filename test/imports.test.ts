@@ -0,0 +1,137 @@
+/**
+ * 导入上下文的测试
+ *
+ * 在临时目录中建一个小项目，检查相对路径导入的解析、签名的提取和 token 上限，
+ * 再通过模拟服务检查这些声明出现在提示词中
+ */
+
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { addCommentsToFile } from "../src/commenter.js";
+import { collectImports } from "../src/imports.js";
+import { silentLogger, SLUGIFY, useTestProject } from "./helpers.js";
+
+const MAIN = `import { slugify, Counter } from "./utils/text.js";
+import * as config from "./config.js";
+import type { Options } from "./types";
+import "./polyfill.js";
+import { readFile } from "fs/promises";
+import { missing } from "./missing.js";
+
+export function title(name: string, options: Options): string {
+    return slugify(name) + config.SEPARATOR;
+}`;
+
+const TEXT = `${SLUGIFY}
+
+/**
+ * 没有被导入的函数
+ */
+export function unused(): void {}
+
+/**
+ * 计数器
+ */
+export class Counter {
+    /** 当前的值 */
+    count = 0;
+    private step = 1;
+
+    /**
+     * 加一，返回新的值
+     */
+    increment(): number {
+        this.count += this.step;
+        return this.count;
+    }
+}`;
+
+const CONFIG = `export const SEPARATOR = "-";
+export const DEFAULTS: Record<string, number> = { a: 1 };
+export const LONG = ${JSON.stringify("x".repeat(100))};
+export const double = (n: number) => {
+    return n * 2;
+};
+function local(): number {
+    return 1;
+}
+export { local as renamed };`;
+
+const TYPES = `export interface Options {
+    /** 是否转成小写 */
+    lower: boolean;
+}`;
+
+const env = useTestProject("collie-imports-", async (dir) => {
+    await mkdir(join(dir, "src", "utils"), { recursive: true });
+    await writeFile(join(dir, "src", "main.ts"), MAIN, "utf-8");
+    await writeFile(join(dir, "src", "utils", "text.ts"), TEXT, "utf-8");
+    await writeFile(join(dir, "src", "config.ts"), CONFIG, "utf-8");
+    await writeFile(join(dir, "src", "types.ts"), TYPES, "utf-8");
+    await writeFile(join(dir, "src", "polyfill.ts"), "export const installed = true;", "utf-8");
+});
+
+describe("collectImports", () => {
+    it("解析相对路径的导入，只取出导入的声明", async () => {
+        const modules = await collectImports(MAIN, join(env.dir, "src", "main.ts"), 1500);
+        assert.deepEqual(modules.map((m) => m.specifier), ["./utils/text.js", "./config.js", "./types"]);
+        assert.equal(modules[0].path.replace(/\\/g, "/"), join(env.dir, "src", "utils", "text.ts").replace(/\\/g, "/"));
+
+        const [slugify, counter] = modules[0].declarations;
+        assert.equal(modules[0].declarations.length, 2);
+        assert.equal(slugify, "/**\n * 把文本转换成 URL 中使用的短横线形式\n */\nexport function slugify(text: string): string;");
+        assert.ok(counter.includes("    /** 当前的值 */\n    count;"));
+        assert.ok(counter.includes("    increment(): number;"));
+        assert.ok(!counter.includes("step"));
+        assert.ok(!counter.includes("this.count"));
+    });
+
+    it("整个模块导入时取出所有导出的声明，变量的值和函数体被省略", async () => {
+        const [, config, types] = await collectImports(MAIN, join(env.dir, "src", "main.ts"), 1500);
+        assert.deepEqual(config.declarations, [
+            `export const SEPARATOR = "-";`,
+            "export const DEFAULTS: Record<string, number>;",
+            "export const LONG = …;",
+            "export const double = (n: number) => …;",
+            "function local(): number;",
+        ]);
+        assert.ok(types.declarations[0].includes("/** 是否转成小写 */"));
+    });
+
+    it("超出 token 上限的声明被省略", async () => {
+        const modules = await collectImports(MAIN, join(env.dir, "src", "main.ts"), 40);
+        assert.equal(modules[0].declarations.length, 1);
+        assert.equal(modules[0].omitted, 1);
+        assert.ok(modules.slice(1).every((m) => m.declarations.length === 0 && m.omitted > 0));
+    });
+});
+
+describe("导入上下文", () => {
+    it("设置 importTokens 时提示词中附带被导入的声明", async () => {
+        const file = join(env.dir, "src", "main.ts");
+        const result = await addCommentsToFile(file, {
+            provider: env.mock.provider("openai"),
+            importTokens: 1500,
+            backup: false,
+            logger: silentLogger,
+        });
+
+        assert.equal(result.status, "written");
+        const { prompt, code } = env.mock.requests[0];
+        assert.ok(prompt.includes(`"./utils/text.js":`));
+        assert.ok(prompt.includes("export function slugify(text: string): string;"));
+        assert.ok(prompt.indexOf("被导入的模块") < prompt.indexOf("代码："));
+        assert.equal(code, MAIN);
+    });
+
+    it("默认不附带", async () => {
+        await addCommentsToFile(join(env.dir, "src", "main.ts"), {
+            provider: env.mock.provider("openai"),
+            backup: false,
+            logger: silentLogger,
+        });
+        assert.ok(!env.mock.requests[0].prompt.includes("被导入的模块"));
+    });
+});
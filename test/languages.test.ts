@@ -0,0 +1,83 @@
+/**
+ * 语言识别的测试
+ *
+ * 按文件名、扩展名、内容特征和 shebang 识别语言，以及用 registerLanguage 添加或修改语言
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectLanguage, findLanguage, languageNames, parseShebang, registerLanguage } from "../src/languages.js";
+
+describe("detectLanguage", () => {
+    it("按扩展名识别", () => {
+        assert.equal(detectLanguage("src/a.ts"), "typescript");
+        assert.equal(detectLanguage("lib/b.MJS"), "javascript");
+        assert.equal(detectLanguage("App.vue"), "vue");
+        assert.equal(detectLanguage("run.sh"), "shell");
+    });
+
+    it("按特殊文件名识别", () => {
+        assert.equal(detectLanguage("project/Gemfile"), "ruby");
+        assert.equal(detectLanguage("/home/u/.bashrc"), "shell");
+    });
+
+    it("没有扩展名的脚本按 shebang 识别", () => {
+        assert.equal(detectLanguage("bin/tool", "#!/usr/bin/env python3\nprint(1)\n"), "python");
+        assert.equal(detectLanguage("bin/serve", "#!/usr/bin/env -S node --no-warnings\n"), "javascript");
+        assert.equal(detectLanguage("bin/setup", "#!/bin/bash\nset -e\n"), "shell");
+    });
+
+    it(".h 按内容选择 C 或 C++", () => {
+        assert.equal(detectLanguage("a.h"), "c");
+        assert.equal(detectLanguage("a.h", "int add(int a, int b);\n"), "c");
+        assert.equal(detectLanguage("a.h", "#include <vector>\nclass A {\npublic:\n    std::vector<int> v;\n};\n"), "cpp");
+    });
+
+    it("无法识别时为 text", () => {
+        assert.equal(detectLanguage("notes.txt"), "text");
+        assert.equal(detectLanguage("LICENSE", "MIT License\n"), "text");
+        assert.equal(detectLanguage("bin/tool", "#!/usr/bin/env unknown-interpreter\n"), "text");
+    });
+});
+
+describe("parseShebang", () => {
+    it("取出解释器名称", () => {
+        assert.equal(parseShebang("#!/bin/sh\n"), "sh");
+        assert.equal(parseShebang("#! /usr/bin/python3.11\n"), "python3.11");
+        assert.equal(parseShebang("#!/usr/bin/env LANG=C ruby -w\n"), "ruby");
+    });
+
+    it("第一行不是 shebang 时返回 undefined", () => {
+        assert.equal(parseShebang("// #!/bin/sh\n"), undefined);
+        assert.equal(parseShebang("#!/usr/bin/env\n"), undefined);
+    });
+});
+
+describe("registerLanguage", () => {
+    it("添加新语言", () => {
+        registerLanguage({
+            name: "lua",
+            extensions: [".lua"],
+            shebangs: ["lua[0-9.]*"],
+            lineComments: ["--"],
+            blockComments: [["--[[", "]]"]],
+        });
+        assert.equal(detectLanguage("init.lua"), "lua");
+        assert.equal(detectLanguage("script", "#!/usr/bin/env lua5.4\n"), "lua");
+        assert.ok(languageNames().includes("lua"));
+    });
+
+    it("只覆盖给出的字段", () => {
+        registerLanguage({ name: "go", docStyle: "jsdoc" });
+        const go = findLanguage("go");
+        assert.equal(go?.docStyle, "jsdoc");
+        assert.deepEqual(go?.extensions, [".go"]);
+        registerLanguage({ name: "go", docStyle: "godoc" });
+    });
+
+    it("添加的语言优先于内置语言", () => {
+        registerLanguage({ name: "objc", extensions: [".h", ".m"] });
+        assert.equal(detectLanguage("a.h"), "objc");
+        assert.equal(detectLanguage("a.m"), "objc");
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * 本地模拟 LLM 服务
+ *
+ * 测试不能依赖真实的 API Key 和网络，所以这里用 node:http 起一个本地服务，
+ * 按 DashScope 和 OpenAI 兼容接口的格式返回响应：
+ * - DashScope: POST /services/aigc/text-generation/generation（请求头 X-DashScope-SSE: enable 时返回 SSE）
+ * - OpenAI 兼容: POST /chat/completions（请求体 stream: true 时返回 SSE）
+ *
+ * 默认把提示词里的代码原样返回，并在每个函数和类的上方加一行文档注释，
+ * 所以代码保护校验能够通过。通过 reply() / setHandler() 可以模拟：
+ * - 错误状态码（401、429、500 ……）和 Retry-After
+ * - 慢响应（delayMs）、中途断开的流式响应（cutAfter）
+ * - 被截断的输出（finishReason: "length"，或没有闭合的代码块）
+ * - 奇怪的响应结构（DashScope 旧版 output.text、不是 JSON 的响应体等）
+ * - 请求调用工具（toolCalls）
+ *
+ * 也可以单独运行，让 CLI 指向它（见 README 的"测试"一节）：
+ *
+ *   npm run mock
+ *   COLLIE_BASE_URL=http://localhost:18080 DASHSCOPE_API_KEY=test npm run dev comment src/example.ts
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { createProvider, LLMProvider, ProviderConfig } from "../src/providers.js";
+
+/**
+ * 模拟的接口格式
+ */
+export type MockFormat = "dashscope" | "openai";
+
+/**
+ * 收到的一次请求
+ *
+ * - format: 按请求路径判断的接口格式
+ * - body: 解析后的请求体
+ * - prompt: 最后一条用户消息的内容
+ * - code: 用户消息中最后一个代码块里的代码（没有代码块时为空字符串）
+ * - stream: 是否请求了流式响应
+ * - tools: 请求中提供的工具名称
+ */
+export interface MockRequest {
+    format: MockFormat;
+    body: any;
+    prompt: string;
+    code: string;
+    stream: boolean;
+    tools: string[];
+}
+
+/**
+ * 一次响应的内容
+ *
+ * - status: HTTP 状态码，非 2xx 时把 error 作为响应体返回（默认 200）
+ * - headers: 额外的响应头（如 Retry-After）
+ * - error: 错误响应体（默认 "mock error"）
+ * - raw: 原样返回的响应体，不再按接口格式包装（用于模拟不是 JSON 或缺少字段的响应）
+ * - content: 模型输出；不设置时按提示词中的代码生成（见 addDocComments）
+ * - finishReason: 结束原因（默认 "stop"，"length" 表示被 max_tokens 截断）
+ * - legacyText: DashScope 旧版格式，输出放在 output.text 而不是 choices 中
+ * - usage: token 用量，null 表示不返回 usage（默认按文本长度估算）
+ * - delayMs: 等待多久之后才开始响应
+ * - cutAfter: 流式响应发送多少个事件之后直接断开连接
+ * - toolCalls: 请求调用这些工具（arguments 为参数对象），这时 content 为空
+ */
+export interface MockReply {
+    status?: number;
+    headers?: Record<string, string>;
+    error?: string;
+    raw?: string;
+    content?: string;
+    finishReason?: string;
+    legacyText?: boolean;
+    usage?: { input: number; output: number } | null;
+    delayMs?: number;
+    cutAfter?: number;
+    toolCalls?: Array<{ name: string; arguments: unknown }>;
+}
+
+/**
+ * 根据请求决定响应的函数
+ */
+export type MockHandler = (request: MockRequest) => MockReply;
+
+/**
+ * 流式响应每个事件包含的字符数
+ */
+const STREAM_PIECE = 16;
+
+/**
+ * 在每个函数和类的声明上方加一行文档注释（保留缩进）
+ *
+ * 只加注释、不改代码，模拟一个"听话"的模型
+ */
+export function addDocComments(code: string): string {
+    return code
+        .split("\n")
+        .map((line) => {
+            const match = line.match(/^(\s*)(export\s+)?(async\s+)?(function|class)\s/);
+            return match ? `${match[1]}/** 模拟生成的注释 */\n${line}` : line;
+        })
+        .join("\n");
+}
+
+/**
+ * 默认的响应：把代码加上注释后放进 markdown 代码块
+ */
+export const defaultHandler: MockHandler = (request) => ({
+    content: "```\n" + addDocComments(request.code) + "\n```",
+});
+
+/**
+ * 模拟 LLM 服务
+ */
+export class MockLLMServer {
+    /**
+     * 收到的所有请求（按顺序）
+     */
+    readonly requests: MockRequest[] = [];
+
+    private readonly queue: MockReply[] = [];
+    private handler: MockHandler = defaultHandler;
+    private readonly timers = new Set<NodeJS.Timeout>();
+
+    private constructor(
+        private readonly server: Server,
+        readonly url: string
+    ) {}
+
+    /**
+     * 启动服务
+     *
+     * @param port - 端口号，默认 0（由系统分配空闲端口，测试之间互不干扰）
+     */
+    static async start(port = 0): Promise<MockLLMServer> {
+        let mock: MockLLMServer | undefined;
+        const server = createServer((req, res) => {
+            mock!.handle(req, res).catch((error) => {
+                res.statusCode = 500;
+                res.end(String(error));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+        const address = server.address() as AddressInfo;
+        mock = new MockLLMServer(server, `http://127.0.0.1:${address.port}`);
+        return mock;
+    }
+
+    /**
+     * 依次使用这些响应；用完之后回到 handler
+     */
+    reply(...replies: MockReply[]): this {
+        this.queue.push(...replies);
+        return this;
+    }
+
+    /**
+     * 设置队列为空时使用的响应函数
+     */
+    setHandler(handler: MockHandler): this {
+        this.handler = handler;
+        return this;
+    }
+
+    /**
+     * 清空请求记录和响应队列，恢复默认的响应函数
+     */
+    reset(): void {
+        this.requests.length = 0;
+        this.queue.length = 0;
+        this.handler = defaultHandler;
+    }
+
+    /**
+     * 创建一个指向这个服务的 Provider
+     *
+     * @param format - 接口格式
+     * @param config - 其他 Provider 配置（如 timeoutMs）
+     */
+    provider(format: MockFormat, config: ProviderConfig = {}): LLMProvider {
+        return createProvider({ provider: format, baseUrl: this.url, apiKey: "test-key", ...config });
+    }
+
+    /**
+     * 关闭服务，断开所有连接（包括还在等待 delayMs 的请求）
+     */
+    async close(): Promise<void> {
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        let text = "";
+        for await (const chunk of req) {
+            text += chunk;
+        }
+
+        const format: MockFormat | undefined = req.url?.endsWith("/services/aigc/text-generation/generation")
+            ? "dashscope"
+            : req.url?.endsWith("/chat/completions")
+                ? "openai"
+                : undefined;
+        if (!format || req.method !== "POST") {
+            res.statusCode = 404;
+            res.end("not found");
+            return;
+        }
+
+        const body = JSON.parse(text || "{}");
+        const messages: { role: string; content: string }[] = body.input?.messages ?? body.messages ?? [];
+        const userMessages = messages.filter((message) => message.role === "user");
+        const prompt = userMessages[userMessages.length - 1]?.content ?? "";
+        const blocks = userMessages.flatMap((message) => [...message.content.matchAll(/```\w*\n([\s\S]*?)\n```/g)]);
+        const tools: { function: { name: string } }[] = body.parameters?.tools ?? body.tools ?? [];
+        const request: MockRequest = {
+            format,
+            body,
+            prompt,
+            code: blocks.length > 0 ? blocks[blocks.length - 1][1] : "",
+            stream: format === "dashscope" ? req.headers["x-dashscope-sse"] === "enable" : body.stream === true,
+            tools: tools.map((tool) => tool.function.name),
+        };
+        this.requests.push(request);
+
+        const reply = this.queue.shift() ?? this.handler(request);
+        if (reply.delayMs) {
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(() => {
+                    this.timers.delete(timer);
+                    resolve();
+                }, reply.delayMs);
+                this.timers.add(timer);
+            });
+        }
+
+        for (const [name, value] of Object.entries(reply.headers ?? {})) {
+            res.setHeader(name, value);
+        }
+
+        const status = reply.status ?? 200;
+        if (status < 200 || status >= 300) {
+            res.statusCode = status;
+            res.end(reply.error ?? "mock error");
+            return;
+        }
+        if (reply.raw !== undefined) {
+            res.setHeader("Content-Type", "application/json");
+            res.end(reply.raw);
+            return;
+        }
+
+        const toolCalls = reply.toolCalls?.map((call, i) => ({
+            id: `call_${this.requests.length}_${i}`,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        }));
+        const content = toolCalls ? "" : reply.content ?? defaultHandler(request).content!;
+        const finishReason = reply.finishReason ?? (toolCalls ? "tool_calls" : "stop");
+        const usage = reply.usage === undefined
+            ? { input: Math.ceil(prompt.length / 4), output: Math.ceil(content.length / 4) }
+            : reply.usage;
+
+        if (request.stream) {
+            this.stream(res, format, content, finishReason, usage, reply);
+            return;
+        }
+
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(
+            format === "dashscope"
+                ? dashscopeBody(content, finishReason, usage, reply.legacyText, toolCalls)
+                : openaiBody(content, finishReason, usage, toolCalls)
+        ));
+    }
+
+    /**
+     * 按 SSE 格式分段发送响应
+     */
+    private stream(
+        res: ServerResponse,
+        format: MockFormat,
+        content: string,
+        finishReason: string,
+        usage: MockReply["usage"],
+        reply: MockReply
+    ): void {
+        res.setHeader("Content-Type", "text/event-stream");
+        const pieces = content.match(new RegExp(`[\\s\\S]{1,${STREAM_PIECE}}`, "g")) ?? [];
+
+        const events: unknown[] = format === "dashscope"
+            ? pieces.map((piece, i) =>
+                dashscopeBody(piece, i === pieces.length - 1 ? finishReason : "null", usage, reply.legacyText)
+            )
+            : [
+                ...pieces.map((piece) => ({ choices: [{ delta: { content: piece }, finish_reason: null }] })),
+                { choices: [{ delta: {}, finish_reason: finishReason }] },
+                ...(usage ? [{ choices: [], usage: { prompt_tokens: usage.input, completion_tokens: usage.output } }] : []),
+            ];
+
+        events.forEach((event, i) => {
+            if (reply.cutAfter !== undefined && i >= reply.cutAfter) return;
+            res.write(`data: ${JSON.stringify(event)}\n\n`);
+        });
+        if (reply.cutAfter !== undefined) {
+            // 稍等再断开，让已经写出的事件先到达客户端
+            setTimeout(() => res.destroy(), 50);
+            return;
+        }
+        res.end(format === "openai" ? "data: [DONE]\n\n" : undefined);
+    }
+}
+
+/**
+ * DashScope 原生接口的响应体
+ */
+function dashscopeBody(
+    content: string,
+    finishReason: string,
+    usage: MockReply["usage"],
+    legacyText = false,
+    toolCalls?: unknown[]
+): unknown {
+    return {
+        output: legacyText
+            ? { text: content, finish_reason: finishReason }
+            : {
+                choices: [{
+                    message: { role: "assistant", content, ...(toolCalls ? { tool_calls: toolCalls } : {}) },
+                    finish_reason: finishReason,
+                }],
+            },
+        ...(usage ? { usage: { input_tokens: usage.input, output_tokens: usage.output } } : {}),
+        request_id: "mock",
+    };
+}
+
+/**
+ * OpenAI 兼容接口的响应体
+ */
+function openaiBody(content: string, finishReason: string, usage: MockReply["usage"], toolCalls?: unknown[]): unknown {
+    // 只调用工具时 OpenAI 返回的 content 是 null
+    const message = toolCalls
+        ? { role: "assistant", content: null, tool_calls: toolCalls }
+        : { role: "assistant", content };
+    return {
+        id: "mock",
+        object: "chat.completion",
+        choices: [{ index: 0, message, finish_reason: finishReason }],
+        ...(usage ? { usage: { prompt_tokens: usage.input, completion_tokens: usage.output } } : {}),
+    };
+}
+
+/**
+ * 直接运行时启动服务（npm run mock）
+ *
+ * - PORT: 端口号（默认 18080）
+ * - MOCK_REPLY: JSON 格式的 MockReply，每个请求都使用它（例如 '{"status":429}'）
+ */
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const mock = await MockLLMServer.start(Number(process.env.PORT || 18080));
+    if (process.env.MOCK_REPLY) {
+        const reply: MockReply = JSON.parse(process.env.MOCK_REPLY);
+        mock.setHandler(() => reply);
+    }
+    console.log(`模拟 LLM 服务已启动: ${mock.url}`);
+    console.log(`使用方法: COLLIE_BASE_URL=${mock.url} DASHSCOPE_API_KEY=test npm run dev comment src/example.ts`);
+}
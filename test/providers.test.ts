@@ -0,0 +1,190 @@
+/**
+ * Provider 的测试
+ *
+ * 让 DashScope 和 OpenAI 兼容的 Provider 指向本地模拟服务，
+ * 检查各种响应形状、错误状态码、慢响应和截断是否被正确识别
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { generateComments } from "../src/agent.js";
+import { CachedProvider, ResponseCache } from "../src/cache.js";
+import {
+    ApiError,
+    AuthError,
+    MalformedResponseError,
+    NetworkError,
+    QuotaError,
+    RateLimitError,
+    TimeoutError,
+    TruncatedResponseError,
+} from "../src/errors.js";
+import { ChatRequest } from "../src/providers.js";
+import { RetryingProvider } from "../src/retry.js";
+import { useMockServer } from "./helpers.js";
+import { MockFormat } from "./mock-server.js";
+
+const request: ChatRequest = {
+    messages: [{ role: "user", content: "请为以下代码添加注释：\n```typescript\nfunction f() {}\n```" }],
+    maxTokens: 100,
+};
+
+const env = useMockServer();
+
+for (const format of ["dashscope", "openai"] as MockFormat[]) {
+    describe(`${format} Provider`, () => {
+        it("读取内容、结束原因和用量", async () => {
+            env.mock.reply({ content: "hello", usage: { input: 12, output: 34 } });
+            const response = await env.mock.provider(format).complete(request);
+
+            assert.equal(response.content, "hello");
+            assert.equal(response.finishReason, "stop");
+            assert.deepEqual(response.usage, { inputTokens: 12, outputTokens: 34 });
+            assert.equal(env.mock.requests[0].format, format);
+        });
+
+        it("没有 usage 时返回 undefined", async () => {
+            env.mock.reply({ content: "hello", usage: null });
+            const response = await env.mock.provider(format).complete(request);
+            assert.equal(response.usage, undefined);
+        });
+
+        it("流式响应逐段回调，拼接后与完整内容一致", async () => {
+            const content = "```typescript\n/** 说明 */\nfunction f() {}\n```";
+            env.mock.reply({ content, usage: { input: 5, output: 6 } });
+            const deltas: string[] = [];
+            const response = await env.mock.provider(format).complete({ ...request, onDelta: (d) => deltas.push(d) });
+
+            assert.ok(env.mock.requests[0].stream);
+            assert.ok(deltas.length > 1);
+            assert.equal(deltas.join(""), content);
+            assert.equal(response.content, content);
+            assert.equal(response.finishReason, "stop");
+            assert.deepEqual(response.usage, { inputTokens: 5, outputTokens: 6 });
+        });
+
+        it("流式响应中途断开时抛出 NetworkError", async () => {
+            env.mock.reply({ content: "x".repeat(100), cutAfter: 2 });
+            await assert.rejects(
+                env.mock.provider(format).complete({ ...request, onDelta: () => undefined }),
+                NetworkError
+            );
+        });
+
+        it("401 抛出 AuthError", async () => {
+            env.mock.reply({ status: 401, error: "invalid api key" });
+            await assert.rejects(env.mock.provider(format).complete(request), AuthError);
+        });
+
+        it("429 抛出 RateLimitError，并读取 Retry-After", async () => {
+            env.mock.reply({ status: 429, headers: { "Retry-After": "2" } });
+            const error = await env.mock.provider(format).complete(request).catch((e) => e);
+            assert.ok(error instanceof RateLimitError);
+            assert.equal(error.retryAfterMs, 2000);
+        });
+
+        it("额度耗尽抛出 QuotaError", async () => {
+            env.mock.reply({ status: 429, error: '{"error":{"code":"insufficient_quota"}}' });
+            await assert.rejects(env.mock.provider(format).complete(request), QuotaError);
+        });
+
+        it("5xx 抛出 ApiError 并带上状态码", async () => {
+            env.mock.reply({ status: 503 });
+            const error = await env.mock.provider(format).complete(request).catch((e) => e);
+            assert.ok(error instanceof ApiError);
+            assert.equal(error.status, 503);
+        });
+
+        it("响应体不是 JSON 时抛出 MalformedResponseError", async () => {
+            env.mock.reply({ raw: "<html>Bad Gateway</html>" });
+            await assert.rejects(env.mock.provider(format).complete(request), MalformedResponseError);
+        });
+
+        it("缺少输出字段时抛出 MalformedResponseError", async () => {
+            env.mock.reply({ raw: JSON.stringify({ result: "ok" }) });
+            await assert.rejects(env.mock.provider(format).complete(request), MalformedResponseError);
+        });
+
+        it("超过 timeoutMs 时抛出 TimeoutError", async () => {
+            env.mock.reply({ delayMs: 2000 });
+            await assert.rejects(env.mock.provider(format, { timeoutMs: 100 }).complete(request), TimeoutError);
+        });
+    });
+}
+
+describe("流式输出的重试和缓存", () => {
+    it("流式响应中途断开后重试，重试前通知之前的输出作废", async () => {
+        env.mock.reply({ content: "x".repeat(100), cutAfter: 2 }, { content: "hello" });
+        const provider = new RetryingProvider(env.mock.provider("openai"), { retries: 1, baseDelayMs: 0 });
+        const deltas: string[] = [];
+        const resets: string[] = [];
+
+        const response = await provider.complete({
+            ...request,
+            onDelta: (d) => deltas.push(d),
+            onDeltaReset: (discarded) => {
+                assert.equal(discarded, deltas.join(""));
+                resets.push(discarded);
+                deltas.length = 0;
+            },
+        });
+
+        assert.equal(resets.length, 1);
+        assert.ok(resets[0].length > 0);
+        assert.equal(deltas.join(""), "hello");
+        assert.equal(response.content, "hello");
+    });
+
+    it("命中缓存时把内容一次性交给 onDelta", async () => {
+        const dir = await mkdtemp(join(tmpdir(), "collie-cache-"));
+        try {
+            const provider = new CachedProvider(env.mock.provider("openai"), new ResponseCache(dir));
+            env.mock.reply({ content: "hello" });
+            await (await provider.complete(request)).commit?.();
+
+            const deltas: string[] = [];
+            const response = await provider.complete({ ...request, onDelta: (d) => deltas.push(d) });
+            assert.equal(response.cached, true);
+            assert.deepEqual(deltas, ["hello"]);
+            assert.equal(env.mock.requests.length, 1);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("DashScope 旧版格式", () => {
+    it("兼容 output.text", async () => {
+        env.mock.reply({ content: "legacy", legacyText: true });
+        const response = await env.mock.provider("dashscope").complete(request);
+        assert.equal(response.content, "legacy");
+        assert.equal(response.finishReason, "stop");
+    });
+});
+
+describe("generateComments", () => {
+    it("从代码块中提取带注释的代码", async () => {
+        const code = "function f() {\n    return 1;\n}";
+        const result = await generateComments(code, ".ts", { provider: env.mock.provider("dashscope") });
+        assert.equal(result, "/** 模拟生成的注释 */\n" + code);
+    });
+
+    it("finish_reason 为 length 时抛出 TruncatedResponseError", async () => {
+        env.mock.reply({ finishReason: "length" });
+        await assert.rejects(
+            generateComments("function f() {}", ".ts", { provider: env.mock.provider("openai") }),
+            TruncatedResponseError
+        );
+    });
+
+    it("代码块没有闭合时抛出 TruncatedResponseError", async () => {
+        env.mock.reply({ content: "```typescript\nfunction f() {" });
+        await assert.rejects(
+            generateComments("function f() {}", ".ts", { provider: env.mock.provider("openai") }),
+            TruncatedResponseError
+        );
+    });
+});
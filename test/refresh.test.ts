@@ -0,0 +1,23 @@
+/**
+ * refresh 的测试
+ *
+ * 检查过时文档注释的识别范围：替换时只能覆盖注释所在的行，不能带上同一行的代码
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findStaleDocs } from "../src/refresh.js";
+
+describe("findStaleDocs", () => {
+    it("找出参数名与签名不一致的注释，范围是注释所在的整行", () => {
+        const code = "/**\n * @param x - 数值\n */\nexport function f(y: number) {\n    return y;\n}\n";
+        const [item] = findStaleDocs(code, ".ts");
+        assert.equal(item.start, 0);
+        assert.equal(code.slice(item.start, item.end), "/**\n * @param x - 数值\n */\n");
+    });
+
+    it("和代码写在同一行的注释不处理", () => {
+        assert.deepEqual(findStaleDocs("/** @param x */ export function f(y: number) {\n    return y;\n}\n", ".ts"), []);
+        assert.deepEqual(findStaleDocs("const a = 1; /** @param x */\nexport function f(y: number) {}\n", ".ts"), []);
+    });
+});
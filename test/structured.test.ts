@@ -0,0 +1,48 @@
+/**
+ * 结构化模式的测试
+ *
+ * 模型只返回 { id: 注释正文 }，由程序把注释插到各自声明的上方
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateStructuredComments, StructuredOptions } from "../src/structured.js";
+import { useMockServer } from "./helpers.js";
+
+const env = useMockServer();
+
+/**
+ * 生成结构化注释所需的参数
+ */
+function options(): StructuredOptions {
+    return {
+        provider: env.mock.provider("openai"),
+        language: "TypeScript",
+        temperature: 0,
+        maxTokens: 1000,
+        commentLanguage: "中文",
+        scope: "all",
+    };
+}
+
+describe("generateStructuredComments", () => {
+    it("把注释插到各自声明的上方", async () => {
+        const code = "export class A {\n    foo(): number {\n        return 1;\n    }\n}\n";
+        env.mock.reply({ content: JSON.stringify({ "A": "类 A", "A.foo": "返回 1" }) });
+
+        const result = await generateStructuredComments(code, ".ts", options());
+        assert.equal(
+            result,
+            "/** 类 A */\nexport class A {\n    /** 返回 1 */\n    foo(): number {\n        return 1;\n    }\n}\n"
+        );
+    });
+
+    it("写在同一行的类成员不列给模型，注释不会插到类的上方", async () => {
+        const code = "export class A { foo(): number { return 1; } }\n";
+        env.mock.reply({ content: JSON.stringify({ "A": "类 A", "A.foo": "返回 1" }) });
+
+        const result = await generateStructuredComments(code, ".ts", options());
+        assert.equal(result, "/** 类 A */\n" + code);
+        assert.ok(!env.mock.requests[0].prompt.includes("A.foo"));
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * 语法检查的测试
+ *
+ * 只有加注释之后新出现的语法错误才算失败，原始代码本来就有的错误不影响
+ */
+
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { describe, it } from "node:test";
+import { checkSyntax, registerSyntaxChecker } from "../src/syntax.js";
+
+/**
+ * 本地有没有 python3（没有时跳过 Python 的测试）
+ */
+function hasPython(): boolean {
+    try {
+        execFileSync("python3", ["--version"], { stdio: "ignore" });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+describe("checkSyntax", () => {
+    it("注释正确时没有新的错误", async () => {
+        const report = await checkSyntax(
+            "function f() {}",
+            "/** 说明 */\nfunction f() {}",
+            "typescript",
+            ".ts"
+        );
+        assert.deepEqual(report, { skipped: false, introduced: [] });
+    });
+
+    it("没有闭合的块注释是新的错误", async () => {
+        const report = await checkSyntax(
+            "function f() {}\nfunction g() {}",
+            "/* 说明\nfunction f() {}\nfunction g() {}",
+            "typescript",
+            ".ts"
+        );
+        assert.equal(report.skipped, false);
+        assert.equal(report.introduced.length, 1);
+        assert.equal(report.introduced[0].message, "'*/' expected.");
+    });
+
+    it("原始代码本来就有的错误不算", async () => {
+        const report = await checkSyntax(
+            "function f( {}",
+            "// 说明\nfunction f( {}",
+            "javascript",
+            ".js"
+        );
+        assert.deepEqual(report.introduced, []);
+    });
+
+    it("按扩展名解析 JSX", async () => {
+        const original = "const a = <div>{x}</div>;";
+        const report = await checkSyntax(original, `// 元素\n${original}`, "javascript", ".jsx");
+        assert.deepEqual(report, { skipped: false, introduced: [] });
+    });
+
+    it("放错位置的 Python docstring 是新的错误", { skip: !hasPython() }, async () => {
+        const report = await checkSyntax(
+            "def f():\n    return 1\n",
+            "def f():\n\"\"\"说明\"\"\"\n    return 1\n",
+            "python",
+            ".py"
+        );
+        assert.equal(report.skipped, false);
+        assert.equal(report.introduced.length, 1);
+    });
+
+    it("没有检查器的语言跳过检查", async () => {
+        const report = await checkSyntax("x", "y", "cobol", ".cbl");
+        assert.deepEqual(report, { skipped: true, introduced: [] });
+    });
+
+    it("可以注册其他语言的检查器", async () => {
+        registerSyntaxChecker("ini", async (code) =>
+            code.includes("[") && !code.includes("]")
+                ? [{ line: 1, column: 1, message: "unclosed section" }]
+                : []
+        );
+        const report = await checkSyntax("[a]\nx=1", "; 说明\n[a\nx=1", "ini", ".ini");
+        assert.deepEqual(report.introduced.map((d) => d.message), ["unclosed section"]);
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * 只读工具和工具调用循环的测试
+ *
+ * 在临时目录中建一个小项目，检查工具的输出和路径限制，
+ * 再让模拟服务请求调用工具，检查循环、轮数上限和 token 上限
+ */
+
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { addCommentsToFile } from "../src/commenter.js";
+import { TOOLS_EXHAUSTED_PROMPT } from "../src/prompts.js";
+import { ToolCall } from "../src/providers.js";
+import { ProjectTools } from "../src/tools.js";
+import { UsageTracker } from "../src/usage.js";
+import { silentLogger, SLUGIFY, useTestProject } from "./helpers.js";
+
+const MAIN = `import { slugify } from "./utils/text.js";
+
+export function title(name: string): string {
+    return slugify(name);
+}`;
+
+const env = useTestProject("collie-tools-", async (dir) => {
+    await mkdir(join(dir, "src", "utils"), { recursive: true });
+    await writeFile(join(dir, "package.json"), `{ "name": "demo", "type": "module" }`, "utf-8");
+    await writeFile(join(dir, "src", "main.ts"), MAIN, "utf-8");
+    await writeFile(join(dir, "src", "utils", "text.ts"), SLUGIFY, "utf-8");
+    await writeFile(join(dir, ".env"), "API_KEY=secret", "utf-8");
+});
+
+// 项目之外的目录，用来检查工具不能访问项目之外的文件
+let outside: string;
+
+beforeEach(async () => {
+    outside = await mkdtemp(join(tmpdir(), "collie-outside-"));
+    await writeFile(join(outside, "secret.txt"), "secret", "utf-8");
+});
+
+afterEach(async () => {
+    await rm(outside, { recursive: true, force: true });
+});
+
+/**
+ * 调用一次工具
+ */
+function run(tools: ProjectTools, name: string, args: unknown): Promise<string> {
+    return tools.run({ id: "call_0", name, arguments: JSON.stringify(args) });
+}
+
+describe("ProjectTools", () => {
+    it("read_file 读取文件，可以只读取几行", async () => {
+        const tools = new ProjectTools({ root: env.dir });
+        const whole = await run(tools, "read_file", { path: "src/utils/text.ts" });
+        assert.ok(whole.startsWith("src/utils/text.ts（第 1-6 行，共 6 行）"));
+        assert.ok(whole.includes("export function slugify"));
+
+        const part = await run(tools, "read_file", { path: "src/main.ts", startLine: 3, endLine: 3 });
+        assert.equal(part, "src/main.ts（第 3-3 行，共 5 行）:\nexport function title(name: string): string {");
+    });
+
+    it("list_directory 列出目录，子目录在前，不列出隐藏文件", async () => {
+        const tools = new ProjectTools({ root: env.dir });
+        assert.equal(await run(tools, "list_directory", {}), "./:\nsrc/\npackage.json");
+        assert.equal(await run(tools, "list_directory", { path: "src" }), "src/:\nutils/\nmain.ts");
+    });
+
+    it("find_definition 返回声明和上方的文档注释", async () => {
+        const tools = new ProjectTools({ root: env.dir });
+        const result = await run(tools, "find_definition", { symbol: "slugify" });
+        assert.ok(result.startsWith("src/utils/text.ts 第 4 行:\n/**\n * 把文本转换成"));
+        assert.equal(await run(tools, "find_definition", { symbol: "missing" }), "没有找到 missing 的声明");
+    });
+
+    it("read_package_json 向上查找最近的 package.json", async () => {
+        await writeFile(join(env.dir, "src", "package.json"), `{ "name": "inner" }`, "utf-8");
+        const tools = new ProjectTools({ root: env.dir });
+        assert.ok((await run(tools, "read_package_json", { path: "src/utils/text.ts" })).startsWith("src/package.json:"));
+        assert.ok((await run(tools, "read_package_json", {})).includes(`"name": "demo"`));
+    });
+
+    it("不能访问项目之外的文件和隐藏文件", async () => {
+        await symlink(outside, join(env.dir, "linked"));
+        const tools = new ProjectTools({ root: env.dir });
+
+        for (const path of ["../x", join(outside, "secret.txt"), ".env", "linked/secret.txt"]) {
+            const result = await run(tools, "read_file", { path });
+            assert.ok(result.startsWith("错误: "), `${path}: ${result}`);
+            assert.ok(!result.includes("secret\n") && !result.includes("API_KEY"));
+        }
+    });
+
+    it("不能通过符号链接访问隐藏文件（config -> .env）", async () => {
+        await symlink(join(env.dir, ".env"), join(env.dir, "config"));
+        const tools = new ProjectTools({ root: env.dir });
+
+        const result = await run(tools, "read_file", { path: "config" });
+        assert.ok(result.startsWith("错误: "), result);
+        assert.ok(!result.includes("API_KEY"));
+
+        // find_definition 遍历目录时同样跳过指向隐藏文件的符号链接
+        await writeFile(join(env.dir, ".secret.ts"), "export const token = 1;", "utf-8");
+        await symlink(join(env.dir, ".secret.ts"), join(env.dir, "src", "token.ts"));
+        assert.equal(await run(tools, "find_definition", { symbol: "token" }), "没有找到 token 的声明");
+    });
+
+    it("read_package_json 跳过指向项目之外的 package.json", async () => {
+        await writeFile(join(outside, "package.json"), `{ "name": "outside" }`, "utf-8");
+        await symlink(join(outside, "package.json"), join(env.dir, "src", "package.json"));
+        const tools = new ProjectTools({ root: env.dir });
+
+        const result = await run(tools, "read_package_json", { path: "src/utils/text.ts" });
+        assert.ok(result.startsWith("package.json:"), result);
+        assert.ok(!result.includes("outside"));
+    });
+
+    it("参数错误和未知的工具作为错误返回", async () => {
+        const tools = new ProjectTools({ root: env.dir });
+        assert.equal(await run(tools, "read_file", {}), "错误: 缺少参数 path");
+        assert.equal(await run(tools, "delete_file", {}), "错误: 没有名为 delete_file 的工具");
+        assert.ok((await tools.run({ id: "x", name: "read_file", arguments: "{oops" })).startsWith("错误: 参数不是合法的 JSON"));
+    });
+});
+
+describe("工具调用循环", () => {
+    it("执行模型请求的工具，把结果发回后得到最终结果", async () => {
+        const tools = new ProjectTools({ root: env.dir });
+        const calls: ToolCall[] = [];
+        env.mock.reply({ toolCalls: [{ name: "find_definition", arguments: { symbol: "slugify" } }] });
+
+        const provider = tools.attach(env.mock.provider("openai"), {
+            filePath: "src/main.ts",
+            onToolCall: (call) => calls.push(call),
+        });
+        const response = await provider.complete({ messages: [{ role: "user", content: "```ts\nx\n```" }] });
+
+        assert.equal(response.content, "```\nx\n```");
+        assert.deepEqual(calls.map((call) => call.name), ["find_definition"]);
+        assert.equal(env.mock.requests.length, 2);
+        assert.deepEqual(env.mock.requests[0].tools, ["read_file", "list_directory", "find_definition", "read_package_json"]);
+        assert.equal(env.mock.requests[0].body.messages[0].role, "system");
+        assert.ok(env.mock.requests[0].body.messages[0].content.includes("src/main.ts"));
+
+        const [assistant, tool] = env.mock.requests[1].body.messages.slice(-2);
+        assert.equal(assistant.tool_calls[0].function.name, "find_definition");
+        assert.equal(tool.role, "tool");
+        assert.equal(tool.tool_call_id, assistant.tool_calls[0].id);
+        assert.ok(tool.content.includes("把文本转换成 URL"));
+    });
+
+    it("DashScope 的工具结果带上工具名称", async () => {
+        const tools = new ProjectTools({ root: env.dir });
+        env.mock.reply({ toolCalls: [{ name: "list_directory", arguments: {} }] });
+
+        await tools.attach(env.mock.provider("dashscope"), { filePath: "src/main.ts" })
+            .complete({ messages: [{ role: "user", content: "```ts\nx\n```" }] });
+
+        const tool = env.mock.requests[1].body.input.messages.at(-1);
+        assert.equal(tool.role, "tool");
+        assert.equal(tool.name, "list_directory");
+        assert.equal(env.mock.requests[1].body.parameters.tools.length, 4);
+    });
+
+    it("达到轮数上限后不再提供工具，要求模型直接给出结果", async () => {
+        const tools = new ProjectTools({ root: env.dir, maxIterations: 2 });
+        env.mock.setHandler((request) =>
+            request.tools.length > 0
+                ? { toolCalls: [{ name: "read_file", arguments: { path: "src/main.ts" } }] }
+                : { content: "```\n" + request.code + "\n```" }
+        );
+
+        const response = await tools.attach(env.mock.provider("openai"), { filePath: "src/main.ts" })
+            .complete({ messages: [{ role: "user", content: "```ts\nx\n```" }] });
+
+        assert.equal(response.content, "```\nx\n```");
+        assert.equal(env.mock.requests.length, 3);
+        assert.deepEqual(env.mock.requests[2].tools, []);
+        assert.equal(env.mock.requests[2].prompt, TOOLS_EXHAUSTED_PROMPT);
+    });
+
+    it("工具输出超过 token 上限时不再发送", async () => {
+        const tools = new ProjectTools({ root: env.dir, maxTokens: 5 });
+        env.mock.reply({ toolCalls: [{ name: "read_file", arguments: { path: "src/utils/text.ts" } }] });
+
+        await tools.attach(env.mock.provider("openai"), { filePath: "src/main.ts" })
+            .complete({ messages: [{ role: "user", content: "```ts\nx\n```" }] });
+
+        const tool = env.mock.requests[1].body.messages.at(-2);
+        assert.ok(tool.content.startsWith("错误: 工具输出已达到上限"));
+        assert.deepEqual(env.mock.requests[1].tools, []);
+    });
+
+    it("addCommentsToFile 中每一轮请求都计入用量", async () => {
+        const usage = new UsageTracker();
+        const calls: string[] = [];
+        env.mock.reply({ toolCalls: [{ name: "find_definition", arguments: { symbol: "slugify" } }] });
+
+        const file = join(env.dir, "src", "main.ts");
+        const result = await addCommentsToFile(file, {
+            provider: env.mock.provider("openai"),
+            tools: new ProjectTools({ root: env.dir }),
+            usage,
+            backup: false,
+            logger: silentLogger,
+            onToolCall: (call) => calls.push(call.arguments),
+        });
+
+        assert.equal(result.status, "written");
+        assert.deepEqual(calls, [`{"symbol":"slugify"}`]);
+        assert.equal(usage.forFile(file).requests, 2);
+        assert.ok(env.mock.requests[0].body.messages[0].content.includes("src/main.ts"));
+    });
+});